@@ -3,6 +3,7 @@
 // =====================================================
 // Lists all conversations sorted by recent activity
 // Now includes segmented control for Direct chats and Nests
+// Partners online get a green dot; a partner typing replaces the preview
 
 import React, { useEffect, useState } from 'react';
 import {
@@ -20,6 +21,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/services/supabase';
 import { getConversations, getOtherUser, formatMessageTime } from '@/services/chat';
 import { getNestsForUser } from '@/services/nests';
+import { subscribeToOnlineUsers, subscribeToTyping } from '@/services/presence';
 import { NestCard } from '@/components/nest/NestCard';
 import type { ConversationWithMatch, NestWithMembers } from '@/types/chat';
 
@@ -31,12 +33,38 @@ export default function ChatsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'direct' | 'nests'>('direct');
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const [typingConversationIds, setTypingConversationIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     loadCurrentUser();
     loadData();
   }, []);
 
+  useEffect(() => subscribeToOnlineUsers(setOnlineUserIds), []);
+
+  // Listen for typing in every listed conversation
+  const conversationIdsKey = conversations.map(c => c.id).join(',');
+  useEffect(() => {
+    if (!currentUserId || !conversationIdsKey) return;
+
+    const unsubscribers = conversationIdsKey.split(',').map(conversationId =>
+      subscribeToTyping({ kind: 'conversation', id: conversationId }, currentUserId, (typingUserIds) => {
+        setTypingConversationIds(prev => {
+          const next = new Set(prev);
+          if (typingUserIds.length > 0) next.add(conversationId);
+          else next.delete(conversationId);
+          return next;
+        });
+      })
+    );
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setTypingConversationIds(new Set());
+    };
+  }, [conversationIdsKey, currentUserId]);
+
   async function loadCurrentUser() {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
@@ -97,7 +125,10 @@ export default function ChatsScreen() {
     // Check if this is a new match (matched in last 2 hours) with AI message
     const isNewMatch = item.match && 
       new Date(item.match.matched_at) > new Date(Date.now() - 2 * 60 * 60 * 1000) &&
-      item.match.match_type === 'auto';
+      item.match.match_type !== 'manual';
+    const isMentorship = item.match?.match_type === 'mentorship';
+    const isOnline = onlineUserIds.has(otherUser.id);
+    const isTyping = typingConversationIds.has(item.id);
 
     return (
       <TouchableOpacity
@@ -121,6 +152,8 @@ export default function ChatsScreen() {
               </Text>
             </View>
           )}
+          {/* Online Indicator */}
+          {isOnline && !isNewMatch && <View style={styles.onlineDot} />}
           {/* New Match Indicator */}
           {isNewMatch && (
             <View style={styles.newMatchBadge}>
@@ -148,12 +181,23 @@ export default function ChatsScreen() {
                 <Text style={styles.newTagText}>NEW</Text>
               </View>
             )}
-            <Text style={[
-              styles.lastMessage,
-              isNewMatch && styles.lastMessageBold
-            ]} numberOfLines={1}>
-              {item.last_message_content || 'No messages yet'}
-            </Text>
+            {isMentorship && (
+              <View style={styles.mentorshipTag}>
+                <Text style={styles.newTagText}>MENTORSHIP</Text>
+              </View>
+            )}
+            {isTyping ? (
+              <Text style={[styles.lastMessage, styles.typingText]} numberOfLines={1}>
+                typing…
+              </Text>
+            ) : (
+              <Text style={[
+                styles.lastMessage,
+                isNewMatch && styles.lastMessageBold
+              ]} numberOfLines={1}>
+                {item.last_message_content || 'No messages yet'}
+              </Text>
+            )}
           </View>
         </View>
       </TouchableOpacity>
@@ -381,6 +425,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#000000',
   },
+  typingText: {
+    color: '#34C759',
+    fontStyle: 'italic',
+  },
   conversationItemHighlight: {
     backgroundColor: '#F0F8FF',
   },
@@ -397,6 +445,17 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#FFFFFF',
   },
+  onlineDot: {
+    position: 'absolute',
+    bottom: 1,
+    right: 1,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#34C759',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
   newTag: {
     backgroundColor: '#8B5FBF',
     paddingHorizontal: 6,
@@ -404,6 +463,13 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     marginRight: 6,
   },
+  mentorshipTag: {
+    backgroundColor: '#14B8A6',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginRight: 6,
+  },
   newTagText: {
     fontSize: 10,
     fontWeight: '700',
@@ -10,12 +10,21 @@ import {
   ActivityIndicator, 
   Dimensions, 
   ScrollView,
-  RefreshControl
+  RefreshControl,
+  Alert
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/services/supabase';
 import { getConversations } from '@/services/chat';
+import { getMatchReasons, getPreferenceReach, MATCH_REASON_USER_FIELDS } from '@/services/matching';
+import type { MatchReason, MatchReasonUser, PreferenceReach } from '@/services/matching';
+import { MatchReasons } from '@/components/match/MatchReasons';
+import { getPendingFeedback, submitMatchFeedback } from '@/services/feedback';
+import type { MatchFeedbackInput, PendingFeedback } from '@/services/feedback';
+import { MatchFeedbackPrompt } from '@/components/match/MatchFeedbackPrompt';
+import { updateProfile } from '@/services/profile';
+import { formatMatchHour, getDeviceTimezone } from '@/utils/timezone';
 
 const { width } = Dimensions.get('window');
 
@@ -27,6 +36,10 @@ type User = {
   preferred_subjects?: string[] | null;
   profile_photo_url?: string | null;
   last_auto_match_cycle?: string | null;
+  timezone?: string | null;
+  match_hour?: number;
+  next_auto_match_at?: string | null;
+  matching_paused_until?: string | null;
 };
 
 type TodaysMatch = {
@@ -37,6 +50,7 @@ type TodaysMatch = {
   has_ai_message: boolean;
   conversation_id?: string;
   last_message_content?: string | null;
+  reasons: MatchReason[]; // Why you matched, strongest first
 };
 
 export default function MatchesScreen() {
@@ -48,6 +62,8 @@ export default function MatchesScreen() {
   const [nextMatchTime, setNextMatchTime] = useState<Date | null>(null);
   const [timeUntilMatch, setTimeUntilMatch] = useState('');
   const [hasNewMatch, setHasNewMatch] = useState(false);
+  const [preferenceReach, setPreferenceReach] = useState<PreferenceReach | null>(null);
+  const [pendingFeedback, setPendingFeedback] = useState<PendingFeedback[]>([]);
 
   useEffect(() => {
     loadUserAndMatches();
@@ -71,19 +87,34 @@ export default function MatchesScreen() {
       }
 
       // Fetch current user data
-      const { data: userData } = await supabase
+      let { data: userData } = await supabase
         .from('users')
         .select('*')
         .eq('id', user.id)
         .single();
 
+      // First visit: report the device timezone so matches arrive at local time
+      const deviceTimezone = getDeviceTimezone();
+      if (userData && !userData.timezone && deviceTimezone) {
+        const result = await updateProfile(user.id, { timezone: deviceTimezone });
+        if (result.success && result.data) {
+          userData = { ...userData, ...result.data };
+        }
+      }
+
       if (userData) {
         setCurrentUser(userData);
-        calculateNextMatchTime(userData.last_auto_match_cycle);
+        // Countdown to the server's schedule, the same one auto-match runs on
+        setNextMatchTime(userData.next_auto_match_at ? new Date(userData.next_auto_match_at) : null);
+        // Warn when the user's own deal-breakers leave nobody to match with
+        setPreferenceReach(await getPreferenceReach(userData));
       }
 
       // Fetch today's auto-matches
-      await loadTodaysMatches(user.id);
+      await loadTodaysMatches(user.id, userData);
+
+      // Older matches waiting for "Did you study together?"
+      setPendingFeedback(await getPendingFeedback(user.id));
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
@@ -92,7 +123,7 @@ export default function MatchesScreen() {
     }
   }
 
-  async function loadTodaysMatches(userId: string) {
+  async function loadTodaysMatches(userId: string, viewer: (User & MatchReasonUser) | null) {
     try {
       // Get matches from the last 24 hours
       const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
@@ -106,11 +137,12 @@ export default function MatchesScreen() {
           user1_id,
           user2_id,
           user1:users!matches_user1_id_fkey (
-            id, full_name, major, year, preferred_subjects, profile_photo_url
+            ${MATCH_REASON_USER_FIELDS}, full_name, profile_photo_url
           ),
           user2:users!matches_user2_id_fkey (
-            id, full_name, major, year, preferred_subjects, profile_photo_url
-          )
+            ${MATCH_REASON_USER_FIELDS}, full_name, profile_photo_url
+          ),
+          analytics:match_analytics (score_breakdown, scoring_version)
         `)
         .eq('match_type', 'auto')
         .eq('status', 'active')
@@ -126,9 +158,12 @@ export default function MatchesScreen() {
       const conversations = await getConversations();
 
       // Transform to TodaysMatch format
-      const transformedMatches: TodaysMatch[] = (matches || []).map((match: any) => {
+      const transformedMatches: TodaysMatch[] = await Promise.all((matches || []).map(async (match: any) => {
         const otherUser = match.user1_id === userId ? match.user2 : match.user1;
         const conversation = conversations.find((c: any) => c.match.id === match.id);
+        const reasons = viewer && otherUser
+          ? await getMatchReasons(viewer, otherUser, match.analytics?.[0] || null)
+          : [];
         
         return {
           id: match.id,
@@ -138,8 +173,9 @@ export default function MatchesScreen() {
           has_ai_message: match.ai_message_sent,
           conversation_id: conversation?.id,
           last_message_content: conversation?.last_message_content,
+          reasons,
         };
-      });
+      }));
 
       setTodaysMatches(transformedMatches);
       
@@ -153,28 +189,6 @@ export default function MatchesScreen() {
     }
   }
 
-  function calculateNextMatchTime(lastMatchCycle: string | null) {
-    if (!lastMatchCycle) {
-      // No previous match, next one is at 8 AM tomorrow (or today if before 8 AM)
-      const now = new Date();
-      const next = new Date(now);
-      next.setHours(8, 0, 0, 0);
-      
-      if (next <= now) {
-        // 8 AM has passed, set for tomorrow
-        next.setDate(next.getDate() + 1);
-      }
-      
-      setNextMatchTime(next);
-      return;
-    }
-
-    // Next match is 24 hours after last cycle
-    const lastCycle = new Date(lastMatchCycle);
-    const next = new Date(lastCycle.getTime() + 24 * 60 * 60 * 1000);
-    setNextMatchTime(next);
-  }
-
   function updateCountdown() {
     if (!nextMatchTime) return;
 
@@ -198,12 +212,42 @@ export default function MatchesScreen() {
     await loadUserAndMatches();
   }
 
+  async function handleFeedbackSubmit(pending: PendingFeedback, input: MatchFeedbackInput) {
+    if (!currentUser) return;
+    const result = await submitMatchFeedback(currentUser.id, pending.match_id, input);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to save your feedback.');
+      return;
+    }
+    setPendingFeedback((prev) => prev.filter((p) => p.match_id !== pending.match_id));
+  }
+
+  // Hidden until the next load; the prompt comes back on a later visit
+  function handleFeedbackDismiss(pending: PendingFeedback) {
+    setPendingFeedback((prev) => prev.filter((p) => p.match_id !== pending.match_id));
+  }
+
+  async function handleResumeMatching() {
+    if (!currentUser) return;
+    const result = await updateProfile(currentUser.id, { matching_paused_until: null });
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to resume matching.');
+      return;
+    }
+    await loadUserAndMatches();
+  }
+
   function handleMatchPress(match: TodaysMatch) {
     if (match.conversation_id) {
       router.push(`/chat/${match.conversation_id}` as any);
     }
   }
 
+  const pausedUntil =
+    currentUser?.matching_paused_until && new Date(currentUser.matching_paused_until) > new Date()
+      ? new Date(currentUser.matching_paused_until)
+      : null;
+
   if (loading) {
     return (
       <View style={styles.center}>
@@ -231,11 +275,31 @@ export default function MatchesScreen() {
           <Text style={styles.timerTitle}>Next Match In</Text>
         </View>
         <Text style={styles.timerCountdown}>{timeUntilMatch || 'Calculating...'}</Text>
-        <Text style={styles.timerSubtext}>
-          Daily matches happen automatically at 8 AM
-        </Text>
+        <TouchableOpacity onPress={() => router.push('/settings/match-schedule' as any)}>
+          <Text style={styles.timerSubtext}>
+            Daily matches arrive at {formatMatchHour(currentUser?.match_hour ?? 8)}
+            {currentUser?.timezone ? ` (${currentUser.timezone})` : ' UTC'}
+          </Text>
+        </TouchableOpacity>
       </View>
 
+      {/* Paused Banner */}
+      {pausedUntil && (
+        <View style={styles.preferenceHint}>
+          <Ionicons name="airplane-outline" size={20} color="#FF9500" />
+          <View style={styles.preferenceHintContent}>
+            <Text style={styles.preferenceHintTitle}>Matching is paused</Text>
+            <Text style={styles.preferenceHintText}>
+              You're hidden from others until{' '}
+              {pausedUntil.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}.
+            </Text>
+          </View>
+          <TouchableOpacity onPress={handleResumeMatching}>
+            <Text style={styles.resumeText}>Resume now</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* New Match Notification */}
       {hasNewMatch && todaysMatches.length > 0 && (
         <View style={styles.notification}>
@@ -246,6 +310,34 @@ export default function MatchesScreen() {
         </View>
       )}
 
+      {/* Preferences Hint */}
+      {preferenceReach && preferenceReach.candidateCount > 0 && preferenceReach.allowedCount === 0 && (
+        <TouchableOpacity
+          style={styles.preferenceHint}
+          onPress={() => router.push('/settings/match-preferences' as any)}
+        >
+          <Ionicons name="options-outline" size={20} color="#FF9500" />
+          <View style={styles.preferenceHintContent}>
+            <Text style={styles.preferenceHintTitle}>Your preferences rule out everyone</Text>
+            <Text style={styles.preferenceHintText}>
+              None of the {preferenceReach.candidateCount} students at your university meet your
+              deal-breakers. Loosen them to start getting matches.
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      )}
+
+      {/* Post-Match Feedback (one at a time) */}
+      {pendingFeedback.length > 0 && (
+        <MatchFeedbackPrompt
+          key={pendingFeedback[0].match_id}
+          pending={pendingFeedback[0]}
+          onSubmit={(input) => handleFeedbackSubmit(pendingFeedback[0], input)}
+          onDismiss={() => handleFeedbackDismiss(pendingFeedback[0])}
+        />
+      )}
+
       {/* Today's Matches Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Today's Matches</Text>
@@ -336,6 +428,8 @@ function MatchCard({ match, onPress }: { match: TodaysMatch; onPress: () => void
           </View>
         )}
 
+        <MatchReasons reasons={match.reasons} />
+
         {match.last_message_content && (
           <Text style={styles.matchCardLastMessage} numberOfLines={1}>
             {match.last_message_content}
@@ -418,6 +512,36 @@ const styles = StyleSheet.create({
     color: '#FF3B30',
     marginLeft: 8,
   },
+  // Preferences Hint
+  preferenceHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF4E5',
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 12,
+    borderRadius: 12,
+  },
+  preferenceHintContent: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  preferenceHintTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+    marginBottom: 2,
+  },
+  preferenceHintText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    lineHeight: 18,
+  },
+  resumeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
   // Section Styles
   section: {
     marginHorizontal: 16,
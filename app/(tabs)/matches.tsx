@@ -1,10 +1,13 @@
-import React, { useEffect, useState } from 'react';
-import { View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Dimensions, Modal } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, ActivityIndicator, Dimensions, Modal, Alert } from 'react-native';
 import Swiper from 'react-native-deck-swiper';
+import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/services/supabase';
-import { getEligibleMatches } from '@/services/matching';
+import { getCandidateFeedPage } from '@/services/matching';
+import type { CandidateFeedCursor } from '@/services/matching';
 import { checkRateLimitByKey, recordAction } from '@/services/rateLimiting';
-import { isOnline, queueOfflineAction } from '@/services/offline';
+import { getOfflineActions, isOnline, queueOfflineAction, removeOfflineAction } from '@/services/offline';
+import { MATCH_UNDO_GRACE_MINUTES, SWIPE_UNDO_LIMIT, recordSwipe, undoSwipe } from '@/services/swipes';
 
 const { width } = Dimensions.get('window');
 
@@ -17,69 +20,119 @@ type User = {
   profile_photo_url?: string | null;
 };
 
-// ---------- DEV MOCKS (used only if DB returns no rows) ----------
-const MOCK_PROFILES: User[] = [
-  {
-    id: 'mock-1',
-    full_name: 'Olivia Chen',
-    major: 'Computer Science',
-    year: 'Junior',
-    preferred_subjects: ['Data Structures', 'Algorithms', 'Linear Algebra'],
-    profile_photo_url:
-      'https://images.unsplash.com/photo-1524504388940-b1c1722653e1?q=80&w=1200&auto=format&fit=crop',
-  },
-  {
-    id: 'mock-2',
-    full_name: 'Ethan Wright',
-    major: 'Mechanical Engineering',
-    year: 'Sophomore',
-    preferred_subjects: ['Calculus II', 'Physics II', 'Engineering Graphics'],
-    profile_photo_url:
-      'https://images.unsplash.com/photo-1531123414780-f7423da7a56a?q=80&w=1200&auto=format&fit=crop',
-  },
-];
-// ----------------------------------------------------------------
+// What happened to a swipe, so it can be undone
+type SwipeOutcome = {
+  recorded: boolean; // Saved server-side or queued offline
+  offlineActionId?: string | null; // Set while the swipe waits in the offline queue
+};
+
+type SwipeHistoryEntry = {
+  user: User;
+  direction: 'left' | 'right';
+  outcome: Promise<SwipeOutcome>; // Undo waits for the swipe to finish saving
+};
+
+// Fetch the next page once this few unswiped cards are left
+const DECK_PREFETCH_REMAINING = 5;
 
 export default function MatchesScreen() {
   const [profiles, setProfiles] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [exhaustedAt, setExhaustedAt] = useState<number | null>(null); // Deck length when the last card was swiped
+  const [deckKey, setDeckKey] = useState(0);
   const [showMatchModal, setShowMatchModal] = useState(false);
   const [matchedUser, setMatchedUser] = useState<User | null>(null);
+  const [swipeHistory, setSwipeHistory] = useState<SwipeHistoryEntry[]>([]);
+  const [undoing, setUndoing] = useState(false);
+  const swiperRef = useRef<Swiper<User>>(null);
+  const userIdRef = useRef<string | null>(null);
+  const cursorRef = useRef<CandidateFeedCursor | null>(null);
+  const fetchingRef = useRef(false);
 
-  useEffect(() => {
-    const fetchProfiles = async () => {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          console.error('No authenticated user');
-          setLoading(false);
-          return;
-        }
-
-        const eligible = await getEligibleMatches(user.id);
-        console.log('Fetched eligible matches:', eligible);
-        setProfiles(eligible);
-      } catch (error) {
-        console.error('Error fetching profiles:', error);
+  // Load the first page of the ranked deck, starting a fresh deck
+  const loadDeck = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        console.error('No authenticated user');
+        return;
       }
+      userIdRef.current = user.id;
+
+      const page = await getCandidateFeedPage(user.id);
+      cursorRef.current = page.nextCursor;
+      setProfiles(page.candidates);
+      setHasMore(page.nextCursor !== null);
+      setExhaustedAt(null);
+      setSwipeHistory([]);
+      setDeckKey(key => key + 1);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    } finally {
       setLoading(false);
-    };
-    fetchProfiles();
+    }
+  };
+
+  // Append the next page of the deck, skipping anyone already on it
+  const loadMore = async () => {
+    const userId = userIdRef.current;
+    const cursor = cursorRef.current;
+    if (!userId || !cursor || fetchingRef.current) return;
+
+    fetchingRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await getCandidateFeedPage(userId, cursor);
+      cursorRef.current = page.nextCursor;
+      setProfiles(prev => {
+        const seen = new Set(prev.map(profile => profile.id));
+        return [...prev, ...page.candidates.filter(candidate => !seen.has(candidate.id))];
+      });
+      setHasMore(page.nextCursor !== null);
+    } catch (error) {
+      console.error('Error fetching more profiles:', error);
+    } finally {
+      fetchingRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDeck();
   }, []);
 
-  const handleSwipe = async (index: number, direction: 'left' | 'right') => {
+  // The last card was swiped before the next page arrived: continue from the
+  // new cards, or keep paging while there are more to come
+  useEffect(() => {
+    if (exhaustedAt === null) return;
+    if (profiles.length > exhaustedAt) {
+      swiperRef.current?.jumpToCardIndex(exhaustedAt);
+      setExhaustedAt(null);
+    } else if (hasMore && !loadingMore) {
+      loadMore();
+    }
+  }, [profiles, exhaustedAt, hasMore, loadingMore]);
+
+  const onSwipedAll = () => {
+    setExhaustedAt(profiles.length);
+  };
+
+  const handleSwipe = async (index: number, direction: 'left' | 'right'): Promise<SwipeOutcome> => {
     const swipedUser = profiles[index];
-    if (!swipedUser) return;
+    if (!swipedUser) return { recorded: false };
 
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      if (!user) return { recorded: false };
 
       // Check rate limit before swipe action
       const withinLimit = await checkRateLimitByKey(user.id, 'SWIPE_ACTION');
       if (!withinLimit) {
         console.log('Rate limit exceeded for swipe actions');
-        return;
+        return { recorded: false };
       }
 
       const action = direction === 'right' ? 'like' : 'skip';
@@ -87,7 +140,7 @@ export default function MatchesScreen() {
       // Check if device is online
       if (!isOnline()) {
         // Queue swipe action for offline sync
-        await queueOfflineAction({
+        const offlineActionId = await queueOfflineAction({
           type: 'swipe',
           payload: {
             user_id: user.id,
@@ -99,79 +152,94 @@ export default function MatchesScreen() {
         console.log(`Offline: Swipe queued for later sync - ${action} on ${swipedUser.full_name}`);
         
         // Continue with UI update (card removal happens via swiper)
-        return;
+        return { recorded: offlineActionId !== null, offlineActionId };
       }
 
-      // Record the swipe action
-      try {
-        await (supabase.from('swipe_actions') as any).insert([
-          {
-            user_id: user.id,
-            target_user_id: swipedUser.id,
-            action,
-          },
-        ]);
-            } catch (insertError) {
-              console.error('Error inserting swipe action:', insertError);
-            }
-
-            // Record successful swipe action for rate limiting
-            await recordAction(user.id, 'swipe_action', {
-              target_user_id: swipedUser.id,
-              action: action
-            });
-
-            console.log(`Swiped ${direction} on ${swipedUser.full_name}`);
-
-      // If it's a like, check for mutual match
-      if (direction === 'right') {
-        const { data: mutualSwipe } = await supabase
-          .from('swipe_actions')
-          .select('*')
-          .eq('user_id', swipedUser.id)
-          .eq('target_user_id', user.id)
-          .eq('action', 'like')
-          .single();
-        
-              if (mutualSwipe) {
-                // Check rate limit for match creation
-                const withinMatchLimit = await checkRateLimitByKey(user.id, 'CREATE_MATCH');
-                if (!withinMatchLimit) {
-                  console.log('Rate limit exceeded for match creation');
-                  return;
-                }
-
-                // Create match
-                try {
-                  const { data: matchData } = await (supabase.from('matches') as any)
-                    .insert({
-                      user1_id: user.id,
-                      user2_id: swipedUser.id,
-                      match_type: 'manual',
-                      status: 'active',
-                    })
-                    .select()
-                    .single();
-
-                  if (matchData) {
-                    // Record successful match creation for rate limiting
-                    await recordAction(user.id, 'match_created', {
-                      match_id: matchData.id,
-                      partner_id: swipedUser.id
-                    });
-
-                    // Show match modal
-                    setMatchedUser(swipedUser);
-                    setShowMatchModal(true);
-                    console.log('It\'s a match!', matchData);
-                  }
-                } catch (matchError) {
-                  console.error('Error creating match:', matchError);
-                }
-              }
+      // Record the swipe; a mutual like creates the match server-side
+      const result = await recordSwipe(swipedUser.id, action);
+      if (!result.success) {
+        console.error('Error recording swipe:', result.error);
+        return { recorded: false };
       }
+
+      // Record successful swipe action for rate limiting
+      await recordAction(user.id, 'swipe_action', {
+        target_user_id: swipedUser.id,
+        action: action
+      });
+
+      console.log(`Swiped ${direction} on ${swipedUser.full_name}`);
+
+      if (result.match) {
+        if (result.matchCreated) {
+          // Record successful match creation for rate limiting
+          await recordAction(user.id, 'match_created', {
+            match_id: result.match.id,
+            partner_id: swipedUser.id
+          });
+        }
+
+        // Show match modal
+        setMatchedUser(swipedUser);
+        setShowMatchModal(true);
+        console.log('It\'s a match!', result.match);
+      }
+
+      return { recorded: true };
     } catch (err) {
       console.error('Swipe error:', err);
+      return { recorded: false };
+    }
+  };
+
+  const onSwiped = (index: number, direction: 'left' | 'right') => {
+    const swipedUser = profiles[index];
+    if (!swipedUser) return;
+    const outcome = handleSwipe(index, direction);
+    setSwipeHistory(prev => [...prev, { user: swipedUser, direction, outcome }].slice(-SWIPE_UNDO_LIMIT));
+
+    if (profiles.length - (index + 1) <= DECK_PREFETCH_REMAINING) {
+      loadMore();
+    }
+  };
+
+  // Undo the latest swipe: drop it from the offline queue or the server, then
+  // bring the card back
+  const handleUndo = async () => {
+    const entry = swipeHistory[swipeHistory.length - 1];
+    if (!entry || undoing) return;
+
+    setUndoing(true);
+    try {
+      const outcome = await entry.outcome;
+      const queued = outcome.offlineActionId
+        ? (await getOfflineActions()).some(action => action.id === outcome.offlineActionId)
+        : false;
+
+      if (queued) {
+        await removeOfflineAction(outcome.offlineActionId!);
+      } else if (outcome.recorded) {
+        const result = await undoSwipe(entry.user.id);
+        if (!result.success) {
+          Alert.alert(
+            "Couldn't undo",
+            entry.direction === 'right'
+              ? `Matches can only be undone within ${MATCH_UNDO_GRACE_MINUTES} minutes, before anyone sends a message.`
+              : 'Please check your connection and try again.'
+          );
+          return;
+        }
+        if (result.matchRemoved && matchedUser?.id === entry.user.id) {
+          setShowMatchModal(false);
+          setMatchedUser(null);
+        }
+      }
+
+      setSwipeHistory(prev => prev.slice(0, -1));
+      setExhaustedAt(null);
+      swiperRef.current?.swipeBack();
+    } finally {
+      setUndoing(false);
     }
   };
 
@@ -184,37 +252,58 @@ export default function MatchesScreen() {
     );
   }
 
-  // DEV FALLBACK: show mock cards if DB returned nothing
-  if (profiles.length === 0) {
-    return (
-      <View style={styles.container}>
+  const seenEveryone = profiles.length === 0 || (exhaustedAt !== null && !hasMore && !loadingMore);
+
+  return (
+    <View style={styles.container}>
+      {profiles.length > 0 && (
         <Swiper
-          cards={MOCK_PROFILES}
-          renderCard={(u: User) => <ProfileCard user={u} />}
-          onSwipedLeft={() => {}}
-          onSwipedRight={() => {}}
+          key={deckKey}
+          ref={swiperRef}
+          cards={profiles}
+          renderCard={(user: User) => <ProfileCard user={user} />}
+          onSwipedLeft={(i) => onSwiped(i, 'left')}
+          onSwipedRight={(i) => onSwiped(i, 'right')}
+          onSwipedAll={onSwipedAll}
           backgroundColor="#fdfcfb"
           cardVerticalMargin={60}
           stackSize={2}
           animateCardOpacity
+          swipeBackCard
         />
-      </View>
-    );
-  }
+      )}
+
+      {exhaustedAt !== null && !seenEveryone && (
+        <View style={styles.emptyState}>
+          <ActivityIndicator size="large" />
+          <Text style={styles.emptySubtitle}>Finding more study partners...</Text>
+        </View>
+      )}
+
+      {seenEveryone && (
+        <View style={styles.emptyState}>
+          <Ionicons name="people-outline" size={56} color="#A67B5B" />
+          <Text style={styles.emptyTitle}>You've seen everyone</Text>
+          <Text style={styles.emptySubtitle}>
+            There's no one new at your university right now. Check back later as more students join.
+          </Text>
+          <TouchableOpacity style={styles.refreshButton} onPress={loadDeck}>
+            <Text style={styles.refreshText}>Check again</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {swipeHistory.length > 0 && (
+        <TouchableOpacity
+          style={[styles.undoButton, undoing && styles.undoButtonDisabled]}
+          onPress={handleUndo}
+          disabled={undoing}
+        >
+          <Ionicons name="arrow-undo" size={18} color="#A67B5B" />
+          <Text style={styles.undoText}>Undo</Text>
+        </TouchableOpacity>
+      )}
 
-  return (
-    <View style={styles.container}>
-      <Swiper
-        cards={profiles}
-        renderCard={(user: User) => <ProfileCard user={user} />}
-        onSwipedLeft={(i) => handleSwipe(i, 'left')}
-        onSwipedRight={(i) => handleSwipe(i, 'right')}
-        backgroundColor="#fdfcfb"
-        cardVerticalMargin={60}
-        stackSize={2}
-        animateCardOpacity
-      />
-      
       <MatchModal
         user={matchedUser}
         visible={showMatchModal}
@@ -328,6 +417,37 @@ const styles = StyleSheet.create({
   skip: { borderWidth: 1, borderColor: '#ccc' },
   message: { backgroundColor: '#A67B5B' },
   btnText: { fontWeight: '600' },
+  emptyState: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    backgroundColor: '#fdfcfb',
+  },
+  emptyTitle: { fontSize: 22, fontWeight: 'bold', color: '#222', marginTop: 16, marginBottom: 8 },
+  emptySubtitle: { fontSize: 15, color: '#666', textAlign: 'center', marginTop: 8 },
+  refreshButton: {
+    marginTop: 24,
+    backgroundColor: '#A67B5B',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 25,
+  },
+  refreshText: { color: '#fff', fontSize: 16, fontWeight: '600' },
+  undoButton: {
+    position: 'absolute',
+    bottom: 24,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#A67B5B',
+  },
+  undoButtonDisabled: { opacity: 0.5 },
+  undoText: { marginLeft: 6, color: '#A67B5B', fontWeight: '600' },
   // Match Modal Styles
   modalOverlay: {
     flex: 1,
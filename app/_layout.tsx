@@ -4,6 +4,7 @@ import { useEffect, useRef } from 'react';
 import * as Notifications from 'expo-notifications';
 import { initializePushNotifications, addNotificationResponseListener } from '@/services/notifications';
 import { initializeNetworkMonitoring, onNetworkStateChange } from '@/services/offline';
+import { initializePresence } from '@/services/presence';
 import { OfflineIndicator } from '@/components/OfflineIndicator';
 
 export default function RootLayout() {
@@ -18,6 +19,9 @@ export default function RootLayout() {
     // Initialize network monitoring for offline support
     const unsubscribeNetwork = initializeNetworkMonitoring();
 
+    // Share online status and last seen while signed in
+    const stopPresence = initializePresence();
+
     // Listen for network state changes
     const unsubscribeNetworkListener = onNetworkStateChange((state) => {
       if (state.isConnected && state.isInternetReachable) {
@@ -32,10 +36,10 @@ export default function RootLayout() {
       const data = response.notification.request.content.data;
 
       // Handle different notification types
-      if (data.type === 'new_match' && data.matchId) {
+      if ((data.type === 'new_match' || data.type === 'match_nudge') && data.matchId) {
         // Navigate to chats tab to see new match
         router.push('/(tabs)/chats');
-      } else if (data.type === 'nest_message' && data.nestId) {
+      } else if ((data.type === 'nest_message' || data.type === 'new_nest') && data.nestId) {
         // Navigate to nest chat
         router.push(`/nest/${data.nestId}`);
       }
@@ -45,6 +49,7 @@ export default function RootLayout() {
     return () => {
       unsubscribeNetwork();
       unsubscribeNetworkListener();
+      stopPresence();
       
       if (notificationListener.current) {
         notificationListener.current.remove();
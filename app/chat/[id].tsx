@@ -15,17 +15,51 @@ import {
   KeyboardAvoidingView,
   Platform,
   RefreshControl,
+  TouchableOpacity,
+  Alert,
 } from 'react-native';
-import { useLocalSearchParams, Stack } from 'expo-router';
+import type { AlertButton } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/services/supabase';
-import { getMessages, getConversation, getOtherUser, sendMessage, sendImageMessage } from '@/services/chat';
+import {
+  getMessages,
+  getConversation,
+  getOtherUser,
+  sendMessage,
+  sendImageMessage,
+  canEditMessage,
+  editMessage,
+  deleteMessage,
+} from '@/services/chat';
 import { MessageBubble } from '@/components/chat/MessageBubble';
 import { ChatInput } from '@/components/chat/ChatInput';
 import type { MessageWithSender, ConversationWithMatch, Message } from '@/types/chat';
-import { getOfflineMessages, syncOfflineData, onNetworkStateChange } from '@/services/offline';
+import {
+  getOfflineMessages,
+  syncOfflineData,
+  onNetworkStateChange,
+  isOnline,
+  queueOfflineAction,
+} from '@/services/offline';
+import { getMatchReasonsForMatch } from '@/services/matching';
+import type { MatchReason } from '@/services/matching';
+import { MatchReasons } from '@/components/match/MatchReasons';
+import { UnmatchSheet } from '@/components/chat/UnmatchSheet';
+import { EditMessageSheet } from '@/components/chat/EditMessageSheet';
+import { unmatchUser } from '@/services/unmatch';
+import type { UnmatchReason } from '@/services/unmatch';
+import {
+  subscribeToTyping,
+  createTypingNotifier,
+  subscribeToOnlineUsers,
+  getLastSeen,
+  formatLastSeen,
+} from '@/services/presence';
 
 export default function ChatDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
   const [messages, setMessages] = useState<MessageWithSender[]>([]);
   const [conversation, setConversation] = useState<ConversationWithMatch | null>(null);
   const [loading, setLoading] = useState(true);
@@ -41,6 +75,22 @@ export default function ChatDetailScreen() {
   const [pendingMessagesCount, setPendingMessagesCount] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // Why these two were matched, shown under the name in the header
+  const [matchReasons, setMatchReasons] = useState<MatchReason[]>([]);
+
+  const [showUnmatch, setShowUnmatch] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<MessageWithSender | null>(null);
+
+  // Presence: partner typing, online, or when they were last seen
+  const [partnerTyping, setPartnerTyping] = useState(false);
+  const [partnerOnline, setPartnerOnline] = useState(false);
+  const [partnerLastSeen, setPartnerLastSeen] = useState<string | null>(null);
+  const typingNotifier = useRef<ReturnType<typeof createTypingNotifier> | null>(null);
+
+  const partnerId = conversation?.match && currentUserId
+    ? (conversation.match.user1_id === currentUserId ? conversation.match.user2_id : conversation.match.user1_id)
+    : null;
+
   useEffect(() => {
     if (id && typeof id === 'string') {
       loadCurrentUser();
@@ -49,6 +99,12 @@ export default function ChatDetailScreen() {
     }
   }, [id]);
 
+  useEffect(() => {
+    const matchId = conversation?.match?.id;
+    if (!matchId || !currentUserId) return;
+    getMatchReasonsForMatch(matchId, currentUserId).then(setMatchReasons);
+  }, [conversation?.match?.id, currentUserId]);
+
   // Phase 4: Real-time subscription
   useEffect(() => {
     if (!id || typeof id !== 'string') return;
@@ -95,6 +151,42 @@ export default function ChatDetailScreen() {
     };
   }, [id]);
 
+  // Typing indicators, both ways
+  useEffect(() => {
+    if (!id || typeof id !== 'string' || !currentUserId) return;
+
+    const target = { kind: 'conversation' as const, id };
+    const unsubscribe = subscribeToTyping(target, currentUserId, (typingUserIds) => {
+      setPartnerTyping(typingUserIds.length > 0);
+    });
+    typingNotifier.current = createTypingNotifier(target, currentUserId);
+
+    return () => {
+      unsubscribe();
+      typingNotifier.current?.stop();
+      typingNotifier.current = null;
+      setPartnerTyping(false);
+    };
+  }, [id, currentUserId]);
+
+  // Partner's online status; last seen is loaded for when they're away
+  useEffect(() => {
+    if (!partnerId) return;
+
+    let wasOnline = false;
+    getLastSeen([partnerId]).then((lastSeen) => setPartnerLastSeen(lastSeen.get(partnerId) || null));
+
+    const unsubscribe = subscribeToOnlineUsers((onlineUserIds) => {
+      const online = onlineUserIds.has(partnerId);
+      // They just left: last seen is now
+      if (wasOnline && !online) setPartnerLastSeen(new Date().toISOString());
+      wasOnline = online;
+      setPartnerOnline(online);
+    });
+
+    return unsubscribe;
+  }, [partnerId]);
+
   // Monitor offline message queue
   useEffect(() => {
     if (!id || typeof id !== 'string') {
@@ -155,6 +247,29 @@ export default function ChatDetailScreen() {
     }
   }
 
+  async function handleUnmatch(reason: UnmatchReason | null) {
+    const matchId = conversation?.match?.id;
+    if (!matchId) return;
+
+    if (!isOnline()) {
+      // Sent by syncOfflineData once the connection is back
+      const actionId = await queueOfflineAction({ type: 'unmatch', payload: { matchId, reason } });
+      if (!actionId) {
+        Alert.alert('Error', 'Failed to unmatch. Please try again.');
+        return;
+      }
+    } else {
+      const result = await unmatchUser(matchId, reason);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to unmatch. Please try again.');
+        return;
+      }
+    }
+
+    setShowUnmatch(false);
+    router.back();
+  }
+
   async function loadCurrentUser() {
     const { data: { user } } = await supabase.auth.getUser();
     if (user) {
@@ -305,12 +420,63 @@ export default function ChatDetailScreen() {
     }
   }
 
+  // Edit and delete are offered on the sender's own delivered messages
+  function handleMessageLongPress(message: MessageWithSender) {
+    if (!currentUserId) return;
+
+    const buttons: AlertButton[] = [];
+    if (canEditMessage(message, currentUserId)) {
+      buttons.push({ text: 'Edit', onPress: () => setEditingMessage(message) });
+    }
+    buttons.push({ text: 'Delete for Everyone', style: 'destructive', onPress: () => confirmDeleteMessage(message) });
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert('Message', undefined, buttons);
+  }
+
+  function confirmDeleteMessage(message: MessageWithSender) {
+    Alert.alert('Delete message?', 'It will be removed for everyone in this chat.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteMessage(message.id);
+          if (!result.success || !result.data) {
+            Alert.alert('Error', result.error || 'Failed to delete message. Please try again.');
+            return;
+          }
+          handleRealtimeMessageUpdate(result.data);
+        },
+      },
+    ]);
+  }
+
+  async function handleSaveEdit(content: string) {
+    if (!editingMessage) return;
+
+    const result = await editMessage(editingMessage.id, content);
+    if (!result.success || !result.data) {
+      Alert.alert('Error', result.error || 'Failed to edit message. Please try again.');
+      return;
+    }
+    handleRealtimeMessageUpdate(result.data);
+    setEditingMessage(null);
+  }
+
   function renderMessage({ item }: { item: MessageWithSender }) {
     if (!currentUserId) return null;
 
     const isCurrentUser = item.sender_id === currentUserId;
+    const canManage = isCurrentUser && !item.deleted_at && item.status !== 'sending' && item.status !== 'failed';
 
-    return <MessageBubble message={item} isCurrentUser={isCurrentUser} />;
+    return (
+      <MessageBubble
+        message={item}
+        isCurrentUser={isCurrentUser}
+        onLongPress={canManage ? () => handleMessageLongPress(item) : undefined}
+      />
+    );
   }
 
   async function handleSendMessage(content: string) {
@@ -475,6 +641,17 @@ export default function ChatDetailScreen() {
     ? `${headerTitle} • ${pendingMessagesCount} pending`
     : headerTitle;
 
+  const presenceText = partnerTyping
+    ? 'typing…'
+    : partnerOnline
+      ? 'Online'
+      : partnerLastSeen
+        ? formatLastSeen(partnerLastSeen)
+        : null;
+
+  // The partner may have unmatched; the chat stays readable but closed
+  const matchEnded = conversation?.match?.status === 'unmatched' || conversation?.match?.status === 'expired';
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -490,9 +667,47 @@ export default function ChatDetailScreen() {
         options={{
           title: fullHeaderTitle,
           headerBackTitle: 'Chats',
+          headerTitle: () => (
+            <View style={styles.headerTitleContainer}>
+              <Text style={styles.headerTitleText} numberOfLines={1}>{fullHeaderTitle}</Text>
+              {presenceText && !matchEnded && (
+                <Text
+                  style={[styles.headerPresenceText, (partnerTyping || partnerOnline) && styles.headerPresenceActive]}
+                  numberOfLines={1}
+                >
+                  {presenceText}
+                </Text>
+              )}
+              <MatchReasons reasons={matchReasons} compact />
+            </View>
+          ),
+          headerRight: () =>
+            conversation?.match && !matchEnded ? (
+              <TouchableOpacity
+                onPress={() => setShowUnmatch(true)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityLabel="Unmatch"
+              >
+                <Ionicons name="ellipsis-horizontal" size={22} color="#007AFF" />
+              </TouchableOpacity>
+            ) : null,
         }}
       />
 
+      <UnmatchSheet
+        visible={showUnmatch}
+        partnerName={headerTitle}
+        onConfirm={handleUnmatch}
+        onClose={() => setShowUnmatch(false)}
+      />
+
+      <EditMessageSheet
+        visible={!!editingMessage}
+        initialContent={editingMessage?.content || ''}
+        onSave={handleSaveEdit}
+        onClose={() => setEditingMessage(null)}
+      />
+
       <KeyboardAvoidingView
         style={styles.container}
         behavior={Platform.OS === 'ios' ? 'padding' : undefined}
@@ -533,11 +748,18 @@ export default function ChatDetailScreen() {
         />
 
         {/* Chat Input - Phase 3 */}
-        <ChatInput
-          onSend={handleSendMessage}
-          onSendImage={handleSendImage}
-          disabled={!currentUserId}
-        />
+        {matchEnded ? (
+          <View style={styles.endedNotice}>
+            <Text style={styles.endedNoticeText}>This match has ended</Text>
+          </View>
+        ) : (
+          <ChatInput
+            onSend={handleSendMessage}
+            onSendImage={handleSendImage}
+            disabled={!currentUserId}
+            onTyping={(isTyping) => typingNotifier.current?.notify(isTyping)}
+          />
+        )}
       </KeyboardAvoidingView>
     </>
   );
@@ -548,6 +770,22 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#FFFFFF',
   },
+  headerTitleContainer: {
+    alignItems: 'center',
+    maxWidth: 240,
+  },
+  headerTitleText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000',
+  },
+  headerPresenceText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  headerPresenceActive: {
+    color: '#34C759',
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -577,6 +815,16 @@ const styles = StyleSheet.create({
     color: '#C7C7CC',
     textAlign: 'center',
   },
+  endedNotice: {
+    paddingVertical: 16,
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  endedNoticeText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
   // Phase 5: Pagination loading styles
   paginationLoadingContainer: {
     flexDirection: 'row',
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import {
   View,
   FlatList,
@@ -10,6 +10,7 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
+import type { AlertButton } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/services/supabase';
@@ -17,12 +18,22 @@ import {
   getNestById, 
   getNestMessages, 
   sendNestMessage,
+  editNestMessage,
+  deleteNestMessage,
   isUserMemberOfNest 
 } from '@/services/nests';
+import { canEditMessage } from '@/services/chat';
 import { MessageBubble } from '@/components/chat/MessageBubble';
 import { ChatInput } from '@/components/chat/ChatInput';
 import { NestMembersModal } from '@/components/nest/NestMembersModal';
-import type { NestWithMembers, NestMessageWithSender } from '@/types/chat';
+import { EditMessageSheet } from '@/components/chat/EditMessageSheet';
+import {
+  subscribeToTyping,
+  createTypingNotifier,
+  subscribeToOnlineUsers,
+  describeTyping,
+} from '@/services/presence';
+import type { NestWithMembers, NestMessage, NestMessageWithSender } from '@/types/chat';
 
 export default function NestChatScreen() {
   const { id: rawId } = useLocalSearchParams<{ id?: string | string[] }>();
@@ -40,6 +51,12 @@ export default function NestChatScreen() {
   const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
 
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<NestMessageWithSender | null>(null);
+
+  // Presence: members typing now and members online
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const typingNotifier = useRef<ReturnType<typeof createTypingNotifier> | null>(null);
 
   useEffect(() => {
     if (!id) {
@@ -48,7 +65,7 @@ export default function NestChatScreen() {
     }
 
     initializeNest();
-    subscribeToMessages();
+    const channel = subscribeToMessages();
     
     // Load current user ID
     const loadCurrentUser = async () => {
@@ -60,11 +77,45 @@ export default function NestChatScreen() {
     loadCurrentUser();
     
     return () => {
-      // Cleanup subscription
-      supabase.removeAllChannels();
+      // Cleanup subscription (only ours; presence channels are shared)
+      if (channel) supabase.removeChannel(channel);
     };
   }, [id]);
 
+  useEffect(() => {
+    if (!id || !currentUserId) return;
+
+    const target = { kind: 'nest' as const, id };
+    const unsubscribe = subscribeToTyping(target, currentUserId, setTypingUserIds);
+    typingNotifier.current = createTypingNotifier(target, currentUserId);
+
+    return () => {
+      unsubscribe();
+      typingNotifier.current?.stop();
+      typingNotifier.current = null;
+      setTypingUserIds([]);
+    };
+  }, [id, currentUserId]);
+
+  useEffect(() => subscribeToOnlineUsers(setOnlineUserIds), []);
+
+  // "Sam is typing…" when someone is, otherwise members and how many are online
+  const headerSubtitle = useMemo(() => {
+    if (!nest) return '';
+
+    const typingNames = typingUserIds
+      .map(userId => nest.members.find(m => m.user_id === userId)?.user?.full_name?.split(' ')[0])
+      .filter((name): name is string => !!name);
+    if (typingNames.length > 0) return describeTyping(typingNames);
+
+    const onlineCount = nest.members.filter(
+      m => m.user_id !== currentUserId && onlineUserIds.has(m.user_id)
+    ).length;
+    return onlineCount > 0
+      ? `${nest.member_count} members • ${onlineCount} online`
+      : `${nest.member_count} members`;
+  }, [nest, typingUserIds, onlineUserIds, currentUserId]);
+
   const initializeNest = async () => {
     try {
       if (!id) {
@@ -165,12 +216,14 @@ export default function NestChatScreen() {
         async (payload: any) => {
           const newMessage = payload.new as NestMessageWithSender;
           
-          // Get sender info
-          const { data: sender } = await supabase
-            .from('users')
-            .select('id, full_name, profile_photo_url')
-            .eq('id', newMessage.sender_id)
-            .single();
+          // Get sender info (none for messages from Peerly)
+          const { data: sender } = newMessage.sender_id
+            ? await supabase
+                .from('users')
+                .select('id, full_name, profile_photo_url')
+                .eq('id', newMessage.sender_id)
+                .single()
+            : { data: null };
 
           const messageWithSender: NestMessageWithSender = {
             ...newMessage,
@@ -185,11 +238,74 @@ export default function NestChatScreen() {
           }, 100);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'nest_messages',
+          filter: `nest_id=eq.${id}`,
+        },
+        (payload: any) => {
+          // Edits and deletions (tombstones)
+          handleMessageUpdate(payload.new as NestMessage);
+        }
+      )
       .subscribe();
 
     return channel;
   };
 
+  const handleMessageUpdate = (message: NestMessage) => {
+    setMessages(prev =>
+      prev.map(m => (m.id === message.id ? { ...m, ...message, sender: m.sender } : m))
+    );
+  };
+
+  // Edit and delete are offered on the sender's own messages
+  const handleMessageLongPress = (message: NestMessageWithSender) => {
+    if (!currentUserId) return;
+
+    const buttons: AlertButton[] = [];
+    if (canEditMessage(message, currentUserId)) {
+      buttons.push({ text: 'Edit', onPress: () => setEditingMessage(message) });
+    }
+    buttons.push({ text: 'Delete for Everyone', style: 'destructive', onPress: () => confirmDeleteMessage(message) });
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert('Message', undefined, buttons);
+  };
+
+  const confirmDeleteMessage = (message: NestMessageWithSender) => {
+    Alert.alert('Delete message?', 'It will be removed for everyone in this Nest.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await deleteNestMessage(message.id);
+          if (!result.success || !result.data) {
+            Alert.alert('Error', result.error || 'Failed to delete message. Please try again.');
+            return;
+          }
+          handleMessageUpdate(result.data);
+        },
+      },
+    ]);
+  };
+
+  const handleSaveEdit = async (content: string) => {
+    if (!editingMessage) return;
+
+    const result = await editNestMessage(editingMessage.id, content);
+    if (!result.success || !result.data) {
+      Alert.alert('Error', result.error || 'Failed to edit message. Please try again.');
+      return;
+    }
+    handleMessageUpdate(result.data);
+    setEditingMessage(null);
+  };
+
   const handleSendMessage = async (content: string) => {
     if (!id || !content.trim() || sending) return;
 
@@ -220,6 +336,7 @@ export default function NestChatScreen() {
         message={item}
         isCurrentUser={isCurrentUser}
         showSender={true} // Always show sender in group chat
+        onLongPress={isCurrentUser && !item.deleted_at ? () => handleMessageLongPress(item) : undefined}
       />
     );
   };
@@ -273,7 +390,12 @@ export default function NestChatScreen() {
           onPress={() => setMembersModalVisible(true)}
         >
           <Text style={styles.nestName}>{nest.name}</Text>
-          <Text style={styles.memberCount}>{nest.member_count} members</Text>
+          <Text
+            style={[styles.memberCount, typingUserIds.length > 0 && styles.typingText]}
+            numberOfLines={1}
+          >
+            {headerSubtitle}
+          </Text>
         </TouchableOpacity>
         
         <TouchableOpacity onPress={() => setMembersModalVisible(true)}>
@@ -298,6 +420,7 @@ export default function NestChatScreen() {
       {/* Input */}
       <ChatInput
         onSend={handleSendMessage}
+        onTyping={(isTyping) => typingNotifier.current?.notify(isTyping)}
       />
 
       {/* Members Modal */}
@@ -311,6 +434,14 @@ export default function NestChatScreen() {
         onNestDeleted={() => router.back()}
         onMemberLeft={() => router.back()}
       />
+
+      {/* Edit Message Sheet */}
+      <EditMessageSheet
+        visible={!!editingMessage}
+        initialContent={editingMessage?.content || ''}
+        onSave={handleSaveEdit}
+        onClose={() => setEditingMessage(null)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -359,6 +490,9 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     marginTop: 2,
   },
+  typingText: {
+    color: '#34C759',
+  },
   messagesList: {
     flex: 1,
   },
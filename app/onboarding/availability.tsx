@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
+import { legacySlotToDaySchedule } from '@shared/scoring';
+import type { WeeklyAvailability } from '@/services/supabase';
 
 type TimeSlot = 'morning' | 'afternoon' | 'evening' | 'none';
 type DaySchedule = { [key in 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday']: TimeSlot };
@@ -50,11 +52,11 @@ export default function AvailabilityScreen() {
   }
 
   function handleContinue() {
-    // Convert availability to simplified format
-    const availabilityData: any = {};
+    // Store each picked slot as a time range (WeeklyAvailability)
+    const availabilityData: WeeklyAvailability = {};
     Object.entries(availability).forEach(([day, slot]) => {
       if (slot !== 'none') {
-        availabilityData[day] = slot;
+        availabilityData[day as keyof WeeklyAvailability] = legacySlotToDaySchedule(slot);
       }
     });
 
@@ -4,7 +4,7 @@
 // User settings and account management
 // Clean interface without analytics exposure
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -18,7 +18,9 @@ import {
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { supabase } from '@/services/supabase';
-import { deactivateAccount } from '@/services/profile';
+import { deactivateAccount, getUserProfile } from '@/services/profile';
+import { isAdmin } from '@/services/autoMatchRuns';
+import { setShareLastSeen } from '@/services/presence';
 
 export default function SettingsScreen() {
   const router = useRouter();
@@ -26,6 +28,36 @@ export default function SettingsScreen() {
   const [matchNotifications, setMatchNotifications] = useState(true);
   const [messageNotifications, setMessageNotifications] = useState(true);
   const [studyReminders, setStudyReminders] = useState(true);
+  const [showAdmin, setShowAdmin] = useState(false);
+  const [shareLastSeen, setShareLastSeenState] = useState(true);
+
+  useEffect(() => {
+    isAdmin().then(setShowAdmin);
+    loadShareLastSeen();
+  }, []);
+
+  async function loadShareLastSeen() {
+    const { data: userData } = await supabase.auth.getUser();
+    const userId = userData?.user?.id;
+    if (!userId) return;
+    const result = await getUserProfile(userId);
+    if (result.success && result.data) {
+      setShareLastSeenState(result.data.share_last_seen);
+    }
+  }
+
+  async function handleShareLastSeenChange(share: boolean) {
+    const { data: userData } = await supabase.auth.getUser();
+    const userId = userData?.user?.id;
+    if (!userId) return;
+
+    setShareLastSeenState(share);
+    const result = await setShareLastSeen(userId, share);
+    if (!result.success) {
+      setShareLastSeenState(!share);
+      Alert.alert('Error', result.error || 'Failed to update your privacy setting.');
+    }
+  }
 
   async function handleLogout() {
     Alert.alert(
@@ -103,6 +135,18 @@ export default function SettingsScreen() {
     router.push('/settings/edit-profile');
   }
 
+  function handleMatchPreferences() {
+    router.push('/settings/match-preferences');
+  }
+
+  function handleMatchSchedule() {
+    router.push('/settings/match-schedule');
+  }
+
+  function handleAutoMatchRuns() {
+    router.push('/settings/auto-match-runs');
+  }
+
   function handleChangePassword() {
     router.push('/settings/change-password');
   }
@@ -241,6 +285,27 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      {/* Privacy Section */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Privacy</Text>
+
+        <View style={styles.settingItem}>
+          <View style={styles.settingContent}>
+            <Ionicons name="eye-outline" size={24} color="#34C759" />
+            <View style={styles.settingText}>
+              <Text style={styles.settingLabel}>Online Status & Last Seen</Text>
+              <Text style={styles.settingDescription}>Let your matches and Nests see when you're active</Text>
+            </View>
+          </View>
+          <Switch
+            value={shareLastSeen}
+            onValueChange={handleShareLastSeenChange}
+            trackColor={{ false: '#E5E5EA', true: '#8B5FBF' }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+      </View>
+
       {/* Account Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Account</Text>
@@ -256,6 +321,28 @@ export default function SettingsScreen() {
           <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
         </TouchableOpacity>
 
+        <TouchableOpacity style={styles.settingItem} onPress={handleMatchPreferences}>
+          <View style={styles.settingContent}>
+            <Ionicons name="options-outline" size={24} color="#8B5FBF" />
+            <View style={styles.settingText}>
+              <Text style={styles.settingLabel}>Match Preferences</Text>
+              <Text style={styles.settingDescription}>Deal-breakers and who you'd like to meet</Text>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.settingItem} onPress={handleMatchSchedule}>
+          <View style={styles.settingContent}>
+            <Ionicons name="alarm-outline" size={24} color="#8B5FBF" />
+            <View style={styles.settingText}>
+              <Text style={styles.settingLabel}>Daily Match Time</Text>
+              <Text style={styles.settingDescription}>When your match arrives, or pause for a break</Text>
+            </View>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.settingItem} onPress={handleChangePassword}>
           <View style={styles.settingContent}>
             <Ionicons name="lock-closed-outline" size={24} color="#8B5FBF" />
@@ -306,6 +393,24 @@ export default function SettingsScreen() {
         </TouchableOpacity>
       </View>
 
+      {/* Admin Section */}
+      {showAdmin && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Admin</Text>
+
+          <TouchableOpacity style={styles.settingItem} onPress={handleAutoMatchRuns}>
+            <View style={styles.settingContent}>
+              <Ionicons name="analytics-outline" size={24} color="#8B5FBF" />
+              <View style={styles.settingText}>
+                <Text style={styles.settingLabel}>Auto-Match Runs</Text>
+                <Text style={styles.settingDescription}>Run history and why users were matched</Text>
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Legal Section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Legal</Text>
@@ -0,0 +1,612 @@
+// =====================================================
+// AUTO-MATCH RUNS SCREEN (ADMIN)
+// =====================================================
+// Browse the auto-match run history and see why a user was or wasn't
+// matched on a given day.
+// Data flow:
+// - Checks access via isAdmin(); the RPCs refuse non-admins anyway
+// - Loads runs a page at a time via getAutoMatchRuns()
+// - Tapping a pair run loads its users via getAutoMatchRunUsers()
+// - Tapping a user, or looking one up by email, calls explainUserAutoMatch()
+// Navigation: pushed from Settings -> "/settings/auto-match-runs"
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  RUN_HISTORY_PAGE_SIZE,
+  SKIP_REASON_LABELS,
+  explainUserAutoMatch,
+  findUserByEmail,
+  getAutoMatchRunUsers,
+  getAutoMatchRuns,
+  getRunWaitTimes,
+  isAdmin,
+} from '@/services/autoMatchRuns';
+import type {
+  AutoMatchRun,
+  AutoMatchRunUser,
+  RunUserOutcome,
+  UserRunExplanation,
+} from '@/services/autoMatchRuns';
+import type { WaitTimeDistribution } from '@shared/fairness';
+
+const OUTCOME_FILTERS: { label: string; value: RunUserOutcome | null }[] = [
+  { label: 'All', value: null },
+  { label: 'Matched', value: 'matched' },
+  { label: 'Skipped', value: 'skipped' },
+  { label: 'Failed', value: 'failed' },
+];
+
+const OUTCOME_LABELS: Record<UserRunExplanation['outcome'], string> = {
+  matched: 'Matched',
+  skipped: 'Skipped',
+  failed: 'Match failed',
+  not_eligible: 'Not eligible (slot not due, paused or onboarding unfinished)',
+};
+
+const RUN_STATUS_PREFIX: Record<AutoMatchRun['status'], string> = {
+  running: 'Running • ',
+  succeeded: '',
+  failed: 'Failed • ',
+  skipped: 'Skipped, another run in progress • ',
+};
+
+// UTC day of a timestamp as YYYY-MM-DD, the day explain_user_auto_match takes
+function utcDay(timestamp: string | Date): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function formatRunTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function describeOutcome(entry: {
+  outcome: UserRunExplanation['outcome'];
+  partner_name: string | null;
+  score: number | null;
+  skip_reason: AutoMatchRunUser['skip_reason'];
+  best_candidate_score: number | null;
+}): string {
+  if (entry.outcome === 'matched' || entry.outcome === 'failed') {
+    const score = entry.score !== null ? ` (score ${Math.round(entry.score)})` : '';
+    return `${OUTCOME_LABELS[entry.outcome]} with ${entry.partner_name || 'unknown user'}${score}`;
+  }
+  if (entry.outcome === 'skipped' && entry.skip_reason) {
+    const best = entry.best_candidate_score !== null ? ` (best candidate ${Math.round(entry.best_candidate_score)})` : '';
+    return `${SKIP_REASON_LABELS[entry.skip_reason]}${best}`;
+  }
+  return OUTCOME_LABELS[entry.outcome];
+}
+
+// Wait times across a pair run's eligible pool, one bar per bucket
+function WaitTimes({ waitTimes }: { waitTimes: WaitTimeDistribution }) {
+  const largest = Math.max(1, ...waitTimes.buckets.map((bucket) => bucket.count));
+
+  return (
+    <View style={styles.waitTimes}>
+      <Text style={styles.rowTitle}>Days since last match</Text>
+      <Text style={styles.rowDetail}>
+        Median {waitTimes.medianDays} • 90th percentile {waitTimes.p90Days} • longest {waitTimes.maxDays}
+        {waitTimes.unknownCount > 0 ? ` • ${waitTimes.unknownCount} unknown` : ''}
+      </Text>
+      {waitTimes.buckets.map((bucket) => (
+        <View key={bucket.label} style={styles.waitBucket}>
+          <Text style={styles.waitBucketLabel}>{bucket.label}</Text>
+          <View style={styles.waitBarTrack}>
+            <View style={[styles.waitBar, { width: `${(bucket.count / largest) * 100}%` }]} />
+          </View>
+          <Text style={styles.waitBucketCount}>{bucket.count}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+export default function AutoMatchRunsScreen() {
+  const router = useRouter();
+
+  const [checkingAccess, setCheckingAccess] = useState(true);
+  const [allowed, setAllowed] = useState(false);
+
+  const [runs, setRuns] = useState<AutoMatchRun[]>([]);
+  const [hasMoreRuns, setHasMoreRuns] = useState(false);
+  const [loadingRuns, setLoadingRuns] = useState(false);
+
+  const [selectedRun, setSelectedRun] = useState<AutoMatchRun | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<RunUserOutcome | null>(null);
+  const [runUsers, setRunUsers] = useState<AutoMatchRunUser[]>([]);
+  const [loadingRunUsers, setLoadingRunUsers] = useState(false);
+
+  const [email, setEmail] = useState('');
+  const [day, setDay] = useState(utcDay(new Date()));
+  const [explainedUser, setExplainedUser] = useState<{ id: string; name: string | null; day: string } | null>(null);
+  const [explanations, setExplanations] = useState<UserRunExplanation[]>([]);
+  const [explaining, setExplaining] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      const admin = await isAdmin();
+      setAllowed(admin);
+      setCheckingAccess(false);
+      if (admin) await loadRuns(null);
+    }
+    load();
+  }, []);
+
+  async function loadRuns(before: string | null) {
+    setLoadingRuns(true);
+    try {
+      const page = await getAutoMatchRuns(before);
+      setRuns(prev => (before ? [...prev, ...page] : page));
+      setHasMoreRuns(page.length === RUN_HISTORY_PAGE_SIZE);
+    } finally {
+      setLoadingRuns(false);
+    }
+  }
+
+  async function selectRun(run: AutoMatchRun, filter: RunUserOutcome | null = null) {
+    setSelectedRun(run);
+    setOutcomeFilter(filter);
+    setRunUsers([]);
+    if (run.mode !== 'pairs') return;
+
+    setLoadingRunUsers(true);
+    try {
+      setRunUsers(await getAutoMatchRunUsers(run.id, filter ?? undefined));
+    } finally {
+      setLoadingRunUsers(false);
+    }
+  }
+
+  async function explain(userId: string, name: string | null, forDay: string) {
+    setExplaining(true);
+    try {
+      setExplainedUser({ id: userId, name, day: forDay });
+      setExplanations(await explainUserAutoMatch(userId, forDay));
+    } finally {
+      setExplaining(false);
+    }
+  }
+
+  async function handleLookup() {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+      Alert.alert('Invalid date', 'Enter the day as YYYY-MM-DD (UTC).');
+      return;
+    }
+    const user = await findUserByEmail(email);
+    if (!user) {
+      Alert.alert('Not found', 'No user has that email.');
+      return;
+    }
+    await explain(user.id, user.full_name || user.email, day);
+  }
+
+  if (checkingAccess) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#A67B5B" />
+      </View>
+    );
+  }
+
+  const selectedWaitTimes = selectedRun ? getRunWaitTimes(selectedRun) : null;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={24} color="#007AFF" />
+          <Text style={styles.backText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Auto-Match Runs</Text>
+        <View style={{ width: 68 }} />
+      </View>
+
+      {!allowed ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="lock-closed-outline" size={40} color="#8E8E93" />
+          <Text style={styles.emptyText}>Only admins can view auto-match runs.</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.scroll}>
+          {/* Explain a user */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Explain a User</Text>
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="Email"
+              autoCapitalize="none"
+              keyboardType="email-address"
+            />
+            <TextInput
+              style={styles.input}
+              value={day}
+              onChangeText={setDay}
+              placeholder="Day (YYYY-MM-DD, UTC)"
+              autoCapitalize="none"
+            />
+            <TouchableOpacity
+              style={[styles.button, (!email.trim() || explaining) && styles.buttonDisabled]}
+              onPress={handleLookup}
+              disabled={!email.trim() || explaining}
+            >
+              <Text style={styles.buttonText}>Explain</Text>
+            </TouchableOpacity>
+
+            {explainedUser && (
+              <View style={styles.explanation}>
+                <Text style={styles.explanationTitle}>
+                  {explainedUser.name || 'User'} on {explainedUser.day}
+                </Text>
+                {explaining ? (
+                  <ActivityIndicator color="#A67B5B" />
+                ) : explanations.length === 0 ? (
+                  <Text style={styles.rowDetail}>No pair runs that day.</Text>
+                ) : (
+                  explanations.map((entry) => (
+                    <View key={entry.run_id} style={styles.explanationRow}>
+                      <Text style={styles.rowTitle}>
+                        {formatRunTime(entry.started_at)}
+                        {entry.dry_run ? ' • dry run' : ''}
+                        {entry.run_status !== 'succeeded' ? ` • ${entry.run_status}` : ''}
+                      </Text>
+                      <Text style={styles.rowDetail}>
+                        {entry.run_status === 'skipped'
+                          ? 'Run skipped: another run was in progress'
+                          : describeOutcome(entry)}
+                      </Text>
+                    </View>
+                  ))
+                )}
+              </View>
+            )}
+          </View>
+
+          {/* Selected run */}
+          {selectedRun && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>
+                Run {formatRunTime(selectedRun.started_at)}
+              </Text>
+              {selectedRun.error && <Text style={styles.errorText}>{selectedRun.error}</Text>}
+              {selectedRun.errors.map((message, index) => (
+                <Text key={index} style={styles.errorText}>{message}</Text>
+              ))}
+
+              {selectedRun.mode === 'groups' ? (
+                <Text style={styles.helperText}>
+                  Group runs record totals only: {selectedRun.nests_created} Nests created,{' '}
+                  {selectedRun.skipped_count} of {selectedRun.eligible_count} users not grouped.
+                </Text>
+              ) : selectedRun.mode === 'mentorship' ? (
+                <Text style={styles.helperText}>
+                  Mentorship runs record totals only: {selectedRun.matches_created} mentorships created,{' '}
+                  {selectedRun.skipped_count} of {selectedRun.eligible_count} users not paired.
+                </Text>
+              ) : (
+                <>
+                  {selectedWaitTimes && <WaitTimes waitTimes={selectedWaitTimes} />}
+
+                  <View style={styles.chips}>
+                    {OUTCOME_FILTERS.map((filter) => {
+                      const isSelected = filter.value === outcomeFilter;
+                      return (
+                        <TouchableOpacity
+                          key={filter.label}
+                          style={[styles.chip, isSelected && styles.chipSelected]}
+                          onPress={() => selectRun(selectedRun, filter.value)}
+                        >
+                          <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                            {filter.label}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {loadingRunUsers ? (
+                    <ActivityIndicator style={styles.spinner} color="#A67B5B" />
+                  ) : runUsers.length === 0 ? (
+                    <Text style={styles.helperText}>No users.</Text>
+                  ) : (
+                    runUsers.map((entry) => (
+                      <TouchableOpacity
+                        key={entry.user_id}
+                        style={styles.row}
+                        onPress={() => explain(entry.user_id, entry.user_name, utcDay(selectedRun.started_at))}
+                      >
+                        <View style={styles.rowText}>
+                          <Text style={styles.rowTitle}>{entry.user_name || entry.user_id}</Text>
+                          <Text style={styles.rowDetail}>{describeOutcome(entry)}</Text>
+                        </View>
+                        <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+                      </TouchableOpacity>
+                    ))
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Runs */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Runs</Text>
+            {runs.length === 0 && !loadingRuns && (
+              <Text style={styles.helperText}>No runs recorded yet.</Text>
+            )}
+            {runs.map((run) => (
+              <TouchableOpacity
+                key={run.id}
+                style={[styles.row, selectedRun?.id === run.id && styles.rowSelected]}
+                onPress={() => selectRun(run)}
+              >
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>
+                    {formatRunTime(run.started_at)} • {run.mode}
+                    {run.dry_run ? ' • dry run' : ''}
+                  </Text>
+                  <Text style={styles.rowDetail}>
+                    {RUN_STATUS_PREFIX[run.status]}
+                    {run.eligible_count} eligible •{' '}
+                    {run.mode === 'groups' ? `${run.nests_created} Nests` : `${run.matches_created} matches`} •{' '}
+                    {run.skipped_count} skipped • {run.scoring_version}
+                    {run.errors.length > 0 ? ` • ${run.errors.length} errors` : ''}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+              </TouchableOpacity>
+            ))}
+            {loadingRuns && <ActivityIndicator style={styles.spinner} color="#A67B5B" />}
+            {hasMoreRuns && !loadingRuns && (
+              <TouchableOpacity
+                style={styles.loadMore}
+                onPress={() => loadRuns(runs[runs.length - 1]?.started_at ?? null)}
+              >
+                <Text style={styles.loadMoreText}>Load older runs</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFF',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#000',
+  },
+  scroll: {
+    flex: 1,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    padding: 32,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  section: {
+    marginTop: 24,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+    paddingHorizontal: 20,
+    paddingTop: 8,
+  },
+  input: {
+    marginHorizontal: 20,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  button: {
+    margin: 20,
+    marginTop: 12,
+    backgroundColor: '#8B5FBF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  explanation: {
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    gap: 8,
+  },
+  explanationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  explanationRow: {
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  chip: {
+    backgroundColor: '#EFEFEF',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipSelected: {
+    backgroundColor: '#8B5FBF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  rowSelected: {
+    backgroundColor: '#F3EDF9',
+  },
+  rowText: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#000',
+    marginBottom: 2,
+  },
+  rowDetail: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  spinner: {
+    paddingVertical: 16,
+  },
+  waitTimes: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    gap: 6,
+  },
+  waitBucket: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  waitBucketLabel: {
+    width: 84,
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  waitBarTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#EFEFEF',
+    overflow: 'hidden',
+  },
+  waitBar: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#8B5FBF',
+  },
+  waitBucketCount: {
+    width: 36,
+    fontSize: 12,
+    color: '#000',
+    textAlign: 'right',
+  },
+  loadMore: {
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  loadMoreText: {
+    color: '#8B5FBF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
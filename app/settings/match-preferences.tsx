@@ -0,0 +1,603 @@
+// =====================================================
+// MATCH PREFERENCES SCREEN
+// =====================================================
+// Deal-breakers and soft preferences used by matching:
+// - Deal-breakers: allowed years, must share a course, excluded goals
+//   (candidates failing these are never shown or auto-matched)
+// - Soft preferences: preferred study styles and goals (small score boost)
+// - Study groups: opt in to auto-created Nests with classmates
+// - Mentorship: opt in as a mentor (with courses taken) or a mentee
+// Data flow:
+// - Loads profile via getUserProfile() and badges via getUserBadges()
+// - Saves match_preferences, group_matching_opt_in, mentorship_role and
+//   completed_subjects via updateProfile()
+// Navigation: pushed from Settings -> "/settings/match-preferences"
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/services/supabase';
+import { getUserProfile, updateProfile } from '@/services/profile';
+import { getUserBadges } from '@/services/badges';
+import { normalizeMatchPreferences } from '@shared/preferences';
+import type { MatchPreferences } from '@shared/preferences';
+import { MENTOR_BADGE_IDS } from '@shared/mentorship';
+import type { MentorshipRole } from '@shared/mentorship';
+
+const YEARS = ['Freshman', 'Sophomore', 'Junior', 'Senior', 'Graduate'];
+
+const STUDY_STYLES = ['quiet', 'with_music', 'group_discussion', 'teach_each_other'];
+
+const STUDY_GOALS = ['ace_exams', 'understand_concepts', 'just_pass', 'make_friends'];
+
+const MENTORSHIP_ROLES: MentorshipRole[] = ['mentor', 'mentee'];
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export default function MatchPreferencesScreen() {
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [saved, setSaved] = useState<MatchPreferences>({});
+  const [savedGroupOptIn, setSavedGroupOptIn] = useState(false);
+  const [savedMentorshipRole, setSavedMentorshipRole] = useState<MentorshipRole | null>(null);
+  const [savedCompletedSubjects, setSavedCompletedSubjects] = useState<string[]>([]);
+
+  // Deal-breakers
+  const [allowedYears, setAllowedYears] = useState<string[]>([]);
+  const [requireSharedSubject, setRequireSharedSubject] = useState(false);
+  const [excludedGoals, setExcludedGoals] = useState<string[]>([]);
+  // Soft preferences
+  const [preferredStyles, setPreferredStyles] = useState<string[]>([]);
+  const [preferredGoals, setPreferredGoals] = useState<string[]>([]);
+  // Study groups
+  const [groupOptIn, setGroupOptIn] = useState(false);
+  // Mentorship
+  const [mentorshipRole, setMentorshipRole] = useState<MentorshipRole | null>(null);
+  const [completedSubjects, setCompletedSubjects] = useState<string[]>([]);
+  const [newCompletedSubject, setNewCompletedSubject] = useState('');
+  const [canMentor, setCanMentor] = useState(false);
+  const [canBeMentee, setCanBeMentee] = useState(false);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const { data: userData } = await supabase.auth.getUser();
+        const id = userData?.user?.id || null;
+        setUserId(id);
+        if (!id) {
+          Alert.alert('Not signed in', 'Please sign in again.');
+          router.replace('/(auth)/login');
+          return;
+        }
+        const result = await getUserProfile(id);
+        if (!result.success || !result.data) {
+          Alert.alert('Error', result.error || 'Failed to load preferences.');
+          return;
+        }
+        const prefs = normalizeMatchPreferences(result.data.match_preferences);
+        setSaved(prefs);
+        setAllowedYears(prefs.allowedYears || []);
+        setRequireSharedSubject(!!prefs.requireSharedSubject);
+        setExcludedGoals(prefs.excludedGoals || []);
+        setPreferredStyles(prefs.preferredStyles || []);
+        setPreferredGoals(prefs.preferredGoals || []);
+        setSavedGroupOptIn(!!result.data.group_matching_opt_in);
+        setGroupOptIn(!!result.data.group_matching_opt_in);
+        setSavedMentorshipRole(result.data.mentorship_role ?? null);
+        setMentorshipRole(result.data.mentorship_role ?? null);
+        setSavedCompletedSubjects(result.data.completed_subjects || []);
+        setCompletedSubjects(result.data.completed_subjects || []);
+
+        // Seniors and tutor/mentor badge holders can mentor; Freshmen can be mentored
+        const year = result.data.year?.toLowerCase();
+        const badges = await getUserBadges(id);
+        setCanMentor(
+          year === 'senior' || (badges.badges || []).some((b) => MENTOR_BADGE_IDS.includes(b.id))
+        );
+        setCanBeMentee(year === 'freshman');
+      } catch (e) {
+        Alert.alert('Error', 'Unable to load your match preferences.');
+      } finally {
+        setLoading(false);
+      }
+    }
+    load();
+  }, [router]);
+
+  const preferences = useMemo(
+    () =>
+      normalizeMatchPreferences({
+        allowedYears,
+        requireSharedSubject,
+        excludedGoals,
+        preferredStyles,
+        preferredGoals,
+      }),
+    [allowedYears, requireSharedSubject, excludedGoals, preferredStyles, preferredGoals]
+  );
+
+  const hasUnsavedChanges =
+    JSON.stringify(preferences) !== JSON.stringify(saved) ||
+    groupOptIn !== savedGroupOptIn ||
+    mentorshipRole !== savedMentorshipRole ||
+    JSON.stringify(completedSubjects) !== JSON.stringify(savedCompletedSubjects);
+
+  function addCompletedSubject() {
+    const subject = newCompletedSubject.trim();
+    if (subject && !completedSubjects.includes(subject)) {
+      setCompletedSubjects((prev) => [...prev, subject]);
+    }
+    setNewCompletedSubject('');
+  }
+
+  async function handleSave() {
+    if (!userId) return;
+    setSaving(true);
+    try {
+      const result = await updateProfile(userId, {
+        match_preferences: preferences,
+        group_matching_opt_in: groupOptIn,
+        mentorship_role: mentorshipRole,
+        completed_subjects: completedSubjects,
+      });
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update preferences.');
+        return;
+      }
+      setSaved(preferences);
+      setSavedGroupOptIn(groupOptIn);
+      setSavedMentorshipRole(mentorshipRole);
+      setSavedCompletedSubjects(completedSubjects);
+      Alert.alert('Saved', 'Your match preferences have been updated.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (e) {
+      Alert.alert('Error', 'Failed to save your match preferences.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#A67B5B" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={24} color="#007AFF" />
+          <Text style={styles.backText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Match Preferences</Text>
+        <View style={{ width: 68 }} />
+      </View>
+
+      <ScrollView style={styles.scroll}>
+        {/* Deal-breakers */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Deal-breakers</Text>
+          <Text style={styles.helperText}>
+            People who don't meet these are never shown to you or auto-matched with you.
+          </Text>
+
+          <Text style={styles.label}>Only match me with</Text>
+          <ChipGroup
+            options={YEARS}
+            selected={allowedYears}
+            onToggle={(v) => setAllowedYears((prev) => toggle(prev, v))}
+          />
+          <Text style={styles.hint}>Leave empty to match with any year.</Text>
+
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Ionicons name="book-outline" size={22} color="#007AFF" />
+              <View style={styles.settingText}>
+                <Text style={styles.settingLabel}>Must share a course</Text>
+                <Text style={styles.settingDescription}>
+                  At least one subject in common
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={requireSharedSubject}
+              onValueChange={setRequireSharedSubject}
+              trackColor={{ false: '#E5E5EA', true: '#8B5FBF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          <Text style={styles.label}>Never match me with goal</Text>
+          <ChipGroup
+            options={STUDY_GOALS}
+            selected={excludedGoals}
+            onToggle={(v) => setExcludedGoals((prev) => toggle(prev, v))}
+            destructive
+          />
+        </View>
+
+        {/* Soft preferences */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Nice to have</Text>
+          <Text style={styles.helperText}>
+            These give a small boost to people who match them.
+          </Text>
+
+          <Text style={styles.label}>Preferred study styles</Text>
+          <ChipGroup
+            options={STUDY_STYLES}
+            selected={preferredStyles}
+            onToggle={(v) => setPreferredStyles((prev) => toggle(prev, v))}
+          />
+
+          <Text style={styles.label}>Preferred study goals</Text>
+          <ChipGroup
+            options={STUDY_GOALS}
+            selected={preferredGoals}
+            onToggle={(v) => setPreferredGoals((prev) => toggle(prev, v))}
+          />
+        </View>
+
+        {/* Study groups */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Study Groups</Text>
+          <Text style={styles.helperText}>
+            Get added to small Nests with 2-5 classmates who take one of your courses.
+          </Text>
+
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Ionicons name="people-outline" size={22} color="#007AFF" />
+              <View style={styles.settingText}>
+                <Text style={styles.settingLabel}>Match me into study groups</Text>
+                <Text style={styles.settingDescription}>
+                  At most one new group every two weeks
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={groupOptIn}
+              onValueChange={setGroupOptIn}
+              trackColor={{ false: '#E5E5EA', true: '#8B5FBF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
+        {/* Mentorship */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Mentorship</Text>
+          <Text style={styles.helperText}>
+            Seniors and Tutor or Mentor badge holders are matched with Freshmen taking a course
+            they've already taken. At most one new mentorship match a week.
+          </Text>
+
+          <Text style={styles.label}>Match me as a</Text>
+          <ChipGroup
+            options={MENTORSHIP_ROLES}
+            selected={mentorshipRole ? [mentorshipRole] : []}
+            onToggle={(v) =>
+              setMentorshipRole((prev) => (prev === v ? null : (v as MentorshipRole)))
+            }
+          />
+          {mentorshipRole === 'mentor' && !canMentor && (
+            <Text style={styles.hint}>
+              You'll be matched as a mentor once you're a Senior or have a Tutor or Mentor badge.
+            </Text>
+          )}
+          {mentorshipRole === 'mentee' && !canBeMentee && (
+            <Text style={styles.hint}>Only Freshmen are matched with mentors.</Text>
+          )}
+          {!mentorshipRole && <Text style={styles.hint}>Leave empty to skip mentorship.</Text>}
+
+          {mentorshipRole === 'mentor' && (
+            <>
+              <Text style={styles.label}>Courses I've taken</Text>
+              <View style={styles.subjectRow}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Add a course"
+                  value={newCompletedSubject}
+                  onChangeText={setNewCompletedSubject}
+                  onSubmitEditing={addCompletedSubject}
+                  returnKeyType="done"
+                />
+                <TouchableOpacity style={styles.addBtn} onPress={addCompletedSubject}>
+                  <Text style={styles.addBtnText}>Add</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.chips}>
+                {completedSubjects.map((subject) => (
+                  <View key={subject} style={styles.chip}>
+                    <Text style={styles.chipText}>{subject}</Text>
+                    <TouchableOpacity
+                      onPress={() =>
+                        setCompletedSubjects((prev) => prev.filter((s) => s !== subject))
+                      }
+                    >
+                      <Ionicons name="close-circle" size={18} color="#C7C7CC" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {completedSubjects.length === 0 && (
+                  <Text style={styles.hint}>Add the courses you can help with.</Text>
+                )}
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Bottom spacing to allow for footer button */}
+        <View style={{ height: 120 }} />
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.saveButton,
+            (!hasUnsavedChanges || saving) && styles.saveButtonDisabled,
+          ]}
+          onPress={handleSave}
+          disabled={!hasUnsavedChanges || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Preferences</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+function ChipGroup({
+  options,
+  selected,
+  onToggle,
+  destructive = false,
+}: {
+  options: string[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  destructive?: boolean;
+}) {
+  return (
+    <View style={styles.chips}>
+      {options.map((opt) => {
+        const isSelected = selected.includes(opt);
+        return (
+          <TouchableOpacity
+            key={opt}
+            style={[
+              styles.chip,
+              isSelected && (destructive ? styles.chipExcluded : styles.chipSelected),
+            ]}
+            onPress={() => onToggle(opt)}
+          >
+            {isSelected && (
+              <Ionicons
+                name={destructive ? 'close' : 'checkmark'}
+                size={14}
+                color="#FFFFFF"
+              />
+            )}
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+              {opt}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFF',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#000',
+  },
+  scroll: {
+    flex: 1,
+  },
+  section: {
+    marginTop: 24,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  settingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  settingContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    gap: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#000',
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  subjectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#F7F7F7',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#000',
+  },
+  addBtn: {
+    backgroundColor: '#A67B5B',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 10,
+  },
+  addBtnText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#EFEFEF',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipSelected: {
+    backgroundColor: '#8B5FBF',
+  },
+  chipExcluded: {
+    backgroundColor: '#FF3B30',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  saveButton: {
+    backgroundColor: '#A67B5B',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#D1C6BE',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,493 @@
+// =====================================================
+// DAILY MATCH TIME SCREEN
+// =====================================================
+// Lets the user choose the local hour their daily auto-match arrives,
+// or pause matching until a date (finals, breaks).
+// The server turns timezone + match_hour + pause into
+// users.next_auto_match_at, which both the scheduler and the daily
+// matches countdown read.
+// Data flow:
+// - Loads profile via getUserProfile()
+// - Saves timezone, match_hour and matching_paused_until via updateProfile()
+// Navigation: pushed from Settings -> "/settings/match-schedule"
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { supabase } from '@/services/supabase';
+import { MAX_PAUSE_DAYS, getUserProfile, updateProfile } from '@/services/profile';
+import type { ProfileUpdate } from '@/services/profile';
+import { formatMatchHour, getDeviceTimezone } from '@/utils/timezone';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const PAUSE_PRESETS = [
+  { label: '1 week', days: 7 },
+  { label: '2 weeks', days: 14 },
+  { label: '1 month', days: 30 },
+];
+
+// Start of the local day `days` from today; matching resumes then
+function startOfDayFromToday(days: number): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+function daysFromToday(date: Date): number {
+  return Math.round((date.getTime() - startOfDayFromToday(0).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export default function MatchScheduleScreen() {
+  const router = useRouter();
+  const deviceTimezone = getDeviceTimezone();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  const [savedHour, setSavedHour] = useState(8);
+  const [savedTimezone, setSavedTimezone] = useState<string | null>(null);
+  const [savedPausedUntil, setSavedPausedUntil] = useState<string | null>(null);
+  const [nextMatchAt, setNextMatchAt] = useState<string | null>(null);
+
+  const [matchHour, setMatchHour] = useState(8);
+  const [timezone, setTimezone] = useState<string | null>(null);
+  const [pausedUntil, setPausedUntil] = useState<Date | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      try {
+        const { data: userData } = await supabase.auth.getUser();
+        const id = userData?.user?.id || null;
+        setUserId(id);
+        if (!id) {
+          Alert.alert('Not signed in', 'Please sign in again.');
+          router.replace('/(auth)/login');
+          return;
+        }
+        const result = await getUserProfile(id);
+        if (!result.success || !result.data) {
+          Alert.alert('Error', result.error || 'Failed to load your match time.');
+          return;
+        }
+        setSavedHour(result.data.match_hour);
+        setMatchHour(result.data.match_hour);
+        setSavedTimezone(result.data.timezone);
+        setTimezone(result.data.timezone || deviceTimezone);
+        setNextMatchAt(result.data.next_auto_match_at);
+        setSavedPausedUntil(result.data.matching_paused_until);
+        setPausedUntil(result.data.matching_paused_until ? new Date(result.data.matching_paused_until) : null);
+      } catch (e) {
+        Alert.alert('Error', 'Unable to load your match time.');
+      } finally {
+        setLoading(false);
+      }
+    }
+    load();
+  }, [router, deviceTimezone]);
+
+  const pausedUntilValue = pausedUntil ? pausedUntil.toISOString() : null;
+  const pauseChanged = savedPausedUntil
+    ? !pausedUntil || new Date(savedPausedUntil).getTime() !== pausedUntil.getTime()
+    : !!pausedUntil;
+  const hasUnsavedChanges = matchHour !== savedHour || timezone !== savedTimezone || pauseChanged;
+
+  function shiftPause(days: number) {
+    if (!pausedUntil) return;
+    const next = Math.min(Math.max(daysFromToday(pausedUntil) + days, 1), MAX_PAUSE_DAYS);
+    setPausedUntil(startOfDayFromToday(next));
+  }
+
+  async function handleSave() {
+    if (!userId) return;
+    setSaving(true);
+    try {
+      const updates: ProfileUpdate = { match_hour: matchHour };
+      if (timezone) updates.timezone = timezone;
+      if (pauseChanged) updates.matching_paused_until = pausedUntilValue;
+      const result = await updateProfile(userId, updates);
+      if (!result.success || !result.data) {
+        Alert.alert('Error', result.error || 'Failed to update your match time.');
+        return;
+      }
+      setSavedHour(result.data.match_hour);
+      setSavedTimezone(result.data.timezone);
+      setNextMatchAt(result.data.next_auto_match_at);
+      setSavedPausedUntil(result.data.matching_paused_until);
+      Alert.alert('Saved', 'Your daily match settings have been updated.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (e) {
+      Alert.alert('Error', 'Failed to save your match time.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#A67B5B" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+          <Ionicons name="chevron-back" size={24} color="#007AFF" />
+          <Text style={styles.backText}>Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Daily Match Time</Text>
+        <View style={{ width: 68 }} />
+      </View>
+
+      <ScrollView style={styles.scroll}>
+        {/* Next match */}
+        {nextMatchAt && (
+          <View style={styles.nextMatch}>
+            <Ionicons name="time-outline" size={20} color="#8B5FBF" />
+            <Text style={styles.nextMatchText}>
+              Next match: {new Date(nextMatchAt).toLocaleString([], {
+                weekday: 'short',
+                hour: 'numeric',
+                minute: '2-digit',
+              })}
+            </Text>
+          </View>
+        )}
+
+        {/* Hour */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Match Time</Text>
+          <Text style={styles.helperText}>
+            Your new study partner arrives at this time every day.
+          </Text>
+          <View style={styles.chips}>
+            {HOURS.map((hour) => {
+              const isSelected = hour === matchHour;
+              return (
+                <TouchableOpacity
+                  key={hour}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => setMatchHour(hour)}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {formatMatchHour(hour)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Timezone */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Timezone</Text>
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Ionicons name="globe-outline" size={22} color="#007AFF" />
+              <View style={styles.settingText}>
+                <Text style={styles.settingLabel}>{timezone || 'UTC'}</Text>
+                <Text style={styles.settingDescription}>
+                  {timezone === deviceTimezone ? "Your device's timezone" : 'Saved timezone'}
+                </Text>
+              </View>
+            </View>
+            {deviceTimezone && timezone !== deviceTimezone && (
+              <TouchableOpacity onPress={() => setTimezone(deviceTimezone)}>
+                <Text style={styles.linkText}>Use {deviceTimezone}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* Pause */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pause Matching</Text>
+          <View style={styles.settingItem}>
+            <View style={styles.settingContent}>
+              <Ionicons name="airplane-outline" size={22} color="#007AFF" />
+              <View style={styles.settingText}>
+                <Text style={styles.settingLabel}>Pause for finals or a break</Text>
+                <Text style={styles.settingDescription}>
+                  No new matches, and you're hidden from others' decks
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={!!pausedUntil}
+              onValueChange={(value) => setPausedUntil(value ? startOfDayFromToday(7) : null)}
+              trackColor={{ false: '#E5E5EA', true: '#8B5FBF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+
+          {pausedUntil && (
+            <>
+              <View style={styles.dateRow}>
+                <TouchableOpacity onPress={() => shiftPause(-1)} style={styles.dateStep}>
+                  <Ionicons name="remove" size={20} color="#8B5FBF" />
+                </TouchableOpacity>
+                <View style={styles.dateValue}>
+                  <Text style={styles.dateLabel}>Resume on</Text>
+                  <Text style={styles.dateText}>
+                    {pausedUntil.toLocaleDateString([], {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                    })}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => shiftPause(1)} style={styles.dateStep}>
+                  <Ionicons name="add" size={20} color="#8B5FBF" />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.chips}>
+                {PAUSE_PRESETS.map((preset) => (
+                  <TouchableOpacity
+                    key={preset.days}
+                    style={styles.chip}
+                    onPress={() => setPausedUntil(startOfDayFromToday(preset.days))}
+                  >
+                    <Text style={styles.chipText}>{preset.label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.hint}>
+                We'll send you a welcome back notification when matching resumes.
+              </Text>
+            </>
+          )}
+        </View>
+
+        {/* Bottom spacing to allow for footer button */}
+        <View style={{ height: 120 }} />
+      </ScrollView>
+
+      {/* Footer */}
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.saveButton,
+            (!hasUnsavedChanges || saving) && styles.saveButtonDisabled,
+          ]}
+          onPress={handleSave}
+          disabled={!hasUnsavedChanges || saving}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFF',
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  backText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#000',
+  },
+  scroll: {
+    flex: 1,
+  },
+  nextMatch: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: '#F3EDF9',
+  },
+  nextMatchText: {
+    fontSize: 15,
+    color: '#000',
+  },
+  section: {
+    marginTop: 24,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  chip: {
+    backgroundColor: '#EFEFEF',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  chipSelected: {
+    backgroundColor: '#8B5FBF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  settingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  settingContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    gap: 12,
+  },
+  settingText: {
+    flex: 1,
+  },
+  settingLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#000',
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  dateStep: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F3EDF9',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dateValue: {
+    alignItems: 'center',
+  },
+  dateLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  dateText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#000',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  saveButton: {
+    backgroundColor: '#A67B5B',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#D1C6BE',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+});
@@ -15,6 +15,7 @@ module.exports = function (api) {
             '@types': './src/types',
             '@constants': './src/constants',
             '@hooks': './src/hooks',
+            '@shared': './supabase/functions/_shared',
           },
           extensions: ['.ts', '.tsx', '.js', '.json'],
         },
@@ -3,6 +3,7 @@
 // =====================================================
 // Text input with send button for sending messages
 // Includes character limit and empty state handling
+// Reports typing through onTyping (the caller throttles broadcasts)
 
 import React, { useState } from 'react';
 import {
@@ -23,6 +24,7 @@ interface ChatInputProps {
   onSendImage?: (imageUri: string) => Promise<void>;
   placeholder?: string;
   disabled?: boolean;
+  onTyping?: (isTyping: boolean) => void; // True on each edit, false once cleared or sent
 }
 
 export function ChatInput({
@@ -30,6 +32,7 @@ export function ChatInput({
   onSendImage,
   placeholder = 'Type a message...',
   disabled = false,
+  onTyping,
 }: ChatInputProps) {
   const [text, setText] = useState('');
   const [sending, setSending] = useState(false);
@@ -38,11 +41,17 @@ export function ChatInput({
   const canSend = text.trim().length > 0 && !sending && !disabled;
   const canSendImage = !sendingImage && !disabled && !!onSendImage;
 
+  function handleChangeText(value: string) {
+    setText(value);
+    onTyping?.(value.trim().length > 0);
+  }
+
   async function handleSend() {
     if (!canSend) return;
 
     const messageContent = text.trim();
     setText(''); // Clear input immediately for better UX
+    onTyping?.(false);
     setSending(true);
 
     try {
@@ -119,7 +128,7 @@ export function ChatInput({
         <TextInput
           style={styles.input}
           value={text}
-          onChangeText={setText}
+          onChangeText={handleChangeText}
           placeholder={placeholder}
           placeholderTextColor="#8E8E93"
           multiline
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+
+interface EditMessageSheetProps {
+  visible: boolean;
+  initialContent: string;
+  onSave: (content: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export function EditMessageSheet({ visible, initialContent, onSave, onClose }: EditMessageSheetProps) {
+  const [content, setContent] = useState(initialContent);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the message's current text each time the sheet opens
+  useEffect(() => {
+    if (visible) setContent(initialContent);
+  }, [visible, initialContent]);
+
+  const canSave = content.trim().length > 0 && content.trim() !== initialContent.trim() && !saving;
+
+  async function handleSave() {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      await onSave(content.trim());
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Edit message</Text>
+          <Text style={styles.subtitle}>Everyone in the chat will see that it was edited.</Text>
+
+          <TextInput
+            style={styles.input}
+            value={content}
+            onChangeText={setContent}
+            multiline
+            maxLength={1000}
+            autoFocus
+            editable={!saving}
+          />
+
+          <TouchableOpacity
+            style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!canSave}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={saving}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 6,
+  },
+  input: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+    minHeight: 44,
+    maxHeight: 160,
+    marginTop: 16,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+});
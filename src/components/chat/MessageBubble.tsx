@@ -4,6 +4,7 @@
 // Displays a single chat message bubble
 // Shows text content and timestamp
 // Phase 9 will add image support, Phase 10 will add file support
+// Edited messages are marked; deleted ones render as a tombstone
 
 import React, { useState } from 'react';
 import { View, Text, Image, StyleSheet, TouchableOpacity, Modal } from 'react-native';
@@ -14,11 +15,17 @@ interface MessageBubbleProps {
   message: MessageWithSender | NestMessageWithSender;
   isCurrentUser: boolean;
   showSender?: boolean; // For group messages
+  onLongPress?: () => void; // Message actions (edit/delete) for the sender
 }
 
-export function MessageBubble({ message, isCurrentUser, showSender = false }: MessageBubbleProps) {
+export function MessageBubble({ message, isCurrentUser, showSender = false, onLongPress }: MessageBubbleProps) {
   const [showFullImage, setShowFullImage] = useState(false);
-  const senderName = 'sender' in message ? message.sender?.full_name : null;
+  const isDeleted = !!message.deleted_at;
+  const isEdited = !isDeleted && !!message.edited_at;
+  // Nest messages without a sender (e.g. an auto Nest's welcome) come from Peerly
+  const senderName = 'sender' in message
+    ? message.sender?.full_name ?? (message.sender_id === null ? 'Peerly' : null)
+    : null;
   const senderAvatar = 'sender' in message ? message.sender?.profile_photo_url : null;
 
   return (
@@ -43,15 +50,24 @@ export function MessageBubble({ message, isCurrentUser, showSender = false }: Me
           <Text style={styles.senderName}>{senderName}</Text>
         )}
 
-        <View
+        <TouchableOpacity
           style={[
             styles.bubble,
             isCurrentUser ? styles.currentUserBubble : styles.otherUserBubble,
             showSender && !isCurrentUser && styles.groupMessageBubble,
+            isDeleted && styles.deletedBubble,
           ]}
+          activeOpacity={0.8}
+          onLongPress={onLongPress}
+          disabled={!onLongPress || isDeleted}
         >
+          {/* Tombstone for messages deleted for everyone */}
+          {isDeleted && (
+            <Text style={[styles.text, styles.deletedText]}>Message deleted</Text>
+          )}
+
           {/* Message Content */}
-          {message.content && (
+          {!isDeleted && !!message.content && (
             <Text
               style={[
                 styles.text,
@@ -63,7 +79,7 @@ export function MessageBubble({ message, isCurrentUser, showSender = false }: Me
           )}
 
           {/* Image Content - Only for regular messages, not nest messages */}
-          {'message_type' in message && 'media_url' in message && message.message_type === 'image' && message.media_url && (
+          {!isDeleted && 'message_type' in message && 'media_url' in message && message.message_type === 'image' && message.media_url && (
             <TouchableOpacity onPress={() => setShowFullImage(true)}>
               <Image
                 source={{ uri: message.media_url }}
@@ -75,17 +91,27 @@ export function MessageBubble({ message, isCurrentUser, showSender = false }: Me
 
           {/* Timestamp and Status */}
           <View style={styles.footer}>
+            {isEdited && (
+              <Text
+                style={[
+                  styles.timestamp,
+                  isCurrentUser && !isDeleted ? styles.currentUserTimestamp : styles.otherUserTimestamp,
+                ]}
+              >
+                edited
+              </Text>
+            )}
             <Text
               style={[
                 styles.timestamp,
-                isCurrentUser ? styles.currentUserTimestamp : styles.otherUserTimestamp,
+                isCurrentUser && !isDeleted ? styles.currentUserTimestamp : styles.otherUserTimestamp,
               ]}
             >
               {formatMessageTime(message.created_at)}
             </Text>
 
             {/* Status indicator (only for current user) */}
-            {isCurrentUser && 'status' in message && (
+            {isCurrentUser && !isDeleted && 'status' in message && (
               <Text style={styles.statusIndicator}>
                 {message.status === 'sending' && '⏳'}
                 {message.status === 'sent' && '✓'}
@@ -94,7 +120,7 @@ export function MessageBubble({ message, isCurrentUser, showSender = false }: Me
               </Text>
             )}
           </View>
-        </View>
+        </TouchableOpacity>
       </View>
 
       {/* Full-screen image modal */}
@@ -172,6 +198,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 20,
   },
+  deletedBubble: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  deletedText: {
+    fontStyle: 'italic',
+    color: '#8E8E93',
+  },
   currentUserText: {
     color: '#FFFFFF',
   },
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { UNMATCH_REASONS } from '@/services/unmatch';
+import type { UnmatchReason } from '@/services/unmatch';
+
+interface UnmatchSheetProps {
+  visible: boolean;
+  partnerName: string;
+  onConfirm: (reason: UnmatchReason | null) => Promise<void>;
+  onClose: () => void;
+}
+
+export function UnmatchSheet({ visible, partnerName, onConfirm, onClose }: UnmatchSheetProps) {
+  const [reason, setReason] = useState<UnmatchReason | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) setReason(null);
+  }, [visible]);
+
+  async function handleConfirm() {
+    setSubmitting(true);
+    try {
+      await onConfirm(reason);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Unmatch with {partnerName}?</Text>
+          <Text style={styles.subtitle}>
+            The chat will disappear for both of you and you won't be matched again.
+          </Text>
+
+          <Text style={styles.label}>Why are you unmatching? (optional)</Text>
+          <View style={styles.reasons}>
+            {UNMATCH_REASONS.map((option) => {
+              const selected = reason === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[styles.reason, selected && styles.reasonSelected]}
+                  onPress={() => setReason(selected ? null : option.value)}
+                  disabled={submitting}
+                >
+                  <Text style={[styles.reasonText, selected && styles.reasonTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity style={styles.unmatchButton} onPress={handleConfirm} disabled={submitting}>
+            {submitting ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.unmatchButtonText}>Unmatch</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={submitting}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 6,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  reason: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#C7C7CC',
+  },
+  reasonSelected: {
+    backgroundColor: '#FF3B30',
+    borderColor: '#FF3B30',
+  },
+  reasonText: {
+    fontSize: 14,
+    color: '#000',
+  },
+  reasonTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  unmatchButton: {
+    backgroundColor: '#FF3B30',
+    borderRadius: 10,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  unmatchButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { MatchFeedbackInput, PendingFeedback } from '@/services/feedback';
+
+interface MatchFeedbackPromptProps {
+  pending: PendingFeedback;
+  onSubmit: (input: MatchFeedbackInput) => Promise<void>;
+  onDismiss: () => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+export function MatchFeedbackPrompt({ pending, onSubmit, onDismiss }: MatchFeedbackPromptProps) {
+  const [studiedTogether, setStudiedTogether] = useState<boolean | null>(null);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const partnerName = pending.partner.full_name || 'your study partner';
+  const canSubmit = studiedTogether !== null && rating > 0 && !submitting;
+
+  async function handleSubmit() {
+    if (studiedTogether === null || rating === 0) return;
+    setSubmitting(true);
+    try {
+      await onSubmit({ studiedTogether, rating, comment: comment.trim() || undefined });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        {pending.partner.profile_photo_url ? (
+          <Image source={{ uri: pending.partner.profile_photo_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, styles.avatarPlaceholder]}>
+            <Text style={styles.avatarText}>{partnerName.charAt(0).toUpperCase()}</Text>
+          </View>
+        )}
+        <Text style={styles.title}>How did it go with {partnerName}?</Text>
+        <TouchableOpacity onPress={onDismiss} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Ionicons name="close" size={20} color="#8E8E93" />
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.label}>Did you study together?</Text>
+      <View style={styles.choices}>
+        {[true, false].map((value) => (
+          <TouchableOpacity
+            key={String(value)}
+            style={[styles.choice, studiedTogether === value && styles.choiceSelected]}
+            onPress={() => setStudiedTogether(value)}
+          >
+            <Text style={[styles.choiceText, studiedTogether === value && styles.choiceTextSelected]}>
+              {value ? 'Yes' : 'Not yet'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>How was it?</Text>
+      <View style={styles.stars}>
+        {RATINGS.map((value) => (
+          <TouchableOpacity key={value} onPress={() => setRating(value)}>
+            <Ionicons
+              name={value <= rating ? 'star' : 'star-outline'}
+              size={28}
+              color={value <= rating ? '#FFB800' : '#C7C7CC'}
+            />
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TextInput
+        style={styles.comment}
+        value={comment}
+        onChangeText={setComment}
+        placeholder="Anything else? (optional, only we see this)"
+        placeholderTextColor="#8E8E93"
+        maxLength={500}
+        multiline
+      />
+
+      <TouchableOpacity
+        style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+        onPress={handleSubmit}
+        disabled={!canSubmit}
+      >
+        {submitting ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.submitButtonText}>Send Feedback</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5D9F2',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#8B5FBF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  label: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choice: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#EFEFEF',
+    alignItems: 'center',
+  },
+  choiceSelected: {
+    backgroundColor: '#8B5FBF',
+  },
+  choiceText: {
+    fontSize: 15,
+    color: '#000',
+  },
+  choiceTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  stars: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  comment: {
+    marginTop: 16,
+    minHeight: 60,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    padding: 10,
+    fontSize: 15,
+    color: '#000',
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    marginTop: 16,
+    backgroundColor: '#8B5FBF',
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#D1C4E3',
+  },
+  submitButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
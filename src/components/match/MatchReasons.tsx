@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { MatchReason } from '@/services/matching';
+
+interface MatchReasonsProps {
+  reasons: MatchReason[];
+  compact?: boolean; // Single line, for headers
+}
+
+const FACTOR_ICONS: Record<MatchReason['factor'], keyof typeof Ionicons.glyphMap> = {
+  subjectOverlap: 'book-outline',
+  availabilityOverlap: 'calendar-outline',
+  studyStyleMatch: 'headset-outline',
+  studyGoalsMatch: 'trophy-outline',
+  yearProximity: 'school-outline',
+  universityMatch: 'location-outline',
+  interestMatch: 'sparkles-outline',
+};
+
+export function MatchReasons({ reasons, compact = false }: MatchReasonsProps) {
+  if (reasons.length === 0) return null;
+
+  if (compact) {
+    return (
+      <Text style={styles.compactText} numberOfLines={1}>
+        {reasons[0].text}
+      </Text>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {reasons.map((reason) => (
+        <View key={reason.factor} style={styles.reason}>
+          <Ionicons name={FACTOR_ICONS[reason.factor]} size={14} color="#8B5FBF" />
+          <Text style={styles.reasonText} numberOfLines={2}>
+            {reason.text}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  reason: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  reasonText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#3C3C43',
+    marginLeft: 6,
+  },
+  compactText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+});
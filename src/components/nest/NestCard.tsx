@@ -55,6 +55,9 @@ export function NestCard({ nest, onPress, lastMessage }: NestCardProps) {
           {nest.class_name && (
             <Text style={styles.className}>• {nest.class_name}</Text>
           )}
+          {nest.is_auto_created && (
+            <Text style={styles.className}>• Matched for you</Text>
+          )}
         </View>
         
         {lastMessage && (
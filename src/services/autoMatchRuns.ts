@@ -0,0 +1,192 @@
+// =====================================================
+// AUTO-MATCH RUN HISTORY (ADMIN)
+// =====================================================
+// Every auto-match run is recorded by the function in auto_match_runs,
+// with each eligible user's outcome in auto_match_run_users (migration
+// 20241210000014). These tables have no client policies; admins read
+// them through RPCs that check admin_users.
+
+import { supabase } from './supabase';
+import type { CohortStats } from '@shared/pairing';
+import type { SkipReason } from '@shared/simulation';
+import type { WaitTimeDistribution } from '@shared/fairness';
+
+export type RunUserOutcome = 'matched' | 'skipped' | 'failed';
+
+export interface AutoMatchRun {
+  id: string;
+  mode: 'pairs' | 'groups' | 'mentorship';
+  dry_run: boolean;
+  status: 'running' | 'succeeded' | 'failed' | 'skipped'; // skipped: another run held the lease
+  started_at: string;
+  finished_at: string | null;
+  scoring_version: string;
+  experiment_id: string | null;
+  pairing_mode: string | null;
+  eligible_count: number;
+  matches_created: number;
+  nests_created: number;
+  skipped_count: number;
+  stats: CohortStats | Record<string, unknown> | null;
+  errors: string[];
+  error: string | null;
+}
+
+export interface AutoMatchRunUser {
+  user_id: string;
+  user_name: string | null;
+  outcome: RunUserOutcome;
+  partner_id: string | null;
+  partner_name: string | null;
+  match_id: string | null;
+  score: number | null;
+  skip_reason: SkipReason | null;
+  best_candidate_score: number | null;
+}
+
+// One user's outcome in a pair run on a given day
+export interface UserRunExplanation {
+  run_id: string;
+  started_at: string;
+  dry_run: boolean;
+  run_status: AutoMatchRun['status'];
+  scoring_version: string;
+  outcome: RunUserOutcome | 'not_eligible'; // Not in the run's eligible cohort
+  partner_id: string | null;
+  partner_name: string | null;
+  match_id: string | null;
+  score: number | null;
+  skip_reason: SkipReason | null;
+  best_candidate_score: number | null;
+}
+
+export interface AdminUserLookup {
+  id: string;
+  full_name: string | null;
+  email: string;
+  university: string | null;
+}
+
+// How many runs one page of history loads
+export const RUN_HISTORY_PAGE_SIZE = 30;
+
+// Admin-facing wording for each skip reason (see @shared/simulation)
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  no_university: 'No university on their profile',
+  no_campus_peers: 'Nobody else eligible at their university',
+  already_matched: 'Already matched with every eligible peer',
+  ruled_out_by_preferences: "Every remaining peer fails someone's deal-breakers",
+  below_threshold: 'No remaining peer scored the minimum',
+  partners_taken: 'Had candidates, but they were paired with others',
+};
+
+/**
+ * Days-since-last-match distribution of a pair run's eligible pool
+ * Null for other modes and for runs recorded before it was reported
+ */
+export function getRunWaitTimes(run: AutoMatchRun): WaitTimeDistribution | null {
+  if (run.mode !== 'pairs' || !run.stats) return null;
+  return (run.stats as CohortStats).waitTimes ?? null;
+}
+
+/**
+ * Whether the signed-in user is an admin
+ */
+export async function isAdmin(): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc('is_admin');
+    if (error) {
+      console.error('Error checking admin access:', error);
+      return false;
+    }
+    return data === true;
+  } catch (error) {
+    console.error('isAdmin error:', error);
+    return false;
+  }
+}
+
+/**
+ * Latest auto-match runs first
+ * Pass the started_at of the oldest run already loaded to page back
+ */
+export async function getAutoMatchRuns(before?: string | null): Promise<AutoMatchRun[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_auto_match_runs', {
+      p_limit: RUN_HISTORY_PAGE_SIZE,
+      p_before: before ?? null,
+    });
+
+    if (error) {
+      console.error('Error fetching auto-match runs:', error);
+      return [];
+    }
+    return (data || []) as AutoMatchRun[];
+  } catch (error) {
+    console.error('getAutoMatchRuns error:', error);
+    return [];
+  }
+}
+
+/**
+ * Every user of one pair run with their outcome, optionally filtered
+ */
+export async function getAutoMatchRunUsers(runId: string, outcome?: RunUserOutcome): Promise<AutoMatchRunUser[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_auto_match_run_users', {
+      p_run_id: runId,
+      p_outcome: outcome ?? null,
+    });
+
+    if (error) {
+      console.error('Error fetching auto-match run users:', error);
+      return [];
+    }
+    return (data || []) as AutoMatchRunUser[];
+  } catch (error) {
+    console.error('getAutoMatchRunUsers error:', error);
+    return [];
+  }
+}
+
+/**
+ * Why a user was or wasn't matched by each pair run on a day
+ * @param day - UTC date as YYYY-MM-DD
+ */
+export async function explainUserAutoMatch(userId: string, day: string): Promise<UserRunExplanation[]> {
+  try {
+    const { data, error } = await supabase.rpc('explain_user_auto_match', {
+      p_user_id: userId,
+      p_day: day,
+    });
+
+    if (error) {
+      console.error('Error explaining auto-match for user:', error);
+      return [];
+    }
+    return (data || []) as UserRunExplanation[];
+  } catch (error) {
+    console.error('explainUserAutoMatch error:', error);
+    return [];
+  }
+}
+
+/**
+ * Find a user by email (admins only)
+ */
+export async function findUserByEmail(email: string): Promise<AdminUserLookup | null> {
+  try {
+    const { data, error } = await supabase.rpc('admin_find_user', { p_email: email });
+
+    if (error) {
+      console.error('Error looking up user:', error);
+      return null;
+    }
+
+    const user = Array.isArray(data) ? data[0] : data;
+    return (user as AdminUserLookup) || null;
+  } catch (error) {
+    console.error('findUserByEmail error:', error);
+    return null;
+  }
+}
@@ -3,6 +3,7 @@
 // =====================================================
 // Service for fetching conversations and messages
 // Phase 3: Added sending functionality with optimistic updates
+// Senders can edit (briefly) and delete their messages, DMs and Nests alike
 
 import { supabase } from './supabase';
 import type { ConversationWithMatch, MessageWithSender, Message } from '@/types/chat';
@@ -55,7 +56,11 @@ export async function getConversations(): Promise<ConversationWithMatch[]> {
       throw error;
     }
 
-    return (data || []) as unknown as ConversationWithMatch[];
+    // Expired matches (no reply in time) and unmatched ones drop out of the chat list
+    const conversations = (data || []) as unknown as ConversationWithMatch[];
+    return conversations.filter(
+      (conversation) => conversation.match?.status !== 'expired' && conversation.match?.status !== 'unmatched'
+    );
   } catch (error) {
     console.error('getConversations error:', error);
     throw error;
@@ -131,8 +136,7 @@ export async function getMessages(
           profile_photo_url
         )
       `)
-      .eq('conversation_id', conversationId)
-      .is('deleted_at', null) // Don't show deleted messages
+      .eq('conversation_id', conversationId) // Deleted messages come back as tombstones
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -534,3 +538,75 @@ export async function retryMessage(message: Message): Promise<Message> {
     clientId: message.client_id || undefined,
   });
 }
+
+// Senders can edit a text message this long after sending (edit_message)
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Whether a DM or Nest message can still be edited by this user
+ */
+export function canEditMessage(
+  message: Pick<Message, 'sender_id' | 'created_at' | 'deleted_at'> & { message_type?: Message['message_type'] },
+  userId: string
+): boolean {
+  return (
+    message.sender_id === userId &&
+    !message.deleted_at &&
+    (message.message_type ?? 'text') === 'text' &&
+    Date.now() - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MS
+  );
+}
+
+/**
+ * Edit the text of one of the current user's messages
+ * The previous text is kept in message_edits; the partner sees the change
+ * through their realtime UPDATE subscription
+ */
+export async function editMessage(
+  messageId: string,
+  content: string
+): Promise<{ success: boolean; data?: Message; error?: string }> {
+  const sanitizedContent = sanitizeMessage(content);
+  if (!sanitizedContent) {
+    return { success: false, error: 'Message cannot be empty' };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('edit_message', {
+      p_message_id: messageId,
+      p_content: sanitizedContent,
+    });
+
+    if (error) {
+      console.error('Error editing message:', error);
+      return { success: false, error: error.message || 'Failed to edit message' };
+    }
+
+    return { success: true, data: data as Message };
+  } catch (error) {
+    console.error('editMessage error:', error);
+    return { success: false, error: 'Failed to edit message' };
+  }
+}
+
+/**
+ * Delete one of the current user's messages for everyone
+ * The row stays as a tombstone (deleted_at set, content cleared)
+ */
+export async function deleteMessage(
+  messageId: string
+): Promise<{ success: boolean; data?: Message; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('delete_message', { p_message_id: messageId });
+
+    if (error) {
+      console.error('Error deleting message:', error);
+      return { success: false, error: error.message || 'Failed to delete message' };
+    }
+
+    return { success: true, data: data as Message };
+  } catch (error) {
+    console.error('deleteMessage error:', error);
+    return { success: false, error: 'Failed to delete message' };
+  }
+}
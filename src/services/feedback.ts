@@ -0,0 +1,110 @@
+// =====================================================
+// MATCH FEEDBACK SERVICE
+// =====================================================
+// Post-match "Did you study together? How was it?" prompt.
+// Answers are stored per match and rater in match_feedback; database
+// triggers fold them into the match's success score and both users'
+// match statistics, which scoring reads (see auto-match README).
+
+import { supabase } from './supabase';
+import { sanitizeProfileText } from '@/utils/sanitization';
+
+// How long after a match the prompt appears
+export const FEEDBACK_PROMPT_DELAY_DAYS = 3;
+
+export interface PendingFeedback {
+  match_id: string;
+  matched_at: string;
+  partner: {
+    id: string;
+    full_name: string | null;
+    profile_photo_url: string | null;
+  };
+}
+
+export interface MatchFeedbackInput {
+  studiedTogether: boolean;
+  rating: number; // 1-5
+  comment?: string;
+}
+
+/**
+ * Matches the user should be asked about, newest first
+ * Active matches at least FEEDBACK_PROMPT_DELAY_DAYS old without their feedback
+ */
+export async function getPendingFeedback(userId: string): Promise<PendingFeedback[]> {
+  try {
+    const { data: pending, error } = await supabase.rpc('get_pending_match_feedback', {
+      p_user_id: userId,
+      p_min_age: `${FEEDBACK_PROMPT_DELAY_DAYS} days`,
+    });
+
+    if (error) {
+      console.error('Error fetching pending feedback:', error);
+      return [];
+    }
+    if (!pending || pending.length === 0) return [];
+
+    const partnerIds = pending.map((row: any) => row.partner_id);
+    const { data: partners, error: partnersError } = await supabase
+      .from('users')
+      .select('id, full_name, profile_photo_url')
+      .in('id', partnerIds);
+
+    if (partnersError) {
+      console.error('Error fetching feedback partners:', partnersError);
+      return [];
+    }
+
+    const partnersById = new Map<string, PendingFeedback['partner']>(
+      (partners || []).map((partner: any) => [partner.id, partner])
+    );
+
+    return pending
+      .filter((row: any) => partnersById.has(row.partner_id))
+      .map((row: any) => ({
+        match_id: row.match_id,
+        matched_at: row.matched_at,
+        partner: partnersById.get(row.partner_id)!,
+      }));
+  } catch (error) {
+    console.error('Error in getPendingFeedback:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the user's feedback on a match
+ * Answering again replaces their earlier answer
+ */
+export async function submitMatchFeedback(
+  userId: string,
+  matchId: string,
+  input: MatchFeedbackInput
+): Promise<{ success: boolean; error?: string }> {
+  if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+    return { success: false, error: 'Please choose a rating from 1 to 5.' };
+  }
+
+  const comment = input.comment ? sanitizeProfileText(input.comment, 500) : '';
+
+  const { error } = await supabase
+    .from('match_feedback')
+    .upsert(
+      {
+        match_id: matchId,
+        rater_id: userId,
+        studied_together: input.studiedTogether,
+        rating: input.rating,
+        comment: comment || null,
+      },
+      { onConflict: 'match_id,rater_id' }
+    );
+
+  if (error) {
+    console.error('Error submitting match feedback:', error);
+    return { success: false, error: 'Failed to save your feedback.' };
+  }
+
+  return { success: true };
+}
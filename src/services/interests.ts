@@ -0,0 +1,59 @@
+// =====================================================
+// INTERESTS SERVICE
+// =====================================================
+// Loads per-university profile-text corpora for the shared-interest
+// signal in @shared/interests (bio and major similarity)
+
+import { supabase } from './supabase';
+import { buildInterestCorpus } from '@shared/interests';
+import type { InterestCorpus, InterestUser } from '@shared/interests';
+import { fetchAllPages } from '@shared/eligibility';
+
+// Term frequencies across a campus move slowly; keep them for the app session
+const corpusCache = new Map<string, InterestCorpus>();
+
+/**
+ * Get the interest corpus for several universities
+ * Returns a map keyed by university (missing on error, so terms weigh evenly)
+ */
+export async function getInterestCorporaFor(universities: string[]): Promise<Map<string, InterestCorpus>> {
+  const result = new Map<string, InterestCorpus>();
+  const missing = Array.from(new Set(universities.filter(Boolean))).filter(university => {
+    const cached = corpusCache.get(university);
+    if (cached) result.set(university, cached);
+    return !cached;
+  });
+
+  if (missing.length === 0) return result;
+
+  let rows: InterestUser[];
+  try {
+    rows = await fetchAllPages<InterestUser>((from, to) =>
+      supabase
+        .from('users')
+        .select('university, bio, major')
+        .in('university', missing)
+        .eq('onboarding_completed', true)
+        .order('id')
+        .range(from, to)
+    );
+  } catch (error) {
+    console.error('Error fetching profile texts:', error);
+    return result;
+  }
+
+  const rowsByUniversity = new Map<string, InterestUser[]>();
+  for (const row of rows) {
+    if (!row.university) continue;
+    const list = rowsByUniversity.get(row.university) || [];
+    list.push(row);
+    rowsByUniversity.set(row.university, list);
+  }
+
+  for (const university of missing) {
+    const corpus = buildInterestCorpus(rowsByUniversity.get(university) || []);
+    corpusCache.set(university, corpus);
+    result.set(university, corpus);
+  }
+  return result;
+}
@@ -2,415 +2,144 @@ import { supabase } from './supabase';
 import type { User } from './supabase';
 import { getOrCreateConversation } from './chat';
 import { checkRateLimitByKey, recordAction } from './rateLimiting';
-
-// Simplified availability type - just time of day
+import { getSubjectAliasesFor } from './subjects';
+import { getInterestCorporaFor } from './interests';
+import {
+  calculateAdjustedCompatibilityScore,
+  explainMatch,
+  getFinalScore,
+  getScoringConfig,
+} from '@shared/scoring';
+import type { CompatibilityScore, MatchReason, ScoreBreakdown, ScoringUser } from '@shared/scoring';
+import { autoMatchIdempotencyKey, pairCohort } from '@shared/pairing';
+import type { CohortStats, PairingMode } from '@shared/pairing';
+import {
+  buildExclusionIndex,
+  fetchAllPages,
+  filterEligibleCandidates,
+  hasMatched,
+  notPausedFilter,
+} from '@shared/eligibility';
+import type { ExclusionIndex, PairExclusions } from '@shared/eligibility';
+import { findPreferenceViolation, hasDealBreakers, isMutuallyAcceptable } from '@shared/preferences';
+import { createPairConfigResolver, getActiveExperiment } from '@shared/experiments';
+
+// Legacy availability type - just time of day
+// Stored availability now uses WeeklyAvailability time ranges (see @shared/scoring availability)
 export type AvailabilitySlot = 'morning' | 'afternoon' | 'evening' | 'none';
 export type WeekDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
-export interface CompatibilityScore {
-  total: number;
-  breakdown: {
-    universityMatch: number;
-    subjectOverlap: number;
-    availabilityOverlap: number;
-    studyStyleMatch: number;
-    studyGoalsMatch: number;
-    yearProximity: number;
-  };
-  // Success tracking and decay factors
-  freshnessBonus?: number;
-  successPenalty?: number;
-  adjustedTotal?: number;
-}
+export type { CompatibilityScore, MatchReason } from '@shared/scoring';
+export { calculateCompatibilityScore, calculateAdjustedCompatibilityScore } from '@shared/scoring';
+export type { CohortStats, PairingMode } from '@shared/pairing';
 
-export interface MatchCandidate {
-  user: User;
-  score: CompatibilityScore;
-}
+// User columns needed to explain a match (select these when joining users)
+export const MATCH_REASON_USER_FIELDS =
+  'id, university, year, preferred_subjects, availability, study_style, study_goals, bio, major';
 
-/**
- * Calculate compatibility score between two users
- * Total possible: 100 points
- */
-export function calculateCompatibilityScore(user1: User, user2: User): CompatibilityScore {
-  const breakdown = {
-    universityMatch: scoreUniversityMatch(user1, user2),
-    subjectOverlap: scoreSubjectOverlap(user1, user2),
-    availabilityOverlap: scoreAvailabilityOverlap(user1, user2),
-    studyStyleMatch: scoreStudyStyleMatch(user1, user2),
-    studyGoalsMatch: scoreStudyGoalsMatch(user1, user2),
-    yearProximity: scoreYearProximity(user1, user2),
-  };
-
-  const total = Object.values(breakdown).reduce((sum, score) => sum + score, 0);
-
-  return { total, breakdown };
-}
+// A user row selected with MATCH_REASON_USER_FIELDS
+export type MatchReasonUser = Pick<
+  User,
+  'id' | 'university' | 'year' | 'preferred_subjects' | 'availability' | 'study_style' | 'study_goals' | 'bio' | 'major'
+>;
 
-/**
- * University Match: 20 points
- * Must be same university (non-negotiable for auto-match)
- */
-function scoreUniversityMatch(user1: User, user2: User): number {
-  if (!user1.university || !user2.university) return 0;
-  return user1.university.toLowerCase() === user2.university.toLowerCase() ? 20 : 0;
+// How many same-university candidates a user's own deal-breakers leave
+export interface PreferenceReach {
+  candidateCount: number;
+  allowedCount: number;
 }
 
-/**
- * Subject Overlap: 30 points
- * Most important factor - shared subjects mean they can actually study together
- */
-function scoreSubjectOverlap(user1: User, user2: User): number {
-  const subjects1 = user1.preferred_subjects || [];
-  const subjects2 = user2.preferred_subjects || [];
-
-  if (subjects1.length === 0 || subjects2.length === 0) return 0;
-
-  // Normalize subjects to lowercase for comparison
-  const normalized1 = subjects1.map(s => s.toLowerCase().trim());
-  const normalized2 = subjects2.map(s => s.toLowerCase().trim());
-
-  // Count shared subjects
-  const sharedCount = normalized1.filter(s => normalized2.includes(s)).length;
-
-  if (sharedCount === 0) return 0;
-
-  // Score based on overlap ratio
-  const minLength = Math.min(subjects1.length, subjects2.length);
-  const overlapRatio = sharedCount / minLength;
-
-  return Math.round(overlapRatio * 30);
-}
-
-/**
- * Availability Overlap: 20 points
- * Check if they have overlapping free time
- */
-function scoreAvailabilityOverlap(user1: User, user2: User): number {
-  const avail1 = user1.availability;
-  const avail2 = user2.availability;
-
-  // If either hasn't set availability, give neutral score
-  if (!avail1 || !avail2) return 10;
-
-  const days: WeekDay[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-  let overlappingSlots = 0;
-  let totalSlots = 0;
-
-  for (const day of days) {
-    const slot1 = (avail1 as any)[day];
-    const slot2 = (avail2 as any)[day];
+// Swipe deck page size; the app prefetches the next page as the deck runs low
+export const CANDIDATE_FEED_PAGE_SIZE = 20;
 
-    if (slot1 && slot1 !== 'none') totalSlots++;
-    if (slot2 && slot2 !== 'none') totalSlots++;
-
-    // Check if both have same time slot available
-    if (slot1 && slot2 && slot1 === slot2 && slot1 !== 'none') {
-      overlappingSlots++;
-    }
-  }
+// How long a ranked swipe deck is reused while paging before it is re-scored
+const CANDIDATE_FEED_TTL_MS = 5 * 60 * 1000;
 
-  if (totalSlots === 0) return 10; // Both empty, neutral
-
-  // Score based on overlap
-  const overlapRatio = overlappingSlots / (totalSlots / 2);
-  return Math.round(Math.min(overlapRatio, 1) * 20);
+// Position in the ranked swipe deck: the last candidate already served
+export interface CandidateFeedCursor {
+  score: number;
+  id: string;
 }
 
-/**
- * Study Style Match: 15 points
- * Preference for how they like to study
- */
-function scoreStudyStyleMatch(user1: User, user2: User): number {
-  const style1 = user1.study_style;
-  const style2 = user2.study_style;
-
-  // If either hasn't set, give neutral score
-  if (!style1 || !style2) return 7;
-
-  // Exact match is best
-  if (style1 === style2) return 15;
-
-  // Compatible styles
-  const compatible = [
-    ['quiet', 'with_music'],
-    ['group_discussion', 'teach_each_other'],
-  ];
-
-  for (const pair of compatible) {
-    if (
-      (pair.includes(style1) && pair.includes(style2))
-    ) {
-      return 10;
-    }
-  }
-
-  // Different but not incompatible
-  return 5;
+// One page of the swipe deck
+export interface CandidateFeedPage {
+  candidates: User[];
+  nextCursor: CandidateFeedCursor | null; // null once every candidate has been served
 }
 
-/**
- * Study Goals Match: 10 points
- * What they want to achieve
- */
-function scoreStudyGoalsMatch(user1: User, user2: User): number {
-  const goal1 = user1.study_goals;
-  const goal2 = user2.study_goals;
-
-  // If either hasn't set, give neutral score
-  if (!goal1 || !goal2) return 5;
-
-  // Exact match
-  if (goal1 === goal2) return 10;
-
-  // Compatible goals
-  const compatible = [
-    ['ace_exams', 'understand_concepts'],
-  ];
-
-  for (const pair of compatible) {
-    if (pair.includes(goal1) && pair.includes(goal2)) {
-      return 8;
-    }
-  }
-
-  // Incompatible (e.g., ace_exams + just_pass)
-  if (
-    (goal1 === 'ace_exams' && goal2 === 'just_pass') ||
-    (goal1 === 'just_pass' && goal2 === 'ace_exams')
-  ) {
-    return 2;
-  }
-
-  // Different but okay
-  return 5;
-}
-
-/**
- * Year Proximity: 5 points
- * Prefer students in similar academic stages
- */
-function scoreYearProximity(user1: User, user2: User): number {
-  const year1 = user1.year?.toLowerCase();
-  const year2 = user2.year?.toLowerCase();
-
-  if (!year1 || !year2) return 2;
-
-  const yearOrder = ['freshman', 'sophomore', 'junior', 'senior'];
-  const idx1 = yearOrder.indexOf(year1);
-  const idx2 = yearOrder.indexOf(year2);
-
-  if (idx1 === -1 || idx2 === -1) return 2;
-
-  const distance = Math.abs(idx1 - idx2);
-
-  if (distance === 0) return 5; // Same year
-  if (distance === 1) return 4; // Adjacent year
-  if (distance === 2) return 2; // One year apart
-  return 1; // Two+ years apart
-}
-
-/**
- * Freshness Bonus: Up to +15 points
- * Prioritize users who are new to the platform or haven't been matched recently
- * Decay factor reduces bonus based on number of previous matches
- */
-function calculateFreshnessBonus(user: User): number {
-  const totalMatches = (user as any).total_matches || 0;
-
-  // New users (0 matches) get full bonus
-  if (totalMatches === 0) return 15;
-
-  // Apply exponential decay based on total matches
-  // 1 match: 12 points
-  // 2 matches: 9 points
-  // 3 matches: 7 points
-  // 5+ matches: 3 points
-  const decayFactor = Math.exp(-totalMatches * 0.3);
-  return Math.round(15 * decayFactor);
-}
-
-/**
- * Success Penalty: Up to -10 points
- * Penalize users with low success rates in previous matches
- * Helps avoid matching users who don't engage well
- */
-function calculateSuccessPenalty(user: User): number {
-  const totalMatches = (user as any).total_matches || 0;
-  const successfulMatches = (user as any).successful_matches || 0;
-  const avgMessages = (user as any).avg_messages_per_match || 0;
-
-  // No penalty for new users
-  if (totalMatches === 0) return 0;
-
-  // Calculate success rate
-  const successRate = successfulMatches / totalMatches;
-
-  // Penalty based on success rate
-  // 80%+ success: No penalty (0 points)
-  // 50-80% success: Small penalty (-3 points)
-  // 20-50% success: Medium penalty (-6 points)
-  // <20% success: Large penalty (-10 points)
-  let penalty = 0;
-
-  if (successRate >= 0.8) {
-    penalty = 0;
-  } else if (successRate >= 0.5) {
-    penalty = -3;
-  } else if (successRate >= 0.2) {
-    penalty = -6;
-  } else {
-    penalty = -10;
-  }
-
-  // Additional penalty if user has very low engagement (< 3 avg messages)
-  if (avgMessages < 3 && totalMatches >= 2) {
-    penalty -= 5;
-  }
-
-  return Math.max(-15, penalty); // Cap penalty at -15
+interface RankedCandidate {
+  user: User;
+  score: number; // Adjusted final score
 }
 
-/**
- * Calculate adjusted compatibility score with freshness and success factors
- */
-export function calculateAdjustedCompatibilityScore(
-  user1: User,
-  user2: User
-): CompatibilityScore {
-  // Base compatibility score
-  const baseScore = calculateCompatibilityScore(user1, user2);
-
-  // Calculate freshness bonuses (prioritize fresh matches)
-  const user1Freshness = calculateFreshnessBonus(user1);
-  const user2Freshness = calculateFreshnessBonus(user2);
-  const avgFreshness = (user1Freshness + user2Freshness) / 2;
-
-  // Calculate success penalties (avoid users with poor track records)
-  const user1Penalty = calculateSuccessPenalty(user1);
-  const user2Penalty = calculateSuccessPenalty(user2);
-  const avgPenalty = (user1Penalty + user2Penalty) / 2;
-
-  // Adjusted total score
-  const adjustedTotal = Math.round(
-    baseScore.total + avgFreshness + avgPenalty
-  );
+// The last ranking computed, so later pages keep a consistent order
+let rankedFeedCache: { userId: string; ranked: RankedCandidate[]; rankedAt: number } | null = null;
 
-  return {
-    ...baseScore,
-    freshnessBonus: Math.round(avgFreshness),
-    successPenalty: Math.round(avgPenalty),
-    adjustedTotal: Math.max(0, adjustedTotal), // Ensure non-negative
-  };
+// Stored analytics for a match (match_analytics row)
+export interface MatchAnalyticsSummary {
+  score_breakdown: ScoreBreakdown | null;
+  scoring_version: string | null;
 }
 
 /**
  * Get eligible users for auto-matching
- * Users who have completed onboarding and haven't been auto-matched in 24 hours
+ * Users who have completed onboarding and whose daily match slot is due
  * Includes match statistics for success tracking and decay factors
  */
 export async function getEligibleUsers(): Promise<User[]> {
-  const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-
-  const { data, error } = await supabase
-    .from('users')
-    .select(`
-      *,
-      total_matches,
-      successful_matches,
-      avg_messages_per_match
-    `)
-    .eq('onboarding_completed', true)
-    .or(`last_auto_match_cycle.is.null,last_auto_match_cycle.lt.${twentyFourHoursAgo}`);
+  const now = new Date().toISOString();
 
-  if (error) {
+  try {
+    // Paged so cohorts larger than PostgREST's max_rows are not truncated
+    return await fetchAllPages<User>((from, to) =>
+      supabase
+        .from('users')
+        .select(`
+          *,
+          total_matches,
+          successful_matches,
+          avg_messages_per_match,
+          feedback_received,
+          avg_feedback_rating,
+          unstudied_matches
+        `)
+        .eq('onboarding_completed', true)
+        .or(`next_auto_match_at.is.null,next_auto_match_at.lte.${now}`)
+        .or(notPausedFilter(now))
+        .order('id')
+        .range(from, to)
+    );
+  } catch (error) {
     console.error('Error fetching eligible users:', error);
     return [];
   }
-
-  return (data || []) as User[];
 }
 
 /**
- * Check if two users have already matched
+ * Load every existing match and swipe involving a set of users
+ * One RPC call instead of a lookup per candidate pair
  */
-async function haveAlreadyMatched(user1Id: string, user2Id: string): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('matches')
-    .select('id')
-    .or(
-      `and(user1_id.eq.${user1Id},user2_id.eq.${user2Id}),and(user1_id.eq.${user2Id},user2_id.eq.${user1Id})`
-    )
-    .limit(1);
+async function loadExclusionIndex(userIds: string[]): Promise<ExclusionIndex> {
+  if (userIds.length === 0) return buildExclusionIndex(null);
+
+  const { data, error } = await supabase.rpc('get_pair_exclusions', {
+    p_user_ids: userIds,
+  });
 
   if (error) {
-    console.error('Error checking existing match:', error);
-    return false;
+    console.error('Error loading match exclusions:', error);
+    throw error;
   }
 
-  return (data?.length || 0) > 0;
+  return buildExclusionIndex(data as PairExclusions);
 }
 
 /**
- * Find best auto-match for a user from a pool of candidates
- * Returns null if no suitable match found (adjusted score < 40)
- * Uses adjusted scoring with freshness bonus and success penalty
+ * Check if two users have already matched
+ * Ended matches (unmatched, expired) count too; their rows are never deleted
  */
-export async function findBestMatch(
-  user: User,
-  candidates: User[],
-  usedIds: Set<string>
-): Promise<MatchCandidate | null> {
-  const MINIMUM_SCORE = 40;
-
-  // Filter out invalid candidates
-  const validCandidates = candidates.filter(
-    (c) =>
-      c.id !== user.id && // Not self
-      !usedIds.has(c.id) && // Not already matched this cycle
-      c.university === user.university // Must be same university
-  );
-
-  // Score all candidates with adjusted scoring
-  const scored: MatchCandidate[] = [];
-
-  for (const candidate of validCandidates) {
-    // Check if already matched before
-    const alreadyMatched = await haveAlreadyMatched(user.id, candidate.id);
-    if (alreadyMatched) continue;
-
-    // Use adjusted score that includes freshness and success factors
-    const score = calculateAdjustedCompatibilityScore(user, candidate);
-
-    // Use adjustedTotal for threshold check (prioritizes fresh matches)
-    const finalScore = score.adjustedTotal ?? score.total;
-
-    // Must meet minimum threshold
-    if (finalScore >= MINIMUM_SCORE) {
-      scored.push({ user: candidate, score });
-    }
-  }
-
-  // Sort by adjusted score descending (prioritizes fresh, successful users)
-  scored.sort((a, b) => {
-    const scoreA = a.score.adjustedTotal ?? a.score.total;
-    const scoreB = b.score.adjustedTotal ?? b.score.total;
-    return scoreB - scoreA;
-  });
-
-  // Log top match details for debugging
-  if (scored[0]) {
-    console.log('Best match found:', {
-      candidate: scored[0].user.full_name,
-      baseScore: scored[0].score.total,
-      freshnessBonus: scored[0].score.freshnessBonus,
-      successPenalty: scored[0].score.successPenalty,
-      adjustedScore: scored[0].score.adjustedTotal,
-    });
-  }
-
-  // Return best match or null
-  return scored[0] || null;
+function haveAlreadyMatched(exclusions: ExclusionIndex, user1Id: string, user2Id: string): boolean {
+  return hasMatched(exclusions, user1Id, user2Id);
 }
 
 /**
@@ -422,7 +151,7 @@ export async function createMatch(
   matchType: 'auto' | 'manual',
   compatibilityScore?: CompatibilityScore
 ): Promise<string | null> {
-  // Create match
+  // Create match; an auto match the pair already has fails on its idempotency key
   const { data: matchData, error: matchError } = await supabase
     .from('matches')
     .insert({
@@ -430,6 +159,7 @@ export async function createMatch(
       user2_id: user2Id,
       match_type: matchType,
       status: 'active',
+      idempotency_key: matchType === 'auto' ? autoMatchIdempotencyKey(user1Id, user2Id) : null,
     })
     .select()
     .single();
@@ -445,6 +175,9 @@ export async function createMatch(
       match_id: matchData.id,
       compatibility_score: compatibilityScore.total,
       score_breakdown: compatibilityScore.breakdown,
+      scoring_version: compatibilityScore.scoringVersion,
+      experiment_id: compatibilityScore.experiment?.id ?? null,
+      experiment_arm: compatibilityScore.experiment?.arm ?? null,
     });
   }
 
@@ -575,89 +308,234 @@ export async function createManualMatch(userId1: string, userId2: string): Promi
 }
 
 /**
- * Get eligible matches for a user (for swipe UI)
- * Returns users who haven't been swiped on and are eligible for matching
+ * Human-readable reasons two users were matched, from the viewer's side
+ * Uses the stored breakdown and its scoring version when the match has analytics,
+ * otherwise scores the pair with the current config
  */
-export async function getEligibleMatches(userId: string): Promise<User[]> {
+export async function getMatchReasons(
+  viewer: ScoringUser,
+  other: ScoringUser,
+  analytics?: MatchAnalyticsSummary | null,
+  limit?: number
+): Promise<MatchReason[]> {
   try {
-    // Get user's university to filter matches
-    const { data: currentUser, error: userError } = await supabase
-      .from('users')
-      .select('university')
-      .eq('id', userId)
-      .single();
-
-    if (userError || !currentUser?.university) {
-      console.error('Error fetching current user:', userError);
-      return [];
+    let config = getScoringConfig();
+    let breakdown = analytics?.score_breakdown || null;
+    if (analytics?.scoring_version) {
+      try {
+        config = getScoringConfig(analytics.scoring_version);
+      } catch {
+        // Unknown version (e.g. newer than this app build): recompute with the current one
+        breakdown = null;
+      }
     }
 
-    // Get users who:
-    // 1. Are from the same university
-    // 2. Have completed onboarding
-    // 3. Haven't been swiped on by current user
-    // 4. Haven't already matched with current user
-    const { data, error } = await supabase
+    const universities = [viewer.university, other.university].filter((u): u is string => !!u);
+    const subjectAliases = await getSubjectAliasesFor(universities);
+    const interestCorpora = await getInterestCorporaFor(universities);
+
+    return explainMatch(viewer, other, breakdown, {
+      config,
+      context: { subjectAliases, interestCorpora },
+      limit,
+    });
+  } catch (error) {
+    console.error('Error explaining match:', error);
+    return [];
+  }
+}
+
+/**
+ * Load a match with both users and its analytics, then explain it for the viewer
+ */
+export async function getMatchReasonsForMatch(matchId: string, viewerId: string): Promise<MatchReason[]> {
+  const { data, error } = await supabase
+    .from('matches')
+    .select(`
+      id,
+      user1_id,
+      user2_id,
+      user1:users!matches_user1_id_fkey (${MATCH_REASON_USER_FIELDS}),
+      user2:users!matches_user2_id_fkey (${MATCH_REASON_USER_FIELDS}),
+      analytics:match_analytics (score_breakdown, scoring_version)
+    `)
+    .eq('id', matchId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error fetching match for explanation:', error);
+    return [];
+  }
+
+  const viewer = data.user1_id === viewerId ? data.user1 : data.user2;
+  const other = data.user1_id === viewerId ? data.user2 : data.user1;
+  if (!viewer || !other) return [];
+
+  return getMatchReasons(viewer, other, data.analytics?.[0] || null);
+}
+
+/**
+ * Score and rank every swipe candidate for a user, best first
+ * Candidates are same-university users who completed onboarding, aren't
+ * paused, haven't been swiped on or matched, and pass both users' deal-breakers
+ */
+async function rankSwipeCandidates(userId: string): Promise<RankedCandidate[]> {
+  const { data: currentUser, error: userError } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !currentUser?.university) {
+    console.error('Error fetching current user:', userError);
+    return [];
+  }
+
+  // Every candidate is needed to rank them, so read them all in pages
+  const candidates = await fetchAllPages<User>((from, to) =>
+    supabase
       .from('users')
       .select(`
         *,
         total_matches,
         successful_matches,
-        avg_messages_per_match
+        avg_messages_per_match,
+        feedback_received,
+        avg_feedback_rating,
+        unstudied_matches
       `)
       .eq('university', currentUser.university)
       .eq('onboarding_completed', true)
+      .or(notPausedFilter())
       .neq('id', userId)
-      .limit(20);
+      .order('id')
+      .range(from, to)
+  );
 
-    if (error) {
-      console.error('Error fetching eligible matches:', error);
-      return [];
-    }
+  // Filter out users who have already been swiped on or matched,
+  // from one batched lookup instead of two queries per candidate
+  const exclusions = await loadExclusionIndex([userId]);
+  const eligibleUsers = filterEligibleCandidates(userId, candidates, exclusions);
+
+  const configForPair = createPairConfigResolver(getActiveExperiment(), getScoringConfig());
+  const subjectAliases = await getSubjectAliasesFor([currentUser.university]);
+  const interestCorpora = await getInterestCorporaFor([currentUser.university]);
+
+  const ranked: RankedCandidate[] = [];
+  for (const candidate of eligibleUsers) {
+    if (!isMutuallyAcceptable(currentUser as User, candidate, { subjectAliases })) continue;
+
+    const score = calculateAdjustedCompatibilityScore(
+      currentUser as User,
+      candidate,
+      configForPair(currentUser as User, candidate),
+      { subjectAliases, interestCorpora }
+    );
+    ranked.push({ user: candidate, score: getFinalScore(score) });
+  }
+
+  ranked.sort(compareRankedCandidates);
+  return ranked;
+}
+
+// Deck order: adjusted score descending, then id so ties keep a stable order
+function compareRankedCandidates(a: RankedCandidate, b: RankedCandidate): number {
+  if (a.score !== b.score) return b.score - a.score;
+  return a.user.id < b.user.id ? -1 : a.user.id > b.user.id ? 1 : 0;
+}
 
-    // Filter out users who have already been swiped on or matched
-    const eligibleUsers: User[] = [];
-    
-    for (const user of data || []) {
-      // Check if already swiped on
-      const { data: swipeData } = await supabase
-        .from('swipe_actions')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('target_user_id', user.id)
-        .limit(1);
-
-      if (swipeData && swipeData.length > 0) continue;
-
-      // Check if already matched
-      const { data: matchData } = await supabase
-        .from('matches')
-        .select('id')
-        .or(
-          `and(user1_id.eq.${userId},user2_id.eq.${user.id}),and(user1_id.eq.${user.id},user2_id.eq.${userId})`
-        )
-        .limit(1);
-
-      if (matchData && matchData.length > 0) continue;
-
-      eligibleUsers.push(user as User);
+// Whether a candidate comes after the cursor in deck order
+function isAfterCursor(candidate: RankedCandidate, cursor: CandidateFeedCursor): boolean {
+  return candidate.score < cursor.score || (candidate.score === cursor.score && candidate.user.id > cursor.id);
+}
+
+/**
+ * Get the next page of the swipe deck for a user
+ * Candidates come ranked by adjusted compatibility score. Pass the previous
+ * page's nextCursor to continue; nextCursor is null once everyone has been shown.
+ * The ranking is reused for a few minutes so paging doesn't re-score everyone.
+ */
+export async function getCandidateFeedPage(
+  userId: string,
+  cursor: CandidateFeedCursor | null = null,
+  pageSize: number = CANDIDATE_FEED_PAGE_SIZE
+): Promise<CandidateFeedPage> {
+  try {
+    const cacheIsFresh =
+      rankedFeedCache?.userId === userId &&
+      Date.now() - rankedFeedCache.rankedAt < CANDIDATE_FEED_TTL_MS;
+
+    // First page (or a stale ranking): score everyone again
+    if (!cursor || !cacheIsFresh) {
+      rankedFeedCache = { userId, ranked: await rankSwipeCandidates(userId), rankedAt: Date.now() };
     }
 
-    return eligibleUsers;
+    const ranked = rankedFeedCache!.ranked;
+
+    // Keyset: everything ranked strictly after the last candidate served
+    const start = cursor
+      ? ranked.findIndex(candidate => isAfterCursor(candidate, cursor))
+      : 0;
+    if (start === -1) return { candidates: [], nextCursor: null };
+
+    const page = ranked.slice(start, start + pageSize);
+    const last = page[page.length - 1];
+    const hasMore = start + page.length < ranked.length;
+
+    return {
+      candidates: page.map(candidate => candidate.user),
+      nextCursor: hasMore && last ? { score: last.score, id: last.user.id } : null,
+    };
   } catch (error) {
-    console.error('Error in getEligibleMatches:', error);
-    return [];
+    console.error('Error in getCandidateFeedPage:', error);
+    return { candidates: [], nextCursor: null };
+  }
+}
+
+/**
+ * Count the same-university candidates left by a user's own deal-breakers
+ * Returns null when the user has no deal-breakers set
+ * Used to tell users when their preferences rule out everyone
+ */
+export async function getPreferenceReach(user: User): Promise<PreferenceReach | null> {
+  if (!user.university || !hasDealBreakers(user)) return null;
+
+  try {
+    const candidates = await fetchAllPages<ScoringUser>((from, to) =>
+      supabase
+        .from('users')
+        .select(MATCH_REASON_USER_FIELDS)
+        .eq('university', user.university)
+        .eq('onboarding_completed', true)
+        .or(notPausedFilter())
+        .neq('id', user.id)
+        .order('id')
+        .range(from, to)
+    );
+
+    const subjectAliases = await getSubjectAliasesFor([user.university]);
+    const allowedCount = candidates.filter(
+      candidate => findPreferenceViolation(user, candidate, { subjectAliases }) === null
+    ).length;
+
+    return { candidateCount: candidates.length, allowedCount };
+  } catch (error) {
+    console.error('Error checking match preference reach:', error);
+    return null;
   }
 }
 
 /**
  * Main auto-matching algorithm
  * Runs daily to create one match per user
+ * 'optimal' (default) maximizes total adjusted score across the cohort,
+ * 'greedy' keeps the original first-come behaviour
  */
-export async function runAutoMatching(): Promise<{
+export async function runAutoMatching(options?: { pairingMode?: PairingMode }): Promise<{
   success: boolean;
   matchesCreated: number;
   errors: string[];
+  stats?: CohortStats;
 }> {
   const errors: string[] = [];
   let matchesCreated = 0;
@@ -671,28 +549,28 @@ export async function runAutoMatching(): Promise<{
       return { success: true, matchesCreated: 0, errors: ['Not enough eligible users'] };
     }
 
-    // Track which users have been matched this cycle
-    const usedIds = new Set<string>();
+    // Never pair users who have matched before
+    const exclusions = await loadExclusionIndex(eligible.map(u => u.id));
+    const subjectAliases = await getSubjectAliasesFor(eligible.map(u => u.university || ''));
+    const interestCorpora = await getInterestCorporaFor(eligible.map(u => u.university || ''));
 
-    // Process each user
-    for (const user of eligible) {
-      if (usedIds.has(user.id)) continue;
+    const { pairs, stats } = pairCohort(eligible, {
+      mode: options?.pairingMode,
+      context: { subjectAliases, interestCorpora },
+      configForPair: createPairConfigResolver(getActiveExperiment()),
+      isExcludedPair: (a, b) => haveAlreadyMatched(exclusions, a.id, b.id),
+    });
 
-      // Find best match for this user
-      const bestMatch = await findBestMatch(user, eligible, usedIds);
-
-      if (!bestMatch) {
-        console.log(`No suitable match found for user ${user.id}`);
-        continue;
-      }
+    console.log('Cohort pairing:', stats);
 
+    for (const pair of pairs) {
       console.log(
-        `Matching ${user.full_name} with ${bestMatch.user.full_name}`,
-        `(base: ${bestMatch.score.total}, adjusted: ${bestMatch.score.adjustedTotal})`
+        `Matching ${pair.user1.full_name} with ${pair.user2.full_name}`,
+        `(base: ${pair.score.total}, adjusted: ${pair.score.adjustedTotal})`
       );
 
       // Create the match
-      const matchId = await createMatch(user.id, bestMatch.user.id, 'auto', bestMatch.score);
+      const matchId = await createMatch(pair.user1.id, pair.user2.id, 'auto', pair.score);
 
       if (matchId) {
         // Create conversation for the match
@@ -704,21 +582,17 @@ export async function runAutoMatching(): Promise<{
           console.log(`Created conversation ${conversationId} for match ${matchId}`);
         }
 
-        // Mark both users as used
-        usedIds.add(user.id);
-        usedIds.add(bestMatch.user.id);
-
         // Update last match cycle for both users
-        await updateLastAutoMatchCycle(user.id);
-        await updateLastAutoMatchCycle(bestMatch.user.id);
+        await updateLastAutoMatchCycle(pair.user1.id);
+        await updateLastAutoMatchCycle(pair.user2.id);
 
         matchesCreated++;
       } else {
-        errors.push(`Failed to create match between ${user.id} and ${bestMatch.user.id}`);
+        errors.push(`Failed to create match between ${pair.user1.id} and ${pair.user2.id}`);
       }
     }
 
-    return { success: true, matchesCreated, errors };
+    return { success: true, matchesCreated, errors, stats };
   } catch (error) {
     console.error('Auto-matching error:', error);
     return {
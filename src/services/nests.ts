@@ -5,6 +5,9 @@
 // Handles CRUD operations, messaging, and member management
 
 import { supabase } from './supabase';
+import { getSubjectAliases } from './subjects';
+import { sanitizeMessage } from '@/utils/sanitization';
+import { DEFAULT_SIMILARITY_THRESHOLD, buildSubjectSearchPatterns, subjectsMatch } from '@shared/subjects';
 import type { 
   Nest, 
   NestWithMembers, 
@@ -283,8 +286,7 @@ export async function getNestMessages(
           profile_photo_url
         )
       `)
-      .eq('nest_id', nestId)
-      .is('deleted_at', null)
+      .eq('nest_id', nestId) // Deleted messages come back as tombstones
       .order('created_at', { ascending: false })
       .limit(limit);
 
@@ -335,6 +337,107 @@ export async function sendNestMessage(params: SendNestMessageParams): Promise<Ne
   }
 }
 
+/**
+ * Edit the text of one of the current user's Nest messages
+ * Same rules as DMs (see canEditMessage in chat.ts)
+ */
+export async function editNestMessage(
+  messageId: string,
+  content: string
+): Promise<{ success: boolean; data?: NestMessage; error?: string }> {
+  const sanitizedContent = sanitizeMessage(content);
+  if (!sanitizedContent) {
+    return { success: false, error: 'Message cannot be empty' };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('edit_nest_message', {
+      p_message_id: messageId,
+      p_content: sanitizedContent,
+    });
+
+    if (error) {
+      console.error('Error editing nest message:', error);
+      return { success: false, error: error.message || 'Failed to edit message' };
+    }
+
+    return { success: true, data: data as NestMessage };
+  } catch (error) {
+    console.error('editNestMessage error:', error);
+    return { success: false, error: 'Failed to edit message' };
+  }
+}
+
+/**
+ * Delete one of the current user's Nest messages for everyone
+ */
+export async function deleteNestMessage(
+  messageId: string
+): Promise<{ success: boolean; data?: NestMessage; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('delete_nest_message', { p_message_id: messageId });
+
+    if (error) {
+      console.error('Error deleting nest message:', error);
+      return { success: false, error: error.message || 'Failed to delete message' };
+    }
+
+    return { success: true, data: data as NestMessage };
+  } catch (error) {
+    console.error('deleteNestMessage error:', error);
+    return { success: false, error: 'Failed to delete message' };
+  }
+}
+
+// Nests read per request while filtering pattern hits down to subject matches
+const NEST_PAGE_SIZE = 50;
+// Results returned when the caller sets no limit
+const DEFAULT_NEST_SEARCH_LIMIT = 50;
+
+const NEST_WITH_MEMBERS_SELECT = `
+  *,
+  members:nest_members (
+    id,
+    user_id,
+    role,
+    joined_at,
+    user:users (
+      id,
+      full_name,
+      profile_photo_url
+    )
+  )
+`;
+
+/**
+ * PostgREST or() filter: any column ILIKE any pattern
+ * Patterns come from buildSubjectSearchPatterns, which strips characters or() can't take
+ */
+function ilikeAny(patterns: string[], columns: string[]): string {
+  return Array.from(new Set(patterns))
+    .flatMap(pattern => columns.map(column => `${column}.ilike.%${pattern}%`))
+    .join(',');
+}
+
+/**
+ * Read Nests page by page until `limit` of them pass `keep`
+ * fetchPage receives an inclusive row range, like PostgREST's .range()
+ */
+async function fetchNestPages(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: any }>,
+  keep: (nest: any) => boolean,
+  limit: number
+): Promise<any[]> {
+  const nests: any[] = [];
+  for (let from = 0; nests.length < limit; from += NEST_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + NEST_PAGE_SIZE - 1);
+    if (error) throw error;
+    nests.push(...(data || []).filter(keep));
+    if (!data || data.length < NEST_PAGE_SIZE) break;
+  }
+  return nests.slice(0, limit);
+}
+
 /**
  * Search for Nests by filters
  */
@@ -356,47 +459,34 @@ export async function searchNests(params: SearchNestsParams): Promise<NestWithMe
       throw new Error('User university not found');
     }
 
-    let query = supabase
-      .from('nests')
-      .select(`
-        *,
-        members:nest_members (
-          id,
-          user_id,
-          role,
-          joined_at,
-          user:users (
-            id,
-            full_name,
-            profile_photo_url
-          )
-        )
-      `)
-      .eq('university', userData.university) // Only show nests from same university
-      .order('created_at', { ascending: false });
-
-    // Apply filters
-    if (params.subject) {
-      query = query.eq('subject', params.subject);
-    }
-
-    if (params.search) {
-      query = query.or(`name.ilike.%${params.search}%,class_name.ilike.%${params.search}%`);
-    }
-
-    if (params.limit) {
-      query = query.limit(params.limit);
-    }
-
-    const { data, error } = await query;
-
-    if (error) {
-      console.error('Error searching nests:', error);
-      throw error;
-    }
+    const aliases = await getSubjectAliases(userData.university);
+
+    // Match course codes however they were typed ("CS 101", "cs101") and known aliases
+    const searchFilter = params.search
+      ? ilikeAny(buildSubjectSearchPatterns(params.search, aliases), ['name', 'class_name', 'subject'])
+      : '';
+    // The query narrows to likely subjects; the normalized match below has the final say
+    const subjectFilter = params.subject
+      ? ilikeAny(buildSubjectSearchPatterns(params.subject, aliases), ['subject'])
+      : '';
+    const subjectOptions = { aliases, similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD };
+
+    const nests = await fetchNestPages(
+      (from, to) => {
+        let query = supabase
+          .from('nests')
+          .select(NEST_WITH_MEMBERS_SELECT)
+          .eq('university', userData.university); // Only show nests from same university
+        if (searchFilter) query = query.or(searchFilter);
+        if (subjectFilter) query = query.or(subjectFilter);
+        return query.order('created_at', { ascending: false }).range(from, to);
+      },
+      (nest) => !params.subject || subjectsMatch(nest.subject, params.subject, subjectOptions),
+      params.limit ?? DEFAULT_NEST_SEARCH_LIMIT
+    );
 
     // Transform to NestWithMembers format
-    const nestsWithMembers = (data || []).map((nest: any) => ({
+    const nestsWithMembers = nests.map((nest: any) => ({
       ...nest,
       member_count: nest.members?.length || 0,
     })) as NestWithMembers[];
@@ -491,6 +581,9 @@ export async function isUserMemberOfNest(nestId: string, userId?: string): Promi
   }
 }
 
+// How many Nests to suggest
+const SUGGESTION_LIMIT = 10;
+
 /**
  * Get suggested Nests for user based on their subjects
  */
@@ -512,43 +605,44 @@ export async function getSuggestedNests(): Promise<NestWithMembers[]> {
       return [];
     }
 
-    // Find nests with matching subjects that user isn't already in
-    const { data, error } = await supabase
-      .from('nests')
-      .select(`
-        *,
-        members:nest_members (
-          id,
-          user_id,
-          role,
-          joined_at,
-          user:users (
-            id,
-            full_name,
-            profile_photo_url
-          )
-        )
-      `)
-      .eq('university', userData.university)
-      .in('subject', userData.preferred_subjects)
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    if (error) {
-      console.error('Error fetching suggested nests:', error);
-      throw error;
+    // Match subjects by course code, alias or similar name rather than exact text.
+    // The query finds candidates by pattern; subjectsMatch has the final say
+    const aliases = await getSubjectAliases(userData.university);
+    const subjectOptions = { aliases, similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD };
+    const preferredSubjects: string[] = userData.preferred_subjects;
+    const subjectFilter = ilikeAny(
+      preferredSubjects.flatMap(subject => buildSubjectSearchPatterns(subject, aliases)),
+      ['subject', 'class_name']
+    );
+    if (!subjectFilter) {
+      return [];
     }
 
-    // Filter out nests user is already a member of
+    const sharesSubject = (nest: any) =>
+      [nest.subject, nest.class_name].some(
+        (nestSubject: string | null) =>
+          !!nestSubject && preferredSubjects.some(subject => subjectsMatch(nestSubject, subject, subjectOptions))
+      );
+
+    // Leave out nests user is already a member of
     const userNestIds = await getUserNestIds(user.id);
-    const suggestedNests = (data || [])
-      .filter((nest: any) => !userNestIds.includes(nest.id))
-      .map((nest: any) => ({
-        ...nest,
-        member_count: nest.members?.length || 0,
-      })) as NestWithMembers[];
-
-    return suggestedNests;
+
+    const nests = await fetchNestPages(
+      (from, to) => supabase
+        .from('nests')
+        .select(NEST_WITH_MEMBERS_SELECT)
+        .eq('university', userData.university)
+        .or(subjectFilter)
+        .order('created_at', { ascending: false })
+        .range(from, to),
+      (nest) => !userNestIds.includes(nest.id) && sharesSubject(nest),
+      SUGGESTION_LIMIT
+    );
+
+    return nests.map((nest: any) => ({
+      ...nest,
+      member_count: nest.members?.length || 0,
+    })) as NestWithMembers[];
   } catch (error) {
     console.error('getSuggestedNests error:', error);
     throw error;
@@ -1,6 +1,8 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import { supabase } from './supabase';
+import { recordSwipe } from './swipes';
+import { unmatchUser } from './unmatch';
 
 const OFFLINE_MESSAGES_KEY = '@peerly_offline_messages';
 const OFFLINE_ACTIONS_KEY = '@peerly_offline_actions';
@@ -168,19 +170,22 @@ async function updateMessageStatus(
 /**
  * Queue an action for offline execution
  */
-export async function queueOfflineAction(action: Omit<OfflineAction, 'id' | 'timestamp' | 'retryCount' | 'status'>): Promise<void> {
+export async function queueOfflineAction(action: Omit<OfflineAction, 'id' | 'timestamp' | 'retryCount' | 'status'>): Promise<string | null> {
   try {
     const actions = await getOfflineActions();
+    const id = `action_${Date.now()}_${Math.random()}`;
     actions.push({
       ...action,
-      id: `action_${Date.now()}_${Math.random()}`,
+      id,
       timestamp: Date.now(),
       retryCount: 0,
       status: 'pending',
     });
     await AsyncStorage.setItem(OFFLINE_ACTIONS_KEY, JSON.stringify(actions));
+    return id;
   } catch (error) {
     console.error('Error queuing offline action:', error);
+    return null;
   }
 }
 
@@ -306,20 +311,17 @@ async function executeAction(action: OfflineAction): Promise<{ success: boolean;
         return { success: true };
 
       case 'unmatch':
-        const { error: unmatchError } = await supabase
-          .from('matches')
-          .update({ status: 'unmatched', unmatched_at: new Date().toISOString() })
-          .eq('id', action.payload.matchId);
+        // Through unmatch_match, so the reason is kept and both users' stats refresh
+        const unmatchResult = await unmatchUser(action.payload.matchId, action.payload.reason);
 
-        if (unmatchError) return { success: false, error: unmatchError.message };
+        if (!unmatchResult.success) return { success: false, error: unmatchResult.error };
         return { success: true };
 
       case 'swipe':
-        const { error: swipeError } = await supabase
-          .from('swipe_actions')
-          .insert(action.payload);
+        // Goes through record_swipe so a queued like can still create the match
+        const swipeResult = await recordSwipe(action.payload.target_user_id, action.payload.action);
 
-        if (swipeError) return { success: false, error: swipeError.message };
+        if (!swipeResult.success) return { success: false, error: swipeResult.error };
         return { success: true };
 
       default:
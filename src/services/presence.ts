@@ -0,0 +1,419 @@
+// =====================================================
+// PRESENCE SERVICE
+// =====================================================
+// Online status, last seen and typing indicators over Supabase Realtime
+// - Rooms: every conversation and Nest has one private channel, which
+//   only its members can join (migration 20241210000019)
+// - Online: while the app is in the foreground, signed-in clients join
+//   the rooms of all their chats and are listed there if they share last
+//   seen, so users only ever see the people they chat with
+// - Last seen: users.last_seen_at, stamped by touch_last_seen() whenever
+//   the app comes to or leaves the foreground
+// - Typing: broadcasts in the same rooms; nothing is stored
+//
+// Rooms are reference counted: presence, the chats list and an open
+// chat all share the one channel of a chat.
+
+import { AppState } from 'react-native';
+import type { AppStateStatus } from 'react-native';
+import { supabase } from './supabase';
+import { updateProfile } from './profile';
+import { formatMessageTime } from './chat';
+
+const TYPING_EVENT = 'typing';
+
+// A typist broadcasts at most this often while keys keep coming
+const TYPING_SEND_INTERVAL_MS = 2000;
+// Listeners drop a typist who has gone quiet this long (covers lost "stopped" events)
+const TYPING_TIMEOUT_MS = 6000;
+
+export interface TypingTarget {
+  kind: 'conversation' | 'nest';
+  id: string;
+}
+
+interface TypingPayload {
+  user_id: string;
+  is_typing: boolean;
+}
+
+// =====================================================
+// Chat rooms
+// =====================================================
+
+interface ChatRoom {
+  channel: any;
+  refs: number;
+  typingListeners: Set<(payload: TypingPayload) => void>;
+  onlineUserIds: string[];
+}
+
+const rooms = new Map<string, ChatRoom>();
+
+function roomTopic(target: TypingTarget): string {
+  return `chat:${target.kind}:${target.id}`;
+}
+
+function joinRoom(target: TypingTarget, userId: string): ChatRoom {
+  const topic = roomTopic(target);
+  let room = rooms.get(topic);
+
+  if (!room) {
+    const channel = supabase.channel(topic, {
+      config: { private: true, presence: { key: userId } },
+    });
+    const newRoom: ChatRoom = { channel, refs: 0, typingListeners: new Set(), onlineUserIds: [] };
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        newRoom.onlineUserIds = Object.keys(channel.presenceState());
+        publishOnlineUsers();
+      })
+      .on('broadcast', { event: TYPING_EVENT }, ({ payload }: { payload: TypingPayload }) => {
+        newRoom.typingListeners.forEach(listener => listener(payload));
+      })
+      .subscribe((status: string) => {
+        if (status === 'SUBSCRIBED') {
+          trackIn(newRoom);
+        }
+      });
+
+    room = newRoom;
+    rooms.set(topic, room);
+  }
+
+  room.refs++;
+  return room;
+}
+
+function leaveRoom(target: TypingTarget) {
+  const topic = roomTopic(target);
+  const room = rooms.get(topic);
+  if (!room) return;
+
+  room.refs--;
+  if (room.refs <= 0) {
+    supabase.removeChannel(room.channel);
+    rooms.delete(topic);
+    if (room.onlineUserIds.length > 0) publishOnlineUsers();
+  }
+}
+
+// =====================================================
+// Online status
+// =====================================================
+
+let presenceUserId: string | null = null;
+let sharingLastSeen = true;
+// Rooms held for presence, by topic
+let presenceRooms = new Map<string, TypingTarget>();
+let onlineUserIds = new Set<string>();
+const onlineListeners = new Set<(userIds: Set<string>) => void>();
+
+// Everyone online across the rooms this client is in
+function publishOnlineUsers() {
+  const userIds = new Set<string>();
+  rooms.forEach(room => room.onlineUserIds.forEach(userId => userIds.add(userId)));
+  onlineUserIds = userIds;
+  onlineListeners.forEach(listener => listener(userIds));
+}
+
+async function touchLastSeen() {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) {
+    console.error('Error updating last seen:', error);
+  }
+}
+
+async function trackIn(room: ChatRoom) {
+  if (!presenceUserId || !sharingLastSeen || AppState.currentState !== 'active') return;
+  await room.channel.track({ user_id: presenceUserId, online_at: new Date().toISOString() });
+}
+
+async function trackSelf() {
+  await Promise.all(Array.from(rooms.values(), trackIn));
+}
+
+async function untrackSelf() {
+  await Promise.all(Array.from(rooms.values(), room => room.channel.untrack()));
+}
+
+// Every conversation and Nest the user is in
+async function loadChatTargets(userId: string): Promise<TypingTarget[]> {
+  const [conversations, memberships] = await Promise.all([
+    supabase.from('conversations').select('id'),
+    supabase.from('nest_members').select('nest_id').eq('user_id', userId),
+  ]);
+
+  if (conversations.error) {
+    console.error('Error loading conversations for presence:', conversations.error);
+  }
+  if (memberships.error) {
+    console.error('Error loading Nests for presence:', memberships.error);
+  }
+
+  return [
+    ...(conversations.data || []).map((row: any) => ({ kind: 'conversation' as const, id: row.id })),
+    ...(memberships.data || []).map((row: any) => ({ kind: 'nest' as const, id: row.nest_id })),
+  ];
+}
+
+// Hold the room of every chat the user is in, so partners there see them
+// online. Re-run on return to the foreground to pick up new chats
+async function refreshPresenceRooms(userId: string) {
+  const targets = await loadChatTargets(userId);
+  // Signed out (or switched account) while loading
+  if (presenceUserId !== userId) return;
+
+  const next = new Map(targets.map(target => [roomTopic(target), target]));
+  presenceRooms.forEach((target, topic) => {
+    if (!next.has(topic)) leaveRoom(target);
+  });
+  next.forEach((target, topic) => {
+    if (!presenceRooms.has(topic)) joinRoom(target, userId);
+  });
+  presenceRooms = next;
+}
+
+async function startPresence(userId: string) {
+  if (presenceUserId === userId) return;
+  stopPresence();
+  presenceUserId = userId;
+
+  const { data, error } = await supabase
+    .from('users')
+    .select('share_last_seen')
+    .eq('id', userId)
+    .single();
+  if (error) {
+    console.error('Error loading last seen setting:', error);
+  }
+  sharingLastSeen = data?.share_last_seen ?? true;
+
+  // Signed out (or switched account) while loading
+  if (presenceUserId !== userId) return;
+
+  await refreshPresenceRooms(userId);
+  // Including rooms that open screens joined before presence started
+  trackSelf();
+  touchLastSeen();
+}
+
+function stopPresence() {
+  // Rooms an open screen still holds stop listing us too
+  untrackSelf();
+  presenceRooms.forEach(target => leaveRoom(target));
+  presenceRooms = new Map();
+  presenceUserId = null;
+}
+
+/**
+ * Start sharing presence for the signed-in user
+ * Call once from the root layout; follows sign-in/out and app state
+ * @returns Cleanup function
+ */
+export function initializePresence(): () => void {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event: string, session: any) => {
+    if (event === 'SIGNED_OUT' || !session?.user) {
+      stopPresence();
+    } else {
+      startPresence(session.user.id);
+    }
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (!presenceUserId) return;
+    if (state === 'active') {
+      trackSelf();
+      refreshPresenceRooms(presenceUserId);
+    } else {
+      untrackSelf();
+    }
+    touchLastSeen();
+  });
+
+  return () => {
+    subscription.unsubscribe();
+    appStateSubscription.remove();
+    stopPresence();
+  };
+}
+
+/**
+ * Subscribe to the set of users currently online
+ * The callback fires right away with the current set, then on every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToOnlineUsers(callback: (userIds: Set<string>) => void): () => void {
+  onlineListeners.add(callback);
+  callback(onlineUserIds);
+  return () => {
+    onlineListeners.delete(callback);
+  };
+}
+
+/**
+ * Get when users were last seen
+ * Only chat partners and fellow Nest members who share it are returned
+ * @returns Map of user ID to last seen timestamp
+ */
+export async function getLastSeen(userIds: string[]): Promise<Map<string, string>> {
+  const result = new Map<string, string>();
+  if (userIds.length === 0) return result;
+
+  try {
+    const { data, error } = await supabase.rpc('get_last_seen', { p_user_ids: userIds });
+
+    if (error) {
+      console.error('Error fetching last seen:', error);
+      return result;
+    }
+
+    for (const row of data || []) {
+      result.set(row.user_id, row.last_seen_at);
+    }
+    return result;
+  } catch (error) {
+    console.error('getLastSeen error:', error);
+    return result;
+  }
+}
+
+/**
+ * Turn sharing of online status and last seen on or off
+ * Takes effect in every chat room immediately
+ */
+export async function setShareLastSeen(
+  userId: string,
+  share: boolean
+): Promise<{ success: boolean; error?: string }> {
+  const result = await updateProfile(userId, { share_last_seen: share });
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  if (userId === presenceUserId) {
+    sharingLastSeen = share;
+    if (share) {
+      await trackSelf();
+      touchLastSeen();
+    } else {
+      await untrackSelf();
+    }
+  }
+  return { success: true };
+}
+
+/**
+ * "Last seen 5m ago", "Last seen just now", "Last seen on 3/14/2025"
+ */
+export function formatLastSeen(timestamp: string): string {
+  const formatted = formatMessageTime(timestamp);
+  if (formatted === 'Just now') return 'Last seen just now';
+  if (formatted.endsWith(' ago')) return `Last seen ${formatted}`;
+  return `Last seen on ${formatted}`;
+}
+
+// =====================================================
+// Typing indicators
+// =====================================================
+
+/**
+ * Subscribe to who else is typing in a conversation or Nest
+ * @param callback - Receives the IDs of users typing now, in the order they started
+ * @returns Unsubscribe function
+ */
+export function subscribeToTyping(
+  target: TypingTarget,
+  currentUserId: string,
+  callback: (typingUserIds: string[]) => void
+): () => void {
+  const room = joinRoom(target, currentUserId);
+  const typists = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const emit = () => callback(Array.from(typists.keys()));
+
+  const stopTyping = (userId: string) => {
+    const timer = typists.get(userId);
+    if (!timer) return;
+    clearTimeout(timer);
+    typists.delete(userId);
+    emit();
+  };
+
+  const listener = (payload: TypingPayload) => {
+    if (!payload?.user_id || payload.user_id === currentUserId) return;
+
+    if (!payload.is_typing) {
+      stopTyping(payload.user_id);
+      return;
+    }
+
+    const isNew = !typists.has(payload.user_id);
+    clearTimeout(typists.get(payload.user_id));
+    typists.set(payload.user_id, setTimeout(() => stopTyping(payload.user_id), TYPING_TIMEOUT_MS));
+    if (isNew) emit();
+  };
+
+  room.typingListeners.add(listener);
+
+  return () => {
+    room.typingListeners.delete(listener);
+    typists.forEach(timer => clearTimeout(timer));
+    typists.clear();
+    leaveRoom(target);
+  };
+}
+
+/**
+ * Broadcast the current user's typing in a conversation or Nest
+ * notify(true) on every keystroke is fine: sends are throttled
+ * @returns notify, and stop to call on unmount (clears the indicator)
+ */
+export function createTypingNotifier(
+  target: TypingTarget,
+  userId: string
+): { notify: (isTyping: boolean) => void; stop: () => void } {
+  const room = joinRoom(target, userId);
+  let lastSentAt = 0;
+  let typing = false;
+
+  const send = (isTyping: boolean) => {
+    const payload: TypingPayload = { user_id: userId, is_typing: isTyping };
+    room.channel
+      .send({ type: 'broadcast', event: TYPING_EVENT, payload })
+      .catch((error: any) => console.error('Error sending typing event:', error));
+  };
+
+  const notify = (isTyping: boolean) => {
+    if (isTyping) {
+      const now = Date.now();
+      if (typing && now - lastSentAt < TYPING_SEND_INTERVAL_MS) return;
+      typing = true;
+      lastSentAt = now;
+      send(true);
+    } else if (typing) {
+      typing = false;
+      lastSentAt = 0;
+      send(false);
+    }
+  };
+
+  return {
+    notify,
+    stop: () => {
+      notify(false);
+      leaveRoom(target);
+    },
+  };
+}
+
+/**
+ * "Sam is typing…", "Sam and Alex are typing…", "3 people are typing…"
+ */
+export function describeTyping(names: string[]): string {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+}
@@ -7,6 +7,13 @@
 import { supabase } from './supabase';
 import type { WeeklyAvailability } from './supabase';
 import { sanitizeName, sanitizeProfileText, sanitizeSubject } from '@/utils/sanitization';
+import { isValidTimezone } from '@/utils/timezone';
+import { normalizeMatchPreferences } from '@shared/preferences';
+import type { MatchPreferences } from '@shared/preferences';
+import type { MentorshipRole } from '@shared/mentorship';
+
+// Longest a user can pause matching for
+export const MAX_PAUSE_DAYS = 180;
 
 // =====================================================
 // Type Definitions
@@ -32,6 +39,15 @@ export interface UserProfile {
   study_goals: 'ace_exams' | 'understand_concepts' | 'just_pass' | 'make_friends' | null;
   badge_display_preference: 'show_all' | 'show_primary' | 'hide_all';
   primary_badge_id: string | null;
+  match_preferences: MatchPreferences;
+  timezone: string | null;
+  match_hour: number;
+  next_auto_match_at: string | null;
+  matching_paused_until: string | null;
+  group_matching_opt_in: boolean;
+  mentorship_role: MentorshipRole | null;
+  completed_subjects: string[];
+  share_last_seen: boolean;
   is_active: boolean;
   created_at: string;
 }
@@ -51,6 +67,14 @@ export interface ProfileUpdate {
   study_goals?: 'ace_exams' | 'understand_concepts' | 'just_pass' | 'make_friends' | null;
   badge_display_preference?: 'show_all' | 'show_primary' | 'hide_all';
   primary_badge_id?: string | null;
+  match_preferences?: MatchPreferences;
+  timezone?: string;
+  match_hour?: number;
+  matching_paused_until?: string | null;
+  group_matching_opt_in?: boolean;
+  mentorship_role?: MentorshipRole | null;
+  completed_subjects?: string[];
+  share_last_seen?: boolean;
 }
 
 /**
@@ -110,6 +134,15 @@ export async function getUserProfile(userId: string): Promise<ProfileResult> {
         study_goals,
         badge_display_preference,
         primary_badge_id,
+        match_preferences,
+        timezone,
+        match_hour,
+        next_auto_match_at,
+        matching_paused_until,
+        group_matching_opt_in,
+        mentorship_role,
+        completed_subjects,
+        share_last_seen,
         is_active,
         created_at
       `)
@@ -269,6 +302,97 @@ export async function updateProfile(
       sanitizedUpdates.primary_badge_id = updates.primary_badge_id;
     }
 
+    // Match preferences - drop unknown fields, validate enum values
+    if (updates.match_preferences !== undefined) {
+      const preferences = normalizeMatchPreferences(updates.match_preferences);
+      const validYears = ['Freshman', 'Sophomore', 'Junior', 'Senior', 'Graduate'];
+      const validStyles = ['quiet', 'with_music', 'group_discussion', 'teach_each_other'];
+      const validGoals = ['ace_exams', 'understand_concepts', 'just_pass', 'make_friends'];
+      if (
+        (preferences.allowedYears || []).some((y) => !validYears.includes(y)) ||
+        (preferences.preferredStyles || []).some((s) => !validStyles.includes(s)) ||
+        [...(preferences.excludedGoals || []), ...(preferences.preferredGoals || [])].some(
+          (g) => !validGoals.includes(g)
+        )
+      ) {
+        return {
+          success: false,
+          error: 'Invalid match preferences selected.',
+        };
+      }
+      sanitizedUpdates.match_preferences = preferences;
+    }
+
+    // Match schedule - IANA timezone and a local hour (0-23)
+    if (updates.timezone !== undefined) {
+      if (!isValidTimezone(updates.timezone)) {
+        return {
+          success: false,
+          error: 'Invalid timezone selected.',
+        };
+      }
+      sanitizedUpdates.timezone = updates.timezone;
+    }
+
+    if (updates.match_hour !== undefined) {
+      if (!Number.isInteger(updates.match_hour) || updates.match_hour < 0 || updates.match_hour > 23) {
+        return {
+          success: false,
+          error: 'Invalid match time selected.',
+        };
+      }
+      sanitizedUpdates.match_hour = updates.match_hour;
+    }
+
+    // Pause matching - a future moment up to MAX_PAUSE_DAYS away, or null to resume
+    if (updates.matching_paused_until !== undefined) {
+      if (updates.matching_paused_until !== null) {
+        const pausedUntil = new Date(updates.matching_paused_until).getTime();
+        const maxPause = Date.now() + MAX_PAUSE_DAYS * 24 * 60 * 60 * 1000;
+        if (isNaN(pausedUntil) || pausedUntil <= Date.now() || pausedUntil > maxPause) {
+          return {
+            success: false,
+            error: `Pick a resume date within the next ${MAX_PAUSE_DAYS} days.`,
+          };
+        }
+      }
+      sanitizedUpdates.matching_paused_until = updates.matching_paused_until;
+    }
+
+    // Group matching opt-in
+    if (updates.group_matching_opt_in !== undefined) {
+      sanitizedUpdates.group_matching_opt_in = updates.group_matching_opt_in === true;
+    }
+
+    // Online status and last seen sharing
+    if (updates.share_last_seen !== undefined) {
+      sanitizedUpdates.share_last_seen = updates.share_last_seen === true;
+    }
+
+    // Mentorship opt-in - a role, or null to opt out
+    if (updates.mentorship_role !== undefined) {
+      if (updates.mentorship_role !== null && !['mentor', 'mentee'].includes(updates.mentorship_role)) {
+        return {
+          success: false,
+          error: 'Invalid mentorship role selected.',
+        };
+      }
+      sanitizedUpdates.mentorship_role = updates.mentorship_role;
+    }
+
+    // Courses already taken (mentors) - sanitize each subject
+    if (updates.completed_subjects !== undefined) {
+      if (!Array.isArray(updates.completed_subjects)) {
+        return {
+          success: false,
+          error: 'Completed courses must be an array.',
+        };
+      }
+      sanitizedUpdates.completed_subjects = updates.completed_subjects
+        .map((subject) => sanitizeSubject(subject))
+        .filter((subject) => subject.trim().length > 0);
+    }
+
     // Availability - no sanitization needed, just pass through
     if (updates.availability !== undefined) {
       sanitizedUpdates.availability = updates.availability;
@@ -295,6 +419,15 @@ export async function updateProfile(
         study_goals,
         badge_display_preference,
         primary_badge_id,
+        match_preferences,
+        timezone,
+        match_hour,
+        next_auto_match_at,
+        matching_paused_until,
+        group_matching_opt_in,
+        mentorship_role,
+        completed_subjects,
+        share_last_seen,
         is_active,
         created_at
       `)
@@ -0,0 +1,52 @@
+// =====================================================
+// SUBJECTS SERVICE
+// =====================================================
+// Loads per-university subject aliases for the shared subject
+// normalization in @shared/subjects (matching and Nest search)
+
+import { supabase } from './supabase';
+import { buildSubjectAliasMap, buildSubjectAliases } from '@shared/subjects';
+import type { SubjectAliases } from '@shared/subjects';
+
+// Aliases change rarely; keep them for the app session
+const aliasCache = new Map<string, SubjectAliases>();
+
+/**
+ * Get the subject alias table for several universities in one query
+ * Returns a map keyed by university (empty tables on error)
+ */
+export async function getSubjectAliasesFor(universities: string[]): Promise<Map<string, SubjectAliases>> {
+  const result = new Map<string, SubjectAliases>();
+  const missing = Array.from(new Set(universities.filter(Boolean))).filter(university => {
+    const cached = aliasCache.get(university);
+    if (cached) result.set(university, cached);
+    return !cached;
+  });
+
+  if (missing.length === 0) return result;
+
+  const { data, error } = await supabase
+    .from('subject_aliases')
+    .select('university, alias, canonical')
+    .in('university', missing);
+
+  if (error) {
+    console.error('Error fetching subject aliases:', error);
+    missing.forEach(university => result.set(university, buildSubjectAliases(null)));
+    return result;
+  }
+
+  buildSubjectAliasMap(data, missing).forEach((aliases, university) => {
+    aliasCache.set(university, aliases);
+    result.set(university, aliases);
+  });
+  return result;
+}
+
+/**
+ * Get the subject alias table for one university
+ */
+export async function getSubjectAliases(university: string): Promise<SubjectAliases> {
+  const aliases = await getSubjectAliasesFor([university]);
+  return aliases.get(university) || buildSubjectAliases(null);
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { MatchPreferences } from '@shared/preferences';
 
 // Expo automatically loads .env files at the project root
 // These environment variables must be defined in .env file
@@ -62,11 +63,28 @@ export type Database = {
           onboarding_completed: boolean; // ADDED: Whether user completed initial profile setup
           onboarding_completed_at: string | null; // ADDED: Timestamp of onboarding completion
           last_auto_match_cycle: string | null; // Timestamp of last auto-matching run
+          timezone: string | null; // IANA timezone for the match schedule (NULL = UTC)
+          match_hour: number; // Local hour (0-23) the daily auto-match is delivered
+          next_auto_match_at: string | null; // Next scheduled auto-match, maintained by trigger
+          matching_paused_until: string | null; // Matching paused until this moment (NULL = active)
+          group_matching_opt_in: boolean; // Opted in to auto-created study group Nests
+          last_group_match_at: string | null; // When the user was last placed in an auto Nest
+          mentorship_role: 'mentor' | 'mentee' | null; // Opted in to mentorship matching (NULL = not opted in)
+          completed_subjects: string[]; // Courses already taken, what a mentor can help with
+          last_mentorship_match_at: string | null; // When the user was last given a mentorship match
           badge_display_preference: 'show_all' | 'show_primary' | 'hide_all'; // How to display badges
           primary_badge_id: string | null; // User's primary/featured badge
+          match_preferences: MatchPreferences; // Deal-breakers and soft preferences for matching
           total_matches: number; // Total number of matches
           successful_matches: number; // Number of successful matches
           avg_messages_per_match: number; // Average messages per match
+          feedback_received: number; // Ratings partners left on this user's matches
+          avg_feedback_rating: number | null; // Average partner rating (1-5)
+          unstudied_matches: number; // Active matches where nobody reports studying together
+          expired_matches: number; // Matches that expired because one side never replied
+          last_matched_at: string | null; // Latest auto or swipe match, for exposure fairness
+          share_last_seen: boolean; // Whether partners see online status and last seen
+          last_seen_at: string | null; // When the user was last in the app (NULL = unknown or hidden)
           is_active: boolean; // Account active status (false = soft deleted)
           created_at: string; // Timestamp of account creation
         };
@@ -91,11 +109,28 @@ export type Database = {
           onboarding_completed?: boolean; // Optional: Defaults to false
           onboarding_completed_at?: string | null;
           last_auto_match_cycle?: string | null;
+          timezone?: string | null;
+          match_hour?: number;
+          next_auto_match_at?: string | null;
+          matching_paused_until?: string | null;
+          group_matching_opt_in?: boolean;
+          last_group_match_at?: string | null;
+          mentorship_role?: 'mentor' | 'mentee' | null;
+          completed_subjects?: string[];
+          last_mentorship_match_at?: string | null;
           badge_display_preference?: 'show_all' | 'show_primary' | 'hide_all';
           primary_badge_id?: string | null;
+          match_preferences?: MatchPreferences;
           total_matches?: number;
           successful_matches?: number;
           avg_messages_per_match?: number;
+          feedback_received?: number;
+          avg_feedback_rating?: number | null;
+          unstudied_matches?: number;
+          expired_matches?: number;
+          last_matched_at?: string | null;
+          share_last_seen?: boolean; // Optional: Defaults to true
+          last_seen_at?: string | null;
           is_active?: boolean; // Optional: Defaults to true
           created_at?: string; // Optional: Auto-set to now() if not provided
         };
@@ -120,11 +155,28 @@ export type Database = {
           onboarding_completed?: boolean;
           onboarding_completed_at?: string | null;
           last_auto_match_cycle?: string | null;
+          timezone?: string | null;
+          match_hour?: number;
+          next_auto_match_at?: string | null;
+          matching_paused_until?: string | null;
+          group_matching_opt_in?: boolean;
+          last_group_match_at?: string | null;
+          mentorship_role?: 'mentor' | 'mentee' | null;
+          completed_subjects?: string[];
+          last_mentorship_match_at?: string | null;
           badge_display_preference?: 'show_all' | 'show_primary' | 'hide_all';
           primary_badge_id?: string | null;
+          match_preferences?: MatchPreferences;
           total_matches?: number;
           successful_matches?: number;
           avg_messages_per_match?: number;
+          feedback_received?: number;
+          avg_feedback_rating?: number | null;
+          unstudied_matches?: number;
+          expired_matches?: number;
+          last_matched_at?: string | null;
+          share_last_seen?: boolean;
+          last_seen_at?: string | null;
           is_active?: boolean;
           created_at?: string;
         };
@@ -135,28 +187,46 @@ export type Database = {
           id: string; // UUID primary key
           user1_id: string; // Foreign key to users table
           user2_id: string; // Foreign key to users table
-          match_type: 'auto' | 'manual'; // How match was created: algorithm or mutual swipe
-          status: 'pending' | 'active' | 'unmatched'; // Current state of the match
+          match_type: 'auto' | 'manual' | 'mentorship'; // How match was created: algorithm, mutual swipe or mentorship mode
+          status: 'pending' | 'active' | 'unmatched' | 'expired'; // Current state of the match
           matched_at: string; // Timestamp when match was created
           ai_message_sent: boolean; // Whether AI icebreaker message was sent
+          nudged_at: string | null; // When the quiet side of a stale match was nudged
+          expired_at: string | null; // When the match expired for lack of replies
+          unmatched_at: string | null; // When a partner ended the match
+          unmatched_by: string | null; // Which partner ended it
+          unmatch_reason: 'not_responsive' | 'different_goals' | 'inappropriate' | null; // Why, if they said
+          idempotency_key: string | null; // 'auto:<id>:<id>' for auto matches, so a pair is matched once
         };
         Insert: {
           id?: string; // Optional: UUID auto-generated if not provided
           user1_id: string; // Required
           user2_id: string; // Required
-          match_type: 'auto' | 'manual'; // Required
-          status?: 'pending' | 'active' | 'unmatched'; // Optional: Defaults to 'pending'
+          match_type: 'auto' | 'manual' | 'mentorship'; // Required
+          status?: 'pending' | 'active' | 'unmatched' | 'expired'; // Optional: Defaults to 'pending'
           matched_at?: string; // Optional: Defaults to now()
           ai_message_sent?: boolean; // Optional: Defaults to false
+          nudged_at?: string | null;
+          expired_at?: string | null;
+          unmatched_at?: string | null;
+          unmatched_by?: string | null;
+          unmatch_reason?: 'not_responsive' | 'different_goals' | 'inappropriate' | null;
+          idempotency_key?: string | null;
         };
         Update: {
           id?: string;
           user1_id?: string;
           user2_id?: string;
-          match_type?: 'auto' | 'manual';
-          status?: 'pending' | 'active' | 'unmatched';
+          match_type?: 'auto' | 'manual' | 'mentorship';
+          status?: 'pending' | 'active' | 'unmatched' | 'expired';
           matched_at?: string;
           ai_message_sent?: boolean;
+          nudged_at?: string | null;
+          expired_at?: string | null;
+          unmatched_at?: string | null;
+          unmatched_by?: string | null;
+          unmatch_reason?: 'not_responsive' | 'different_goals' | 'inappropriate' | null;
+          idempotency_key?: string | null;
         };
       };
       conversations: {
@@ -208,7 +278,8 @@ export type Database = {
           is_ai_generated: boolean; // Whether message was generated by AI
           created_at: string; // Timestamp when message was sent
           updated_at: string; // Timestamp when message was last updated
-          deleted_at: string | null; // Soft delete timestamp
+          edited_at: string | null; // When the sender last edited it (NULL = never)
+          deleted_at: string | null; // Deleted for everyone; the row stays as a tombstone
           client_id: string | null; // Client-side ID for deduplication
         };
         Insert: {
@@ -303,6 +374,39 @@ export type Database = {
           created_at?: string;
         };
       };
+      match_feedback: {
+        // One partner's answer to the post-match feedback prompt
+        Row: {
+          id: string; // UUID primary key
+          match_id: string; // Foreign key to matches table
+          rater_id: string; // Foreign key to users table (who answered)
+          studied_together: boolean; // Whether the pair actually studied together
+          rating: number; // 1-5, how the partnership went
+          comment: string | null; // Optional note, up to 500 characters
+          created_at: string; // Timestamp of the first answer
+          updated_at: string; // Timestamp of the last change
+        };
+        Insert: {
+          id?: string; // Optional: UUID auto-generated if not provided
+          match_id: string; // Required
+          rater_id: string; // Required
+          studied_together: boolean; // Required
+          rating: number; // Required
+          comment?: string | null; // Optional
+          created_at?: string; // Optional: Defaults to now()
+          updated_at?: string; // Optional: Defaults to now()
+        };
+        Update: {
+          id?: string;
+          match_id?: string;
+          rater_id?: string;
+          studied_together?: boolean;
+          rating?: number;
+          comment?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       nests: {
         Row: {
           id: string;
@@ -311,7 +415,7 @@ export type Database = {
           class_name: string | null;
           description: string | null;
           university: string;
-          created_by: string;
+          created_by: string | null; // NULL for auto-created Nests
           member_limit: number;
           is_auto_created: boolean;
           created_at: string;
@@ -375,6 +479,7 @@ export type Database = {
           content: string;
           created_at: string;
           updated_at: string;
+          edited_at: string | null;
           deleted_at: string | null;
         };
         Insert: {
@@ -462,6 +567,36 @@ export type Database = {
         Args: { user_id: string }; // User ID to update stats for
         Returns: void; // No return value
       };
+      get_pending_match_feedback: {
+        // Matches old enough for the feedback prompt that the user hasn't rated
+        // Defined in migration 20241210000007_create_match_feedback.sql
+        Args: { p_user_id: string; p_min_age?: string }; // p_min_age is a Postgres interval
+        Returns: { match_id: string; partner_id: string; matched_at: string }[];
+      };
+      touch_last_seen: {
+        // Stamps the caller's last_seen_at if they share it
+        // Defined in migration 20241210000019_add_presence.sql
+        Args: Record<string, never>;
+        Returns: void;
+      };
+      edit_message: {
+        // Replaces the text of the caller's message within 15 minutes of sending
+        // Defined in migration 20241210000020_add_message_editing.sql
+        Args: { p_message_id: string; p_content: string };
+        Returns: Database['public']['Tables']['messages']['Row'];
+      };
+      delete_message: {
+        // Deletes the caller's message for everyone, leaving a tombstone
+        // Defined in migration 20241210000020_add_message_editing.sql
+        Args: { p_message_id: string };
+        Returns: Database['public']['Tables']['messages']['Row'];
+      };
+      get_last_seen: {
+        // Last seen of the caller's chat partners and fellow Nest members
+        // Defined in migration 20241210000019_add_presence.sql
+        Args: { p_user_ids: string[] };
+        Returns: { user_id: string; last_seen_at: string }[];
+      };
     };
     // Enums - no custom enums defined in this database
     Enums: Record<string, never>;
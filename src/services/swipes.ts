@@ -0,0 +1,96 @@
+// =====================================================
+// SWIPE SERVICE
+// =====================================================
+// Records swipes through the swipe Edge Function, which calls the
+// record_swipe RPC. A mutual like creates the match and conversation
+// exactly once server-side, even when both users swipe at the same
+// moment, and both users are notified. Recent swipes can be undone
+// (undo_swipe RPC).
+
+import { supabase } from './supabase';
+
+export type SwipeAction = 'like' | 'skip';
+
+// How many of the latest swipes the deck lets the user undo
+export const SWIPE_UNDO_LIMIT = 3;
+
+// A swipe match can only be undone this soon after it was made (see undo_swipe)
+export const MATCH_UNDO_GRACE_MINUTES = 5;
+
+export interface SwipeMatch {
+  id: string;
+  user1_id: string;
+  user2_id: string;
+  match_type: 'auto' | 'manual' | 'mentorship';
+  status: string;
+  matched_at: string;
+  user1: { id: string; full_name: string | null; profile_photo_url: string | null } | null;
+  user2: { id: string; full_name: string | null; profile_photo_url: string | null } | null;
+}
+
+export interface SwipeResult {
+  success: boolean;
+  swipeId?: string | null;
+  match?: SwipeMatch | null; // Set when the pair is now matched
+  matchCreated?: boolean; // True only for the swipe that created the match
+  error?: string;
+}
+
+export interface UndoSwipeResult {
+  success: boolean;
+  matchRemoved?: boolean; // The undone like had created a match, now removed
+  error?: string;
+}
+
+/**
+ * Record a like or skip on another user
+ */
+export async function recordSwipe(targetUserId: string, action: SwipeAction): Promise<SwipeResult> {
+  try {
+    const { data, error } = await supabase.functions.invoke('swipe', {
+      body: { targetUserId, action },
+    });
+
+    if (error) {
+      console.error('Error recording swipe:', error);
+      return { success: false, error: error.message || 'Failed to record swipe' };
+    }
+
+    if (!data?.success) {
+      return { success: false, error: data?.error || 'Failed to record swipe' };
+    }
+
+    return {
+      success: true,
+      swipeId: data.swipeId ?? null,
+      match: data.match ?? null,
+      matchCreated: data.matchCreated === true,
+    };
+  } catch (error) {
+    console.error('recordSwipe error:', error);
+    return { success: false, error: 'Failed to record swipe' };
+  }
+}
+
+/**
+ * Undo the user's swipe on another user so they can show up again
+ * Fails once a match from the swipe is past the grace window or has messages
+ */
+export async function undoSwipe(targetUserId: string): Promise<UndoSwipeResult> {
+  try {
+    const { data, error } = await supabase.rpc('undo_swipe', {
+      p_target_user_id: targetUserId,
+    });
+
+    if (error) {
+      console.error('Error undoing swipe:', error);
+      return { success: false, error: error.message || 'Failed to undo swipe' };
+    }
+
+    const result = Array.isArray(data) ? data[0] : data;
+    return { success: true, matchRemoved: result?.match_removed === true };
+  } catch (error) {
+    console.error('undoSwipe error:', error);
+    return { success: false, error: 'Failed to undo swipe' };
+  }
+}
@@ -0,0 +1,50 @@
+// =====================================================
+// UNMATCH SERVICE
+// =====================================================
+// Either partner can end a match (unmatch_match RPC, migration
+// 20241210000017). The match is kept as 'unmatched', so the pair is
+// never matched again, and the conversation leaves both chat lists.
+
+import { supabase } from './supabase';
+import { trackEvent, AnalyticsEvents } from './analytics';
+
+export type UnmatchReason = 'not_responsive' | 'different_goals' | 'inappropriate';
+
+// Choices offered when unmatching, in display order
+export const UNMATCH_REASONS: { value: UnmatchReason; label: string }[] = [
+  { value: 'not_responsive', label: 'Not responsive' },
+  { value: 'different_goals', label: 'Different goals' },
+  { value: 'inappropriate', label: 'Inappropriate' },
+];
+
+/**
+ * End a match the current user is part of
+ * Safe to repeat: unmatching an already unmatched match succeeds
+ */
+export async function unmatchUser(
+  matchId: string,
+  reason?: UnmatchReason | null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc('unmatch_match', {
+      p_match_id: matchId,
+      p_reason: reason ?? null,
+    });
+
+    if (error) {
+      console.error('Error unmatching:', error);
+      return { success: false, error: error.message || 'Failed to unmatch' };
+    }
+
+    await trackEvent({
+      eventType: AnalyticsEvents.MATCH_UNMATCHED,
+      category: 'matching',
+      properties: { match_id: matchId, reason: reason ?? null },
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('unmatchUser error:', error);
+    return { success: false, error: 'Failed to unmatch' };
+  }
+}
@@ -35,7 +35,8 @@ export interface Message {
   read_at?: string | null;
   created_at: string;
   updated_at: string;
-  deleted_at: string | null;
+  edited_at?: string | null; // Set once the sender edits it
+  deleted_at: string | null; // Set when deleted for everyone (content is cleared)
   client_id: string | null;
 }
 
@@ -46,7 +47,7 @@ export interface ConversationWithMatch extends Conversation {
     user1_id: string;
     user2_id: string;
     status: string;
-    match_type: 'auto' | 'manual';
+    match_type: 'auto' | 'manual' | 'mentorship';
     matched_at: string;
     ai_message_sent: boolean;
     user1: {
@@ -109,7 +110,7 @@ export interface Nest {
   class_name: string | null;
   description: string | null;
   university: string;
-  created_by: string;
+  created_by: string | null; // NULL for auto-created Nests
   member_limit: number;
   is_auto_created: boolean;
   created_at: string;
@@ -136,6 +137,7 @@ export interface NestMessage {
   content: string;
   created_at: string;
   updated_at: string;
+  edited_at?: string | null;
   deleted_at: string | null;
 }
 
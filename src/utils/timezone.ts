@@ -0,0 +1,35 @@
+// Timezone helpers for the per-user auto-match schedule
+// The schedule itself is computed server-side (users.next_auto_match_at)
+
+/**
+ * IANA timezone the device is set to, e.g. "America/New_York"
+ */
+export function getDeviceTimezone(): string | null {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a string is a timezone the runtime recognizes
+ */
+export function isValidTimezone(timezone: string): boolean {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a 0-23 hour for display, e.g. 8 -> "8 AM", 0 -> "12 AM"
+ */
+export function formatMatchHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour} ${suffix}`;
+}
@@ -0,0 +1,29 @@
+// =====================================================
+// SCHEDULED FUNCTION AUTH
+// =====================================================
+// Who may invoke the scheduled edge functions (auto-match,
+// match-lifecycle). They run with the service role key, so the public
+// anon key alone must not be enough to trigger them.
+
+// Compare without exiting early on the first differing character
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * The cron sends the shared CRON_SECRET as x-cron-secret; anyone else
+ * (manual and dry runs) must use the service role key
+ */
+export function isAuthorizedCaller(req: Request, serviceRoleKey: string): boolean {
+  const cronSecret = Deno.env.get('CRON_SECRET');
+  const providedSecret = req.headers.get('x-cron-secret');
+  if (cronSecret && providedSecret && timingSafeEqual(providedSecret, cronSecret)) return true;
+
+  const authHeader = req.headers.get('Authorization') || '';
+  return timingSafeEqual(authHeader, `Bearer ${serviceRoleKey}`);
+}
@@ -0,0 +1,144 @@
+// =====================================================
+// ELIGIBILITY + PAIRING BENCHMARK
+// =====================================================
+// Times the batched eligibility pipeline and cohort pairing on synthetic
+// users, with no database involved.
+//
+// Usage (from supabase/functions):
+//   deno task bench:matching                 # 1k, 10k and 50k users
+//   deno task bench:matching 5000 20000      # custom cohort sizes
+//
+// Users are spread across campuses of CAMPUS_SIZE; each has a handful of
+// past matches and swipes so the exclusion sets are realistically sized.
+
+import { buildExclusionIndex, filterEligibleCandidates, hasMatched } from './index.ts';
+import type { PairExclusions } from './index.ts';
+import { pairCohort } from '../pairing/index.ts';
+import type { ScoringUser } from '../scoring/index.ts';
+
+const DEFAULT_SIZES = [1000, 10000, 50000];
+const CAMPUS_SIZE = 1000;
+const PAST_MATCHES_PER_USER = 5;
+const SWIPES_PER_USER = 20;
+const DECK_SAMPLE = 1000; // Users whose swipe deck is filtered per run
+
+const SUBJECTS = Array.from({ length: 60 }, (_, i) => `Subject ${i + 1}`);
+// The values the app writes, so the style and goal scorers take their real paths
+const STYLES = ['quiet', 'with_music', 'group_discussion', 'teach_each_other'];
+const GOALS = ['ace_exams', 'understand_concepts', 'just_pass', 'make_friends'];
+const YEARS = ['Freshman', 'Sophomore', 'Junior', 'Senior', 'Graduate'];
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const SLOTS = ['morning', 'afternoon', 'evening', 'none'];
+
+// Deterministic PRNG (mulberry32) so runs are comparable
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function pickMany<T>(random: () => number, items: T[], count: number): T[] {
+  const chosen = new Set<T>();
+  while (chosen.size < count) chosen.add(pick(random, items));
+  return Array.from(chosen);
+}
+
+function generateUsers(count: number, random: () => number): ScoringUser[] {
+  return Array.from({ length: count }, (_, i) => {
+    // Half legacy slot names, half time ranges, as in a partly migrated table
+    const availability: Record<string, unknown> = {};
+    for (const day of DAYS) {
+      if (random() < 0.5) {
+        availability[day] = pick(random, SLOTS);
+      } else {
+        const start = 8 + Math.floor(random() * 10);
+        const end = Math.min(start + 1 + Math.floor(random() * 4), 22);
+        const hhmm = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+        availability[day] = {
+          available: random() < 0.7,
+          timeSlots: [{ start: hhmm(start), end: hhmm(end) }],
+        };
+      }
+    }
+    const totalMatches = Math.floor(random() * 10);
+    return {
+      id: `user-${String(i).padStart(6, '0')}`,
+      university: `University ${Math.floor(i / CAMPUS_SIZE) + 1}`,
+      year: pick(random, YEARS),
+      preferred_subjects: pickMany(random, SUBJECTS, 2 + Math.floor(random() * 4)),
+      availability,
+      study_style: pick(random, STYLES),
+      study_goals: pick(random, GOALS),
+      total_matches: totalMatches,
+      successful_matches: Math.floor(random() * (totalMatches + 1)),
+      avg_messages_per_match: random() * 20,
+    };
+  });
+}
+
+function generateExclusions(users: ScoringUser[], random: () => number): PairExclusions {
+  const campusPeer = (index: number) => {
+    const campusStart = Math.floor(index / CAMPUS_SIZE) * CAMPUS_SIZE;
+    const campusEnd = Math.min(campusStart + CAMPUS_SIZE, users.length);
+    return users[campusStart + Math.floor(random() * (campusEnd - campusStart))].id;
+  };
+
+  const matches: Array<[string, string]> = [];
+  const swipes: Array<[string, string]> = [];
+  users.forEach((user, index) => {
+    for (let i = 0; i < PAST_MATCHES_PER_USER; i++) matches.push([user.id, campusPeer(index)]);
+    for (let i = 0; i < SWIPES_PER_USER; i++) swipes.push([user.id, campusPeer(index)]);
+  });
+  return { matches, swipes };
+}
+
+function time<T>(run: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = run();
+  return { result, ms: Math.round(performance.now() - start) };
+}
+
+function benchmark(size: number) {
+  const random = createRandom(size);
+  const users = generateUsers(size, random);
+  const exclusions = generateExclusions(users, random);
+
+  const index = time(() => buildExclusionIndex(exclusions));
+
+  const campuses = new Map<string, ScoringUser[]>();
+  for (const user of users) {
+    const campus = campuses.get(user.university!) || [];
+    campus.push(user);
+    campuses.set(user.university!, campus);
+  }
+  const deckUsers = users.slice(0, DECK_SAMPLE);
+  const decks = time(() =>
+    deckUsers.reduce(
+      (total, user) =>
+        total + filterEligibleCandidates(user.id, campuses.get(user.university!)!, index.result).length,
+      0
+    )
+  );
+
+  const pairing = time(() =>
+    pairCohort(users, {
+      isExcludedPair: (a, b) => hasMatched(index.result, a.id, b.id),
+    })
+  );
+
+  console.log(`\n${size.toLocaleString()} users (${campuses.size} campuses of ${CAMPUS_SIZE})`);
+  console.log(`  exclusion index:   ${index.ms} ms (${exclusions.matches.length + exclusions.swipes.length} rows, 1 RPC)`);
+  console.log(`  swipe decks:       ${decks.ms} ms for ${deckUsers.length} users (${decks.result} cards, 1 RPC each)`);
+  console.log(`  cohort pairing:    ${pairing.ms} ms (${pairing.result.stats.pairCount} pairs, mean ${pairing.result.stats.meanScore})`);
+}
+
+const sizes = Deno.args.length > 0 ? Deno.args.map(Number) : DEFAULT_SIZES;
+for (const size of sizes) benchmark(size);
@@ -0,0 +1,104 @@
+// =====================================================
+// BATCHED ELIGIBILITY
+// =====================================================
+// Loads every existing match and swipe for a set of users in one
+// call (get_pair_exclusions RPC) and answers "can these two be
+// paired?" from memory. Replaces per-candidate lookups in
+// runAutoMatching, getCandidateFeedPage and the auto-match function.
+
+import { pairKey } from '../pairing/index.ts';
+
+// Shape returned by the get_pair_exclusions RPC
+export interface PairExclusions {
+  matches: Array<[string, string]>; // [user1_id, user2_id]
+  swipes: Array<[string, string]>; // [user_id, target_user_id]
+}
+
+export interface ExclusionIndex {
+  matchedPairs: Set<string>; // pairKey() of every pair that has matched
+  swipedTargets: Map<string, Set<string>>; // user_id -> target_user_ids they swiped on
+}
+
+// PostgREST caps responses at max_rows (1000 in config.toml)
+export const PAGE_SIZE = 1000;
+
+/**
+ * Build in-memory lookup sets from the RPC payload
+ */
+export function buildExclusionIndex(exclusions: PairExclusions | null): ExclusionIndex {
+  const matchedPairs = new Set<string>();
+  const swipedTargets = new Map<string, Set<string>>();
+
+  for (const [user1Id, user2Id] of exclusions?.matches || []) {
+    matchedPairs.add(pairKey(user1Id, user2Id));
+  }
+
+  for (const [userId, targetId] of exclusions?.swipes || []) {
+    let targets = swipedTargets.get(userId);
+    if (!targets) {
+      targets = new Set<string>();
+      swipedTargets.set(userId, targets);
+    }
+    targets.add(targetId);
+  }
+
+  return { matchedPairs, swipedTargets };
+}
+
+/**
+ * Whether two users have ever been matched
+ */
+export function hasMatched(index: ExclusionIndex, userId1: string, userId2: string): boolean {
+  return index.matchedPairs.has(pairKey(userId1, userId2));
+}
+
+/**
+ * Whether a user has already swiped (like or skip) on a target
+ */
+export function hasSwiped(index: ExclusionIndex, userId: string, targetId: string): boolean {
+  return index.swipedTargets.get(userId)?.has(targetId) ?? false;
+}
+
+/**
+ * Single pass over candidates for the swipe deck:
+ * drops self, anyone already swiped on and anyone already matched
+ */
+export function filterEligibleCandidates<U extends { id: string }>(
+  userId: string,
+  candidates: U[],
+  index: ExclusionIndex
+): U[] {
+  const swiped = index.swipedTargets.get(userId);
+  return candidates.filter(
+    (candidate) =>
+      candidate.id !== userId &&
+      !swiped?.has(candidate.id) &&
+      !index.matchedPairs.has(pairKey(userId, candidate.id))
+  );
+}
+
+/**
+ * PostgREST .or() filter for users whose matching isn't paused
+ * Paused users (users.matching_paused_until) are left out of
+ * auto-matching and swipe decks until the pause ends
+ */
+export function notPausedFilter(now: string = new Date().toISOString()): string {
+  return `matching_paused_until.is.null,matching_paused_until.lte.${now}`;
+}
+
+/**
+ * Read a whole result set in PAGE_SIZE chunks
+ * fetchPage receives an inclusive row range, like PostgREST's .range()
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: any }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
@@ -0,0 +1,180 @@
+// =====================================================
+// SCORING EXPERIMENTS
+// =====================================================
+// Compares scoring configs on real matches. Each arm points at a
+// scoring version; users are hashed into arms, so a user stays in the
+// same arm across runs and on both the client and the Edge Function.
+//
+// A pair is scored with its users' arm when both share it, and with
+// the control arm otherwise. The arm that scored a match is stored in
+// match_analytics (experiment_id, experiment_arm), and
+// get_experiment_outcomes() reports success tracking per arm.
+
+import { getScoringConfig } from '../scoring/index.ts';
+import type { ScoringConfig } from '../scoring/index.ts';
+
+export interface ExperimentArm {
+  id: string;
+  scoringVersion: string; // Key into SCORING_CONFIGS
+  allocation: number; // Relative share of users
+}
+
+export interface ScoringExperiment {
+  id: string;
+  description: string;
+  controlArm: string; // Arm used for pairs whose users are in different arms
+  arms: ExperimentArm[];
+}
+
+interface PairUser {
+  id: string;
+}
+
+export const SCORING_EXPERIMENTS: Record<string, ScoringExperiment> = {
+  'weights-2024-12': {
+    id: 'weights-2024-12',
+    description: 'Heavier subject weight and slower freshness decay against v4',
+    controlArm: 'control',
+    arms: [
+      { id: 'control', scoringVersion: 'v4', allocation: 50 },
+      { id: 'subjects_heavy', scoringVersion: 'v4-subjects-heavy', allocation: 25 },
+      { id: 'slow_decay', scoringVersion: 'v4-slow-decay', allocation: 25 },
+    ],
+  },
+  // weights-2024-12 restarted on v5 when feedback joined scoring, so no
+  // arm mixes configs with and without it
+  'weights-2025-01': {
+    id: 'weights-2025-01',
+    description: 'Heavier subject weight and slower freshness decay against v5',
+    controlArm: 'control',
+    arms: [
+      { id: 'control', scoringVersion: 'v5', allocation: 50 },
+      { id: 'subjects_heavy', scoringVersion: 'v5-subjects-heavy', allocation: 25 },
+      { id: 'slow_decay', scoringVersion: 'v5-slow-decay', allocation: 25 },
+    ],
+  },
+  // weights-2025-01 restarted on v6 when profile interests joined scoring
+  'weights-2025-02': {
+    id: 'weights-2025-02',
+    description: 'Heavier subject weight and slower freshness decay against v6',
+    controlArm: 'control',
+    arms: [
+      { id: 'control', scoringVersion: 'v6', allocation: 50 },
+      { id: 'subjects_heavy', scoringVersion: 'v6-subjects-heavy', allocation: 25 },
+      { id: 'slow_decay', scoringVersion: 'v6-slow-decay', allocation: 25 },
+    ],
+  },
+  // weights-2025-02 restarted on v7 when the wait bonus joined scoring
+  'weights-2025-03': {
+    id: 'weights-2025-03',
+    description: 'Heavier subject weight and slower freshness decay against v7',
+    controlArm: 'control',
+    arms: [
+      { id: 'control', scoringVersion: 'v7', allocation: 50 },
+      { id: 'subjects_heavy', scoringVersion: 'v7-subjects-heavy', allocation: 25 },
+      { id: 'slow_decay', scoringVersion: 'v7-slow-decay', allocation: 25 },
+    ],
+  },
+};
+
+// Set to null to score everyone with CURRENT_SCORING_VERSION
+export const ACTIVE_EXPERIMENT_ID: string | null = 'weights-2025-03';
+
+const armConfigCache = new Map<string, ScoringConfig>();
+
+/**
+ * The experiment auto-matching currently runs, if any
+ */
+export function getActiveExperiment(): ScoringExperiment | null {
+  if (!ACTIVE_EXPERIMENT_ID) return null;
+  const experiment = SCORING_EXPERIMENTS[ACTIVE_EXPERIMENT_ID];
+  if (!experiment) {
+    throw new Error(`Unknown scoring experiment: ${ACTIVE_EXPERIMENT_ID}`);
+  }
+  return experiment;
+}
+
+/**
+ * FNV-1a hash of the experiment and user, as a fraction in [0, 1)
+ * The murmur3 finalizer spreads similar ids across the whole range
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 4294967296;
+}
+
+/**
+ * Deterministic arm for a user: the same user always lands in the same arm
+ */
+export function assignArm(experiment: ScoringExperiment, userId: string): ExperimentArm {
+  const total = experiment.arms.reduce((sum, arm) => sum + arm.allocation, 0);
+  let point = hashToUnit(`${experiment.id}:${userId}`) * total;
+  for (const arm of experiment.arms) {
+    if (point < arm.allocation) return arm;
+    point -= arm.allocation;
+  }
+  return experiment.arms[experiment.arms.length - 1];
+}
+
+/**
+ * Scoring config for an arm, tagged so scores record the arm that produced them
+ */
+export function getArmConfig(experiment: ScoringExperiment, arm: ExperimentArm): ScoringConfig {
+  const cacheKey = `${experiment.id}:${arm.id}`;
+  let config = armConfigCache.get(cacheKey);
+  if (!config) {
+    config = { ...getScoringConfig(arm.scoringVersion), experiment: { id: experiment.id, arm: arm.id } };
+    armConfigCache.set(cacheKey, config);
+  }
+  return config;
+}
+
+function getControlArm(experiment: ScoringExperiment): ExperimentArm {
+  return experiment.arms.find(arm => arm.id === experiment.controlArm) || experiment.arms[0];
+}
+
+/**
+ * Arm a pair is scored with: the users' shared arm, otherwise control
+ */
+export function assignPairArm(experiment: ScoringExperiment, user1Id: string, user2Id: string): ExperimentArm {
+  const arm1 = assignArm(experiment, user1Id);
+  return arm1.id === assignArm(experiment, user2Id).id ? arm1 : getControlArm(experiment);
+}
+
+/**
+ * Per-pair config lookup for pairCohort and the swipe deck
+ * Without an experiment every pair gets the fallback config
+ */
+export function createPairConfigResolver(
+  experiment: ScoringExperiment | null,
+  fallback: ScoringConfig = getScoringConfig()
+): (user1: PairUser, user2: PairUser) => ScoringConfig {
+  if (!experiment) return () => fallback;
+
+  // Arms are memoized per user; cohort pairing asks for every pair
+  const arms = new Map<string, ExperimentArm>();
+  const armOf = (userId: string) => {
+    let arm = arms.get(userId);
+    if (!arm) {
+      arm = assignArm(experiment, userId);
+      arms.set(userId, arm);
+    }
+    return arm;
+  };
+  const control = getControlArm(experiment);
+
+  return (user1, user2) => {
+    const arm1 = armOf(user1.id);
+    const arm = arm1.id === armOf(user2.id).id ? arm1 : control;
+    return getArmConfig(experiment, arm);
+  };
+}
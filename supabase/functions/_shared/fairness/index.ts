@@ -0,0 +1,104 @@
+// =====================================================
+// EXPOSURE FAIRNESS
+// =====================================================
+// How long each user has waited for a match. Popular profiles match
+// almost every cycle while others wait weeks, so from scoring v7 a
+// long wait earns a bonus on the adjusted score (see calculateWaitBonus)
+// and greedy pairing visits the longest-waiting users first.
+//
+// A user's wait runs from their last auto or swipe match
+// (users.last_matched_at, migration 20241210000018), or from signing
+// up if they have never matched.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * The subset of a user row wait times are read from
+ */
+export interface FairnessUser {
+  last_matched_at?: string | null;
+  created_at?: string | null;
+}
+
+export interface WaitTimeBucket {
+  label: string;
+  minDays: number; // Inclusive; the bucket runs to the next one's minDays
+  count: number;
+}
+
+// Wait times across a cohort (CohortStats.waitTimes), in days
+export interface WaitTimeDistribution {
+  measuredCount: number; // Users with a known wait
+  unknownCount: number; // No last match or sign-up date
+  meanDays: number;
+  medianDays: number;
+  p90Days: number;
+  maxDays: number;
+  buckets: WaitTimeBucket[];
+}
+
+const WAIT_BUCKETS: Omit<WaitTimeBucket, 'count'>[] = [
+  { label: 'Under 1 day', minDays: 0 },
+  { label: '1-3 days', minDays: 1 },
+  { label: '3-7 days', minDays: 3 },
+  { label: '1-2 weeks', minDays: 7 },
+  { label: '2-4 weeks', minDays: 14 },
+  { label: '4+ weeks', minDays: 28 },
+];
+
+/**
+ * Days since a user's last match (or sign-up), or null if neither is known
+ * @param now - Epoch milliseconds the wait is measured to
+ */
+export function daysWaiting(user: FairnessUser, now: number = Date.now()): number | null {
+  const since = user.last_matched_at || user.created_at;
+  if (!since) return null;
+
+  const sinceMs = Date.parse(since);
+  if (Number.isNaN(sinceMs)) return null;
+  return Math.max(0, (now - sinceMs) / MS_PER_DAY);
+}
+
+/**
+ * Value at a fraction (0-1) of a sorted list, by nearest rank
+ */
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil(fraction * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 10) / 10;
+}
+
+/**
+ * Distribution of wait times across a pool of users
+ */
+export function summarizeWaitTimes(users: FairnessUser[], now: number = Date.now()): WaitTimeDistribution {
+  const waits: number[] = [];
+  for (const user of users) {
+    const days = daysWaiting(user, now);
+    if (days !== null) waits.push(days);
+  }
+  waits.sort((x, y) => x - y);
+
+  const buckets = WAIT_BUCKETS.map(bucket => ({ ...bucket, count: 0 }));
+  for (const days of waits) {
+    let index = buckets.length - 1;
+    while (index > 0 && days < buckets[index].minDays) index--;
+    buckets[index].count++;
+  }
+
+  const total = waits.reduce((sum, days) => sum + days, 0);
+
+  return {
+    measuredCount: waits.length,
+    unknownCount: users.length - waits.length,
+    meanDays: waits.length > 0 ? roundDays(total / waits.length) : 0,
+    medianDays: roundDays(percentile(waits, 0.5)),
+    p90Days: roundDays(percentile(waits, 0.9)),
+    maxDays: roundDays(waits.length > 0 ? waits[waits.length - 1] : 0),
+    buckets,
+  };
+}
@@ -0,0 +1,248 @@
+// =====================================================
+// GROUP MATCHING
+// =====================================================
+// Clusters opted-in students who share a course into small study
+// groups, scored with the same compatibility scorers as pairing.
+// Used by the auto-match Edge Function's group mode, which turns
+// each group into an auto-created Nest.
+//
+//   1. Users are bucketed by university and course (subjectKey, so
+//      "CS 101" and "cs101" land together), biggest buckets first
+//   2. Each bucket is split into groups of balanced size: a seed takes
+//      the candidate with the best mean score to the group so far,
+//      as long as every member's deal-breakers allow them
+//   3. Groups smaller than minSize are dropped; their members can still
+//      land in a later course bucket
+
+import {
+  calculateAdjustedCompatibilityScore,
+  getFinalScore,
+  getScoringConfig,
+} from '../scoring/index.ts';
+import type { ScoringConfig, ScoringContext, ScoringUser } from '../scoring/index.ts';
+import { isMutuallyAcceptable } from '../preferences/index.ts';
+import { pairKey } from '../pairing/index.ts';
+import { subjectKey } from '../subjects/index.ts';
+
+export const DEFAULT_MIN_GROUP_SIZE = 3;
+export const DEFAULT_MAX_GROUP_SIZE = 6;
+
+export interface ProposedGroup<U extends ScoringUser> {
+  university: string;
+  subject: string; // The course as most members wrote it
+  members: U[];
+  meanScore: number; // Mean adjusted score over every pair in the group
+}
+
+export interface GroupingStats {
+  eligibleCount: number;
+  groupCount: number;
+  groupedCount: number;
+  ungroupedCount: number;
+  meanGroupSize: number;
+  meanScore: number; // Mean of the groups' mean scores (0 when no groups)
+}
+
+export interface GroupingResult<U extends ScoringUser> {
+  groups: ProposedGroup<U>[];
+  ungrouped: U[];
+  stats: GroupingStats;
+}
+
+export interface GroupingOptions<U extends ScoringUser> {
+  config?: ScoringConfig;
+  context?: ScoringContext;
+  // Config for one pair (e.g. its experiment arm); defaults to config for every pair
+  configForPair?: (user1: U, user2: U) => ScoringConfig;
+  minSize?: number;
+  maxSize?: number; // Never above the Nest's member_limit
+}
+
+interface CourseBucket {
+  university: string;
+  key: string;
+  spellings: Map<string, number>; // Subject as typed -> how many members typed it
+  members: number[]; // Indexes into the users array
+}
+
+/**
+ * Users bucketed by university and course key
+ * Sorted biggest first, so popular courses form groups before niche ones
+ */
+function bucketByCourse<U extends ScoringUser>(users: U[], context?: ScoringContext): CourseBucket[] {
+  const buckets = new Map<string, CourseBucket>();
+
+  users.forEach((user, index) => {
+    if (!user.university) return;
+    const aliases = context?.subjectAliases?.get(user.university);
+    const seen = new Set<string>();
+
+    for (const subject of user.preferred_subjects || []) {
+      const key = subjectKey(subject, aliases);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+
+      const id = `${user.university}\u0000${key}`;
+      let bucket = buckets.get(id);
+      if (!bucket) {
+        bucket = { university: user.university, key, spellings: new Map(), members: [] };
+        buckets.set(id, bucket);
+      }
+      bucket.members.push(index);
+      bucket.spellings.set(subject, (bucket.spellings.get(subject) || 0) + 1);
+    }
+  });
+
+  return Array.from(buckets.values()).sort(
+    (x, y) => y.members.length - x.members.length || x.key.localeCompare(y.key)
+  );
+}
+
+/**
+ * The most common way members wrote the course (ties keep first seen)
+ */
+function displaySubject(bucket: CourseBucket): string {
+  let best = bucket.key;
+  let bestCount = 0;
+  for (const [spelling, count] of bucket.spellings) {
+    if (count > bestCount) {
+      best = spelling;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Group sizes as even as possible: 7 users with a max of 6 -> 4 + 3, not 6 + 1
+ */
+function targetGroupSize(available: number, maxSize: number): number {
+  return Math.ceil(available / Math.ceil(available / maxSize));
+}
+
+/**
+ * Form study groups from an eligible cohort and report cohort-level stats
+ */
+export function formStudyGroups<U extends ScoringUser>(
+  users: U[],
+  options: GroupingOptions<U> = {}
+): GroupingResult<U> {
+  const config = options.config || getScoringConfig();
+  const configForPair = options.configForPair || (() => config);
+  const minSize = options.minSize || DEFAULT_MIN_GROUP_SIZE;
+  const maxSize = Math.max(minSize, options.maxSize || DEFAULT_MAX_GROUP_SIZE);
+
+  // Pair scores are needed repeatedly while growing groups; score each pair once
+  // (null = deal-breakers keep them apart)
+  const scores = new Map<string, number | null>();
+  const pairScore = (a: number, b: number): number | null => {
+    const key = pairKey(users[a].id, users[b].id);
+    let score = scores.get(key);
+    if (score === undefined) {
+      score = isMutuallyAcceptable(users[a], users[b], options.context)
+        ? getFinalScore(
+            calculateAdjustedCompatibilityScore(users[a], users[b], configForPair(users[a], users[b]), options.context)
+          )
+        : null;
+      scores.set(key, score);
+    }
+    return score;
+  };
+
+  const grouped = new Set<number>();
+  const groups: ProposedGroup<U>[] = [];
+
+  for (const bucket of bucketByCourse(users, options.context)) {
+    let available = bucket.members.filter(index => !grouped.has(index));
+
+    while (available.length >= minSize) {
+      const size = targetGroupSize(available.length, maxSize);
+
+      // Seed with the best-connected user so the group grows around a strong core
+      let seed = available[0];
+      let seedConnectivity = -Infinity;
+      for (const index of available) {
+        const connectivity = available.reduce(
+          (sum, other) => (other === index ? sum : sum + (pairScore(index, other) ?? 0)),
+          0
+        );
+        if (connectivity > seedConnectivity) {
+          seed = index;
+          seedConnectivity = connectivity;
+        }
+      }
+      const members = [seed];
+
+      while (members.length < size) {
+        let bestCandidate = -1;
+        let bestMean = -Infinity;
+
+        for (const candidate of available) {
+          if (members.includes(candidate)) continue;
+          let total = 0;
+          let acceptable = true;
+          for (const member of members) {
+            const score = pairScore(member, candidate);
+            if (score === null) {
+              acceptable = false;
+              break;
+            }
+            total += score;
+          }
+          if (!acceptable) continue;
+
+          // Each newcomer must clear the match threshold on average with the group
+          const mean = total / members.length;
+          if (mean >= config.thresholds.minimumScore && mean > bestMean) {
+            bestCandidate = candidate;
+            bestMean = mean;
+          }
+        }
+
+        if (bestCandidate === -1) break;
+        members.push(bestCandidate);
+      }
+
+      if (members.length < minSize) {
+        // The seed can't anchor a group in this course; let the rest try without it
+        available = available.filter(index => index !== seed);
+        continue;
+      }
+
+      let total = 0;
+      let pairs = 0;
+      for (let x = 0; x < members.length; x++) {
+        for (let y = x + 1; y < members.length; y++) {
+          total += pairScore(members[x], members[y]) ?? 0;
+          pairs++;
+        }
+      }
+
+      members.forEach(index => grouped.add(index));
+      available = available.filter(index => !grouped.has(index));
+      groups.push({
+        university: bucket.university,
+        subject: displaySubject(bucket),
+        members: members.map(index => users[index]),
+        meanScore: Math.round((total / pairs) * 10) / 10,
+      });
+    }
+  }
+
+  const ungrouped = users.filter((_, index) => !grouped.has(index));
+
+  return {
+    groups,
+    ungrouped,
+    stats: {
+      eligibleCount: users.length,
+      groupCount: groups.length,
+      groupedCount: grouped.size,
+      ungroupedCount: ungrouped.length,
+      meanGroupSize: groups.length > 0 ? Math.round((grouped.size / groups.length) * 10) / 10 : 0,
+      meanScore: groups.length > 0
+        ? Math.round((groups.reduce((sum, group) => sum + group.meanScore, 0) / groups.length) * 10) / 10
+        : 0,
+    },
+  };
+}
@@ -0,0 +1,196 @@
+// =====================================================
+// PROFILE TEXT INTERESTS
+// =====================================================
+// Local similarity over the free-text bio and major, so shared
+// interests like "pre-med" or "hackathons" count toward compatibility
+// without any external service.
+//
+//   1. Text is lowercased and split into words. Hyphens and apostrophes
+//      inside a word are dropped ("pre-med" -> "premed"), stop words and
+//      numbers are removed, and plurals are folded ("hackathons")
+//   2. Each university's profiles form a corpus. A term weighs its
+//      inverse document frequency there, so a rare shared interest
+//      counts for more than words everyone uses; terms in most profiles
+//      are ignored entirely
+//   3. Two profiles are compared by cosine similarity of their TF-IDF
+//      vectors, each term counted once per profile (bios are short)
+//
+// Without a corpus every term weighs the same (plain keyword overlap).
+
+/**
+ * The subset of a user row profile text is read from
+ * Also the shape of a corpus row
+ */
+export interface InterestUser {
+  university?: string | null;
+  bio?: string | null;
+  major?: string | null;
+}
+
+export interface InterestCorpus {
+  documentCount: number; // Profiles with any terms
+  documentFrequency: Map<string, number>; // Term -> profiles using it
+}
+
+// Below this many profiles a corpus is too small to call a term common
+const MIN_CORPUS_FOR_COMMON_TERMS = 10;
+
+const WORD_PATTERN = /[a-z0-9]+(?:['’-][a-z0-9]+)*/g;
+
+const STOP_WORDS = new Set([
+  // English
+  'a', 'about', 'above', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing',
+  'down', 'during', 'each', 'even', 'every', 'few', 'for', 'from', 'get', 'got', 'had', 'has', 'have',
+  'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'if', 'im', 'in', 'into', 'is', 'it',
+  'its', 'ive', 'just', 'me', 'more', 'most', 'much', 'my', 'myself', 'no', 'nor', 'not', 'now', 'of',
+  'off', 'on', 'once', 'one', 'only', 'or', 'other', 'our', 'out', 'over', 'own', 'really', 'same',
+  'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'would', 'you', 'your', 'yours',
+  // Words nearly every student profile uses
+  'class', 'classes', 'college', 'enjoy', 'hey', 'hi', 'hello', 'interested', 'like', 'looking',
+  'love', 'lot', 'major', 'majoring', 'minor', 'people', 'student', 'studying', 'study', 'stuff',
+  'thing', 'university', 'want', 'year',
+]);
+
+// Cohort scoring compares each profile many times; extract its terms once
+const termCache = new WeakMap<object, Map<string, string>>();
+
+/**
+ * "hackathons" -> "hackathon", "studies" -> "study"; short words are left alone
+ */
+function foldPlural(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Terms in a piece of text, each mapped to how it was first written
+ */
+export function extractInterestTerms(text: string | null | undefined): Map<string, string> {
+  const terms = new Map<string, string>();
+  if (!text) return terms;
+
+  for (const word of text.toLowerCase().match(WORD_PATTERN) || []) {
+    const joined = word.replace(/['’-]/g, '');
+    if (joined.length < 2 || /^\d+$/.test(joined)) continue;
+    const term = foldPlural(joined);
+    if (STOP_WORDS.has(joined) || STOP_WORDS.has(term)) continue;
+    if (!terms.has(term)) terms.set(term, word);
+  }
+  return terms;
+}
+
+/**
+ * Terms in a user's bio and major
+ */
+export function profileInterestTerms(user: InterestUser): Map<string, string> {
+  let terms = termCache.get(user);
+  if (!terms) {
+    terms = extractInterestTerms([user.bio, user.major].filter(Boolean).join(' '));
+    termCache.set(user, terms);
+  }
+  return terms;
+}
+
+/**
+ * Document frequencies over a set of profiles
+ */
+export function buildInterestCorpus(profiles: InterestUser[]): InterestCorpus {
+  const documentFrequency = new Map<string, number>();
+  let documentCount = 0;
+
+  for (const profile of profiles) {
+    const terms = profileInterestTerms(profile);
+    if (terms.size === 0) continue;
+    documentCount++;
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+  return { documentCount, documentFrequency };
+}
+
+/**
+ * One corpus per university (ScoringContext.interestCorpora)
+ */
+export function buildInterestCorpusMap(profiles: InterestUser[]): Map<string, InterestCorpus> {
+  const byUniversity = new Map<string, InterestUser[]>();
+  for (const profile of profiles) {
+    if (!profile.university) continue;
+    const list = byUniversity.get(profile.university) || [];
+    list.push(profile);
+    byUniversity.set(profile.university, list);
+  }
+
+  const corpora = new Map<string, InterestCorpus>();
+  for (const [university, list] of byUniversity) {
+    corpora.set(university, buildInterestCorpus(list));
+  }
+  return corpora;
+}
+
+/**
+ * Smoothed inverse document frequency; 0 for terms too common to mean anything
+ */
+function termWeight(term: string, corpus: InterestCorpus | undefined, maxDocumentShare: number): number {
+  if (!corpus || corpus.documentCount === 0) return 1;
+
+  const frequency = corpus.documentFrequency.get(term) || 0;
+  if (corpus.documentCount >= MIN_CORPUS_FOR_COMMON_TERMS && frequency / corpus.documentCount > maxDocumentShare) {
+    return 0;
+  }
+  return Math.log((corpus.documentCount + 1) / (frequency + 1)) + 1;
+}
+
+/**
+ * Cosine similarity (0-1) of two profiles' TF-IDF vectors
+ */
+export function profileTextSimilarity(
+  user1: InterestUser,
+  user2: InterestUser,
+  corpus?: InterestCorpus,
+  maxDocumentShare = 1
+): number {
+  const terms1 = profileInterestTerms(user1);
+  const terms2 = profileInterestTerms(user2);
+  if (terms1.size === 0 || terms2.size === 0) return 0;
+
+  let norm1 = 0;
+  let shared = 0;
+  for (const term of terms1.keys()) {
+    const weight = termWeight(term, corpus, maxDocumentShare);
+    norm1 += weight * weight;
+    if (terms2.has(term)) shared += weight * weight;
+  }
+  if (shared === 0) return 0;
+
+  let norm2 = 0;
+  for (const term of terms2.keys()) {
+    const weight = termWeight(term, corpus, maxDocumentShare);
+    norm2 += weight * weight;
+  }
+
+  return shared / Math.sqrt(norm1 * norm2);
+}
+
+/**
+ * Interests both profiles mention, rarest first, as user1 wrote them
+ */
+export function findSharedInterests(
+  user1: InterestUser,
+  user2: InterestUser,
+  corpus?: InterestCorpus,
+  maxDocumentShare = 1
+): string[] {
+  const terms2 = profileInterestTerms(user2);
+  return Array.from(profileInterestTerms(user1))
+    .filter(([term]) => terms2.has(term))
+    .map(([term, written]) => ({ written, weight: termWeight(term, corpus, maxDocumentShare) }))
+    .filter(entry => entry.weight > 0)
+    .sort((x, y) => y.weight - x.weight)
+    .map(entry => entry.written);
+}
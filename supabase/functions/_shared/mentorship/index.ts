@@ -0,0 +1,256 @@
+// =====================================================
+// MENTORSHIP MATCHING
+// =====================================================
+// Pairs opted-in mentors with opted-in mentees who are taking a
+// course the mentor has already taken. Used by the auto-match Edge
+// Function's mentorship mode, which turns each pair into a match
+// with match_type 'mentorship'.
+//
+//   Mentors: mentorship_role 'mentor', a Senior or a verified tutor/mentor
+//            badge holder, with at least one course in completed_subjects
+//   Mentees: mentorship_role 'mentee', a Freshman, with current courses
+//
+// Pairs are scored with the mentorship profile (MENTORSHIP_SCORING_VERSION),
+// comparing the mentor's completed courses with the mentee's current
+// ones, and chosen by maximum-weight matching per university.
+
+import {
+  MENTORSHIP_SCORING_VERSION,
+  calculateAdjustedCompatibilityScore,
+  getFinalScore,
+  getScoringConfig,
+  meetsMatchThreshold,
+} from '../scoring/index.ts';
+import type { CompatibilityScore, ScoringConfig, ScoringContext, ScoringUser } from '../scoring/index.ts';
+import { findPreferenceViolation } from '../preferences/index.ts';
+import { maxWeightMatching, pairKey } from '../pairing/index.ts';
+import type { WeightedEdge } from '../pairing/index.ts';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSharedSubjects } from '../subjects/index.ts';
+
+export type MentorshipRole = 'mentor' | 'mentee';
+
+// Verified badges (user_badges) that let a user mentor in any year
+export const MENTOR_BADGE_IDS = ['tutor', 'mentor'];
+
+// Compared lowercased with users.year
+const MENTOR_YEAR = 'senior';
+const MENTEE_YEAR = 'freshman';
+
+/**
+ * The subset of a user row mentorship pairing reads
+ */
+export interface MentorshipUser extends ScoringUser {
+  mentorship_role?: MentorshipRole | null;
+  completed_subjects?: string[] | null; // Courses already taken (what a mentor can help with)
+}
+
+export interface ProposedMentorship<U extends MentorshipUser> {
+  mentor: U;
+  mentee: U;
+  subjects: string[]; // The mentee's current courses the mentor has taken, as the mentee wrote them
+  score: CompatibilityScore;
+}
+
+export interface MentorshipStats {
+  eligibleCount: number; // Opted-in users who qualify for their role
+  mentorCount: number;
+  menteeCount: number;
+  pairCount: number;
+  unmatchedCount: number; // Qualifying users left without a partner
+  ineligibleCount: number; // Opted in, but not a Senior/badge holder mentor or a Freshman mentee
+  meanScore: number; // Mean adjusted score per pair (0 when no pairs)
+}
+
+export interface MentorshipResult<U extends MentorshipUser> {
+  pairs: ProposedMentorship<U>[];
+  unmatched: U[];
+  ineligible: U[];
+  stats: MentorshipStats;
+}
+
+export interface MentorshipOptions<U extends MentorshipUser> {
+  config?: ScoringConfig; // Defaults to the mentorship profile
+  context?: ScoringContext;
+  mentorBadgeHolders?: Set<string>; // Ids of users with a verified MENTOR_BADGE_IDS badge
+  // Return true to keep two users apart (e.g. they already matched before)
+  isExcludedPair?: (mentor: U, mentee: U) => boolean;
+}
+
+interface MentorshipEdge {
+  mentor: number; // Index into the users array
+  mentee: number;
+  subjects: string[];
+  score: CompatibilityScore;
+}
+
+/**
+ * Whether a user can be matched as a mentor
+ */
+export function isEligibleMentor(user: MentorshipUser, mentorBadgeHolders?: Set<string>): boolean {
+  if (user.mentorship_role !== 'mentor') return false;
+  if ((user.completed_subjects || []).length === 0) return false;
+  return user.year?.toLowerCase() === MENTOR_YEAR || !!mentorBadgeHolders?.has(user.id);
+}
+
+/**
+ * Whether a user can be matched as a mentee
+ */
+export function isEligibleMentee(user: MentorshipUser): boolean {
+  return (
+    user.mentorship_role === 'mentee' &&
+    user.year?.toLowerCase() === MENTEE_YEAR &&
+    (user.preferred_subjects || []).length > 0
+  );
+}
+
+/**
+ * The mentee's current courses that the mentor has already taken
+ */
+export function findMentorshipSubjects(
+  mentor: MentorshipUser,
+  mentee: MentorshipUser,
+  context?: ScoringContext
+): string[] {
+  const menteeAliases = mentee.university ? context?.subjectAliases?.get(mentee.university) : undefined;
+  const mentorAliases = mentor.university ? context?.subjectAliases?.get(mentor.university) : undefined;
+  return findSharedSubjects(
+    mentee.preferred_subjects || [],
+    mentor.completed_subjects || [],
+    { aliases: menteeAliases, similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD },
+    mentorAliases
+  );
+}
+
+/**
+ * The mentor as the scorers should see them: their courses are the ones they've taken
+ */
+function asScoredMentor<U extends MentorshipUser>(mentor: U): U {
+  return { ...mentor, preferred_subjects: mentor.completed_subjects || [] };
+}
+
+/**
+ * Whether owner's deal-breakers allow candidate as a mentorship partner
+ * Opting in to mentorship is opting in to another year, so year deal-breakers don't apply
+ */
+function allowsMentorship(owner: MentorshipUser, candidate: MentorshipUser, context?: ScoringContext): boolean {
+  const violation = findPreferenceViolation(owner, candidate, context);
+  return violation === null || violation === 'year';
+}
+
+/**
+ * Score a mentor and mentee with the mentorship profile
+ */
+export function scoreMentorship<U extends MentorshipUser>(
+  mentor: U,
+  mentee: U,
+  config: ScoringConfig = getScoringConfig(MENTORSHIP_SCORING_VERSION),
+  context?: ScoringContext
+): CompatibilityScore {
+  return calculateAdjustedCompatibilityScore(asScoredMentor(mentor), mentee, config, context);
+}
+
+/**
+ * Idempotency key of a mentorship match (matches.idempotency_key)
+ * Prefixed apart from autoMatchIdempotencyKey so the two kinds of match never collide
+ */
+export function mentorshipIdempotencyKey(mentorId: string, menteeId: string): string {
+  return `mentorship:${pairKey(mentorId, menteeId)}`;
+}
+
+/**
+ * Pair opted-in mentors with mentees and report cohort-level stats
+ * Each user gets at most one partner per run
+ */
+export function pairMentorships<U extends MentorshipUser>(
+  users: U[],
+  options: MentorshipOptions<U> = {}
+): MentorshipResult<U> {
+  const config = options.config || getScoringConfig(MENTORSHIP_SCORING_VERSION);
+
+  const mentorsByUniversity = new Map<string, number[]>();
+  const menteesByUniversity = new Map<string, number[]>();
+  const ineligible: U[] = [];
+  let mentorCount = 0;
+  let menteeCount = 0;
+
+  users.forEach((user, index) => {
+    const isMentor = isEligibleMentor(user, options.mentorBadgeHolders);
+    const isMentee = !isMentor && isEligibleMentee(user);
+    if ((!isMentor && !isMentee) || !user.university) {
+      ineligible.push(user);
+      return;
+    }
+
+    const byUniversity = isMentor ? mentorsByUniversity : menteesByUniversity;
+    const group = byUniversity.get(user.university) || [];
+    group.push(index);
+    byUniversity.set(user.university, group);
+    if (isMentor) mentorCount++;
+    else menteeCount++;
+  });
+
+  // Maximum-weight matching per university; only mentor-mentee edges exist,
+  // so the graph is bipartite
+  const chosen: MentorshipEdge[] = [];
+  for (const [university, mentors] of mentorsByUniversity) {
+    const mentees = menteesByUniversity.get(university) || [];
+    const edges: MentorshipEdge[] = [];
+
+    for (const mentor of mentors) {
+      for (const mentee of mentees) {
+        if (users[mentor].id === users[mentee].id) continue;
+        if (options.isExcludedPair && options.isExcludedPair(users[mentor], users[mentee])) continue;
+
+        const subjects = findMentorshipSubjects(users[mentor], users[mentee], options.context);
+        if (subjects.length === 0) continue;
+        if (!allowsMentorship(users[mentor], users[mentee], options.context)) continue;
+        if (!allowsMentorship(users[mentee], users[mentor], options.context)) continue;
+
+        const score = scoreMentorship(users[mentor], users[mentee], config, options.context);
+        if (!meetsMatchThreshold(score, config)) continue;
+        edges.push({ mentor, mentee, subjects, score });
+      }
+    }
+    if (edges.length === 0) continue;
+
+    // Mentors take local vertices 0..m-1, mentees m..m+n-1
+    const mentorIndex = new Map(mentors.map((index, local) => [index, local]));
+    const menteeIndex = new Map(mentees.map((index, local) => [index, mentors.length + local]));
+    const weighted: WeightedEdge[] = edges.map(edge => [
+      mentorIndex.get(edge.mentor)!,
+      menteeIndex.get(edge.mentee)!,
+      getFinalScore(edge.score),
+    ]);
+    const mate = maxWeightMatching(weighted);
+
+    edges.forEach((edge, i) => {
+      if (mate[weighted[i][0]] === weighted[i][1]) chosen.push(edge);
+    });
+  }
+
+  const matchedIndexes = new Set<number>();
+  const pairs: ProposedMentorship<U>[] = chosen.map(edge => {
+    matchedIndexes.add(edge.mentor);
+    matchedIndexes.add(edge.mentee);
+    return { mentor: users[edge.mentor], mentee: users[edge.mentee], subjects: edge.subjects, score: edge.score };
+  });
+
+  const ineligibleIds = new Set(ineligible.map(user => user.id));
+  const unmatched = users.filter((user, index) => !matchedIndexes.has(index) && !ineligibleIds.has(user.id));
+  const totalScore = pairs.reduce((sum, pair) => sum + getFinalScore(pair.score), 0);
+
+  return {
+    pairs,
+    unmatched,
+    ineligible,
+    stats: {
+      eligibleCount: mentorCount + menteeCount,
+      mentorCount,
+      menteeCount,
+      pairCount: pairs.length,
+      unmatchedCount: unmatched.length,
+      ineligibleCount: ineligible.length,
+      meanScore: pairs.length > 0 ? Math.round((totalScore / pairs.length) * 10) / 10 : 0,
+    },
+  };
+}
@@ -0,0 +1,281 @@
+// =====================================================
+// COHORT PAIRING
+// =====================================================
+// Turns a pool of eligible users into auto-match pairs.
+// Shared by runAutoMatching (client) and the auto-match Edge Function.
+//
+// Modes:
+//   greedy  - users take their best remaining candidate in fetch order
+//             (the original behaviour; late users get leftovers), or
+//             longest-waiting first when the config has fairness (v7+)
+//   optimal - maximum-weight matching over the whole candidate graph,
+//             maximizing total adjusted compatibility for the cohort
+
+import {
+  calculateAdjustedCompatibilityScore,
+  getFinalScore,
+  getScoringConfig,
+  meetsMatchThreshold,
+} from '../scoring/index.ts';
+import type { CompatibilityScore, ScoringConfig, ScoringContext, ScoringUser } from '../scoring/index.ts';
+import { isMutuallyAcceptable } from '../preferences/index.ts';
+import { maxWeightMatching } from './maxWeightMatching.ts';
+import type { WeightedEdge } from './maxWeightMatching.ts';
+import { daysWaiting, summarizeWaitTimes } from '../fairness/index.ts';
+import type { WaitTimeDistribution } from '../fairness/index.ts';
+
+export type PairingMode = 'greedy' | 'optimal';
+
+export const DEFAULT_PAIRING_MODE: PairingMode = 'optimal';
+
+// Bounds the candidate graph in optimal mode: an edge is kept when it is
+// among the top N candidates of either endpoint
+export const DEFAULT_MAX_CANDIDATES_PER_USER = 50;
+
+export interface ProposedPair<U extends ScoringUser> {
+  user1: U;
+  user2: U;
+  score: CompatibilityScore;
+}
+
+export interface CohortStats {
+  mode: PairingMode;
+  eligibleCount: number;
+  pairCount: number;
+  unmatchedCount: number;
+  totalScore: number; // Sum of adjusted scores across created pairs
+  meanScore: number; // Mean adjusted score per pair (0 when no pairs)
+  waitTimes?: WaitTimeDistribution; // Days since each eligible user's last match
+}
+
+export interface PairingResult<U extends ScoringUser> {
+  pairs: ProposedPair<U>[];
+  unmatched: U[];
+  stats: CohortStats;
+}
+
+export interface PairingOptions<U extends ScoringUser> {
+  mode?: PairingMode;
+  config?: ScoringConfig;
+  context?: ScoringContext;
+  // Config for one pair (e.g. its experiment arm); defaults to config for every pair
+  configForPair?: (user1: U, user2: U) => ScoringConfig;
+  // Return true to keep two users apart (e.g. they already matched before)
+  isExcludedPair?: (user1: U, user2: U) => boolean;
+  maxCandidatesPerUser?: number;
+}
+
+interface CandidateEdge {
+  a: number; // Index into the users array
+  b: number;
+  weight: number; // Final (adjusted) compatibility score
+}
+
+/**
+ * Order-independent key for a pair of user IDs
+ */
+export function pairKey(userId1: string, userId2: string): string {
+  return userId1 < userId2 ? `${userId1}:${userId2}` : `${userId2}:${userId1}`;
+}
+
+/**
+ * Best candidates first (ties keep fetch order)
+ */
+function compareCandidates(index: number, x: CandidateEdge, y: CandidateEdge): number {
+  const diff = y.weight - x.weight;
+  if (diff !== 0) return diff;
+  const otherX = x.a === index ? x.b : x.a;
+  const otherY = y.a === index ? y.b : y.a;
+  return otherX - otherY;
+}
+
+/**
+ * User indexes grouped by university (must be same university)
+ * No edge crosses groups, so each group can be paired on its own
+ */
+function groupByUniversity<U extends ScoringUser>(users: U[]): number[][] {
+  const byUniversity = new Map<string, number[]>();
+  users.forEach((user, index) => {
+    if (!user.university) return;
+    const group = byUniversity.get(user.university) || [];
+    group.push(index);
+    byUniversity.set(user.university, group);
+  });
+  return Array.from(byUniversity.values());
+}
+
+/**
+ * Score every same-university pair that clears the threshold and both users' deal-breakers
+ * With maxCandidatesPerUser, only edges in the top N of either endpoint are
+ * kept while scoring, so memory stays O(users * N) instead of O(users^2)
+ */
+function buildAdjacency<U extends ScoringUser>(
+  users: U[],
+  groups: number[][],
+  configForPair: (user1: U, user2: U) => ScoringConfig,
+  context: ScoringContext | undefined,
+  isExcludedPair?: (user1: U, user2: U) => boolean,
+  maxCandidatesPerUser = Infinity
+): CandidateEdge[][] {
+  const adjacency: CandidateEdge[][] = Array.from({ length: users.length }, () => []);
+  const trim = (index: number) => {
+    adjacency[index].sort((x, y) => compareCandidates(index, x, y));
+    adjacency[index].length = Math.min(adjacency[index].length, maxCandidatesPerUser);
+  };
+
+  for (const group of groups) {
+    for (let x = 0; x < group.length; x++) {
+      for (let y = x + 1; y < group.length; y++) {
+        const a = group[x];
+        const b = group[y];
+        if (users[a].id === users[b].id) continue;
+        if (isExcludedPair && isExcludedPair(users[a], users[b])) continue;
+        if (!isMutuallyAcceptable(users[a], users[b], context)) continue;
+
+        const config = configForPair(users[a], users[b]);
+        const score = calculateAdjustedCompatibilityScore(users[a], users[b], config, context);
+        if (!meetsMatchThreshold(score, config)) continue;
+
+        const edge = { a, b, weight: getFinalScore(score) };
+        adjacency[a].push(edge);
+        adjacency[b].push(edge);
+        if (adjacency[a].length >= 2 * maxCandidatesPerUser) trim(a);
+        if (adjacency[b].length >= 2 * maxCandidatesPerUser) trim(b);
+      }
+    }
+  }
+
+  for (let index = 0; index < users.length; index++) trim(index);
+  return adjacency;
+}
+
+/**
+ * User indexes longest-waiting first (ties and unknown waits keep fetch order)
+ */
+function orderByWait<U extends ScoringUser>(users: U[], now: number): number[] {
+  const waits = users.map(user => daysWaiting(user, now) ?? 0);
+  return users.map((_, index) => index).sort((x, y) => waits[y] - waits[x] || x - y);
+}
+
+/**
+ * Greedy pairing: walk users in the given order, each takes the best unused candidate
+ */
+function pairGreedy(order: number[], adjacency: CandidateEdge[][]): CandidateEdge[] {
+  const used = new Set<number>();
+  const chosen: CandidateEdge[] = [];
+
+  for (const index of order) {
+    if (used.has(index)) continue;
+    const best = adjacency[index].find(edge => {
+      const other = edge.a === index ? edge.b : edge.a;
+      return !used.has(other);
+    });
+    if (!best) continue;
+    used.add(best.a);
+    used.add(best.b);
+    chosen.push(best);
+  }
+  return chosen;
+}
+
+/**
+ * Optimal pairing: maximum-weight matching on the pruned candidate graph,
+ * solved per university since the matching cost grows faster than linearly
+ */
+function pairOptimal(groups: number[][], adjacency: CandidateEdge[][]): CandidateEdge[] {
+  const chosen: CandidateEdge[] = [];
+
+  for (const group of groups) {
+    // Renumber vertices locally so each solve only sizes arrays for its group
+    const localIndex = new Map<number, number>();
+    group.forEach((index, local) => localIndex.set(index, local));
+
+    const kept = new Set<CandidateEdge>();
+    for (const index of group) {
+      adjacency[index].forEach(edge => kept.add(edge));
+    }
+
+    const graphEdges = Array.from(kept);
+    const weighted: WeightedEdge[] = graphEdges.map(edge => [
+      localIndex.get(edge.a)!,
+      localIndex.get(edge.b)!,
+      edge.weight,
+    ]);
+    const mate = maxWeightMatching(weighted);
+
+    graphEdges.forEach((edge, i) => {
+      if (mate[weighted[i][0]] === weighted[i][1]) chosen.push(edge);
+    });
+  }
+  return chosen;
+}
+
+/**
+ * Idempotency key of a pair's auto match (matches.idempotency_key)
+ * A pair is only ever auto-matched once, so the key doesn't include a date
+ */
+export function autoMatchIdempotencyKey(userId1: string, userId2: string): string {
+  return `auto:${pairKey(userId1, userId2)}`;
+}
+
+/**
+ * Pair an eligible cohort and report cohort-level stats
+ */
+export function pairCohort<U extends ScoringUser>(
+  users: U[],
+  options: PairingOptions<U> = {}
+): PairingResult<U> {
+  const mode = options.mode || DEFAULT_PAIRING_MODE;
+  const config = options.config || getScoringConfig();
+  const configForPair = options.configForPair || (() => config);
+  const maxCandidatesPerUser = options.maxCandidatesPerUser || DEFAULT_MAX_CANDIDATES_PER_USER;
+
+  // Greedy walks each user's full candidate list; optimal only needs the top N
+  const groups = groupByUniversity(users);
+  const adjacency = buildAdjacency(
+    users,
+    groups,
+    configForPair,
+    options.context,
+    options.isExcludedPair,
+    mode === 'optimal' ? maxCandidatesPerUser : Infinity
+  );
+
+  const now = options.context?.now ?? Date.now();
+  const greedyOrder = config.fairness ? orderByWait(users, now) : users.map((_, index) => index);
+
+  const chosen = mode === 'optimal'
+    ? pairOptimal(groups, adjacency)
+    : pairGreedy(greedyOrder, adjacency);
+
+  const matchedIndexes = new Set<number>();
+  const pairs: ProposedPair<U>[] = chosen.map(edge => {
+    matchedIndexes.add(edge.a);
+    matchedIndexes.add(edge.b);
+    // Only edge weights are kept while building the graph; rescore the chosen pairs
+    const user1 = users[edge.a];
+    const user2 = users[edge.b];
+    const score = calculateAdjustedCompatibilityScore(user1, user2, configForPair(user1, user2), options.context);
+    return { user1, user2, score };
+  });
+  const unmatched = users.filter((_, index) => !matchedIndexes.has(index));
+
+  const totalScore = pairs.reduce((sum, pair) => sum + getFinalScore(pair.score), 0);
+
+  return {
+    pairs,
+    unmatched,
+    stats: {
+      mode,
+      eligibleCount: users.length,
+      pairCount: pairs.length,
+      unmatchedCount: unmatched.length,
+      totalScore,
+      meanScore: pairs.length > 0 ? Math.round((totalScore / pairs.length) * 10) / 10 : 0,
+      waitTimes: summarizeWaitTimes(users, now),
+    },
+  };
+}
+
+export { maxWeightMatching } from './maxWeightMatching.ts';
+export type { WeightedEdge } from './maxWeightMatching.ts';
@@ -0,0 +1,156 @@
+// =====================================================
+// MATCH PREFERENCES
+// =====================================================
+// Per-user deal-breakers and soft preferences (users.match_preferences).
+// Deal-breakers are hard filters applied by getCandidateFeedPage and
+// cohort pairing; soft preferences only add a small boost to the
+// adjusted score (ScoringConfig.preferences, v4+).
+//
+// A pair is only acceptable when neither user's deal-breakers rule
+// out the other.
+
+import { DEFAULT_SIMILARITY_THRESHOLD, countSharedSubjects } from '../subjects/index.ts';
+import type { SubjectAliases } from '../subjects/index.ts';
+
+export interface MatchPreferences {
+  // Deal-breakers
+  allowedYears?: string[]; // Only match with these academic years (empty = any)
+  requireSharedSubject?: boolean; // Must share at least one course
+  excludedGoals?: string[]; // Never match with these study goals
+  // Soft preferences (score boost only)
+  preferredStyles?: string[];
+  preferredGoals?: string[];
+}
+
+/**
+ * The subset of a user row preferences are checked against
+ */
+export interface PreferenceUser {
+  university: string | null;
+  year: string | null;
+  preferred_subjects: string[] | null;
+  study_style: string | null;
+  study_goals: string | null;
+  match_preferences?: MatchPreferences | null;
+}
+
+export interface PreferenceContext {
+  subjectAliases?: Map<string, SubjectAliases>; // university -> that university's alias table
+}
+
+export type PreferenceViolation = 'year' | 'sharedSubject' | 'goal';
+
+const EMPTY_PREFERENCES: MatchPreferences = {};
+
+// Cohort pairing checks every pair, so each stored object is normalized once
+const normalizedCache = new WeakMap<object, MatchPreferences>();
+
+function normalizeList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .map(item => item.trim());
+  return list.length > 0 ? Array.from(new Set(list)) : undefined;
+}
+
+/**
+ * Clean a stored or submitted preferences object, dropping unknown and empty fields
+ */
+export function normalizeMatchPreferences(value: unknown): MatchPreferences {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return EMPTY_PREFERENCES;
+  const raw = value as Record<string, unknown>;
+
+  const preferences: MatchPreferences = {};
+  const allowedYears = normalizeList(raw.allowedYears);
+  const excludedGoals = normalizeList(raw.excludedGoals);
+  const preferredStyles = normalizeList(raw.preferredStyles);
+  const preferredGoals = normalizeList(raw.preferredGoals);
+
+  if (allowedYears) preferences.allowedYears = allowedYears;
+  if (raw.requireSharedSubject === true) preferences.requireSharedSubject = true;
+  if (excludedGoals) preferences.excludedGoals = excludedGoals;
+  if (preferredStyles) preferences.preferredStyles = preferredStyles;
+  if (preferredGoals) preferences.preferredGoals = preferredGoals;
+  return preferences;
+}
+
+function readPreferences(user: PreferenceUser): MatchPreferences {
+  const stored = user.match_preferences;
+  if (!stored || typeof stored !== 'object') return EMPTY_PREFERENCES;
+
+  let prefs = normalizedCache.get(stored);
+  if (!prefs) {
+    prefs = normalizeMatchPreferences(stored);
+    normalizedCache.set(stored, prefs);
+  }
+  return prefs;
+}
+
+/**
+ * Whether a user has any deal-breakers set
+ */
+export function hasDealBreakers(user: PreferenceUser): boolean {
+  const prefs = readPreferences(user);
+  return !!(prefs.allowedYears || prefs.requireSharedSubject || prefs.excludedGoals);
+}
+
+/**
+ * The first of owner's deal-breakers that rules out candidate, or null
+ * One-directional: only owner's preferences are checked
+ */
+export function findPreferenceViolation(
+  owner: PreferenceUser,
+  candidate: PreferenceUser,
+  context?: PreferenceContext
+): PreferenceViolation | null {
+  const prefs = readPreferences(owner);
+
+  if (prefs.allowedYears) {
+    const year = candidate.year?.toLowerCase();
+    if (!year || !prefs.allowedYears.some(y => y.toLowerCase() === year)) return 'year';
+  }
+
+  if (prefs.excludedGoals && candidate.study_goals && prefs.excludedGoals.includes(candidate.study_goals)) {
+    return 'goal';
+  }
+
+  if (prefs.requireSharedSubject) {
+    const aliases1 = owner.university ? context?.subjectAliases?.get(owner.university) : undefined;
+    const aliases2 = candidate.university ? context?.subjectAliases?.get(candidate.university) : undefined;
+    const shared = countSharedSubjects(
+      owner.preferred_subjects || [],
+      candidate.preferred_subjects || [],
+      { aliases: aliases1, similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD },
+      aliases2
+    );
+    if (shared === 0) return 'sharedSubject';
+  }
+
+  return null;
+}
+
+/**
+ * Whether neither user's deal-breakers rule out the other
+ */
+export function isMutuallyAcceptable(
+  user1: PreferenceUser,
+  user2: PreferenceUser,
+  context?: PreferenceContext
+): boolean {
+  return (
+    findPreferenceViolation(user1, user2, context) === null &&
+    findPreferenceViolation(user2, user1, context) === null
+  );
+}
+
+/**
+ * How many of owner's soft preferences candidate satisfies
+ */
+export function countPreferenceMatches(owner: PreferenceUser, candidate: PreferenceUser): number {
+  const prefs = readPreferences(owner);
+
+  let matches = 0;
+  if (candidate.study_style && prefs.preferredStyles?.includes(candidate.study_style)) matches++;
+  if (candidate.study_goals && prefs.preferredGoals?.includes(candidate.study_goals)) matches++;
+  return matches;
+}
@@ -0,0 +1,42 @@
+// =====================================================
+// PUSH NOTIFICATIONS
+// =====================================================
+// Expo push helper shared by the scheduled edge functions
+// (auto-match, match-lifecycle).
+
+export interface PushNotificationParams {
+  expoPushToken: string;
+  title: string;
+  body: string;
+  data?: any;
+}
+
+/**
+ * Send one push notification through Expo's push service
+ */
+export async function sendPushNotification(params: PushNotificationParams): Promise<boolean> {
+  try {
+    const message = {
+      to: params.expoPushToken,
+      sound: 'default',
+      title: params.title,
+      body: params.body,
+      data: params.data || {},
+    };
+
+    await fetch('https://exp.host/--/api/v2/push/send', {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Accept-encoding': 'gzip, deflate',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(message),
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error sending push notification:', error);
+    return false;
+  }
+}
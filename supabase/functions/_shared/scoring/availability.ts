@@ -0,0 +1,169 @@
+// =====================================================
+// AVAILABILITY
+// =====================================================
+// Reads both availability shapes found in users.availability:
+//   legacy:  { monday: 'morning', ... }
+//   current: { monday: { available: true, timeSlots: [{ start: '09:00', end: '11:30' }] } }
+// and reduces them to minute ranges per day.
+
+export type LegacySlot = 'morning' | 'afternoon' | 'evening';
+
+export interface TimeRange {
+  start: number; // Minutes since midnight
+  end: number;
+}
+
+export type NormalizedAvailability = Record<string, TimeRange[]>;
+
+export const WEEK_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// What the legacy onboarding slots mean as clock time
+// Keep in sync with 20241210000003_migrate_availability_time_ranges.sql
+export const LEGACY_SLOT_RANGES: Record<LegacySlot, { start: string; end: string }> = {
+  morning: { start: '08:00', end: '12:00' },
+  afternoon: { start: '12:00', end: '17:00' },
+  evening: { start: '17:00', end: '22:00' },
+};
+
+// Used when a day is marked available without any time slots
+const ALL_DAY = { start: '08:00', end: '22:00' };
+
+const normalizedCache = new WeakMap<object, NormalizedAvailability | null>();
+
+/**
+ * Parse "HH:MM" into minutes since midnight (null if malformed)
+ */
+export function parseTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() || '');
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+/**
+ * Convert a legacy slot string into the current DaySchedule shape
+ */
+export function legacySlotToDaySchedule(slot: string): { available: boolean; timeSlots?: Array<{ start: string; end: string }> } {
+  const range = LEGACY_SLOT_RANGES[slot as LegacySlot];
+  return range ? { available: true, timeSlots: [{ ...range }] } : { available: false };
+}
+
+function toRanges(day: any): TimeRange[] {
+  if (typeof day === 'string') {
+    return toRanges(legacySlotToDaySchedule(day));
+  }
+  if (!day || !day.available) return [];
+
+  const slots: Array<{ start: string; end: string }> =
+    Array.isArray(day.timeSlots) && day.timeSlots.length > 0 ? day.timeSlots : [ALL_DAY];
+
+  const ranges: TimeRange[] = [];
+  for (const slot of slots) {
+    const start = parseTime(slot.start);
+    const end = parseTime(slot.end);
+    if (start !== null && end !== null && end > start) ranges.push({ start, end });
+  }
+
+  // Sort and merge overlapping ranges so overlap is never double counted
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: TimeRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Minute ranges per day, or null when the user has not set any availability
+ * Cached per availability object since cohort scoring reads each user many times
+ */
+export function normalizeAvailability(availability: any): NormalizedAvailability | null {
+  if (!availability || typeof availability !== 'object') return null;
+  const cached = normalizedCache.get(availability);
+  if (cached !== undefined) return cached;
+
+  const normalized: NormalizedAvailability = {};
+  let hasAny = false;
+  for (const day of WEEK_DAYS) {
+    normalized[day] = toRanges(availability[day]);
+    if (normalized[day].length > 0) hasAny = true;
+  }
+
+  const result = hasAny ? normalized : null;
+  normalizedCache.set(availability, result);
+  return result;
+}
+
+/**
+ * The legacy slot a day corresponds to, so v1 scoring treats migrated rows
+ * exactly like the strings they replaced. Custom ranges get a signature
+ * that only equals an identical schedule.
+ */
+export function toLegacySlot(day: any): string | undefined {
+  if (typeof day === 'string') return day;
+  const ranges = toRanges(day);
+  if (ranges.length === 0) return undefined;
+
+  if (ranges.length === 1) {
+    for (const [slot, range] of Object.entries(LEGACY_SLOT_RANGES)) {
+      if (parseTime(range.start) === ranges[0].start && parseTime(range.end) === ranges[0].end) {
+        return slot;
+      }
+    }
+  }
+  return ranges.map(range => `${range.start}-${range.end}`).join(',');
+}
+
+export interface SharedWindow {
+  day: string;
+  start: number; // Minutes since midnight
+  end: number;
+}
+
+/**
+ * Time windows both users are free, keeping only windows of at least
+ * minSessionMinutes (shorter gaps are too short to study together)
+ */
+export function findSharedWindows(
+  availability1: NormalizedAvailability,
+  availability2: NormalizedAvailability,
+  minSessionMinutes: number
+): SharedWindow[] {
+  const windows: SharedWindow[] = [];
+
+  for (const day of WEEK_DAYS) {
+    const ranges1 = availability1[day] || [];
+    const ranges2 = availability2[day] || [];
+    let i = 0;
+    let j = 0;
+
+    // Both lists are sorted and merged, so a two-pointer sweep finds every intersection
+    while (i < ranges1.length && j < ranges2.length) {
+      const start = Math.max(ranges1[i].start, ranges2[j].start);
+      const end = Math.min(ranges1[i].end, ranges2[j].end);
+      if (end - start >= minSessionMinutes) windows.push({ day, start, end });
+
+      if (ranges1[i].end < ranges2[j].end) i++;
+      else j++;
+    }
+  }
+
+  return windows;
+}
+
+/**
+ * Minutes per week both users are free in windows of at least minSessionMinutes
+ */
+export function calculateOverlapMinutes(
+  availability1: NormalizedAvailability,
+  availability2: NormalizedAvailability,
+  minSessionMinutes: number
+): number {
+  return findSharedWindows(availability1, availability2, minSessionMinutes)
+    .reduce((total, window) => total + window.end - window.start, 0);
+}
@@ -0,0 +1,248 @@
+// =====================================================
+// COMPATIBILITY SCORING
+// =====================================================
+// Combines the component scorers with the freshness bonus and
+// success penalty. Used by runAutoMatching on the client and by
+// the auto-match Edge Function.
+
+import type {
+  CompatibilityScore,
+  FeedbackConfig,
+  ScoreBreakdown,
+  ScoringConfig,
+  ScoringContext,
+  ScoringUser,
+} from './types.ts';
+import { getScoringConfig } from './config.ts';
+import {
+  scoreUniversityMatch,
+  scoreSubjectOverlap,
+  scoreSubjectOverlapNormalized,
+  scoreAvailabilityOverlap,
+  scoreAvailabilityMinutes,
+  scoreStudyStyleMatch,
+  scoreStudyGoalsMatch,
+  scoreYearProximity,
+  scoreYearGap,
+  scoreInterestMatch,
+} from './scorers.ts';
+import { countPreferenceMatches } from '../preferences/index.ts';
+import { daysWaiting } from '../fairness/index.ts';
+
+/**
+ * Calculate compatibility score between two users
+ * Total possible is the sum of the config's weights (100 for v1)
+ */
+export function calculateCompatibilityScore(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  config: ScoringConfig = getScoringConfig(),
+  context?: ScoringContext
+): CompatibilityScore {
+  const { weights } = config;
+
+  const breakdown: ScoreBreakdown = {
+    universityMatch: scoreUniversityMatch(user1, user2, weights.universityMatch),
+    subjectOverlap: config.subjects
+      ? scoreSubjectOverlapNormalized(user1, user2, weights.subjectOverlap, config.subjects, context)
+      : scoreSubjectOverlap(user1, user2, weights.subjectOverlap),
+    availabilityOverlap: config.availability
+      ? scoreAvailabilityMinutes(user1, user2, weights.availabilityOverlap, config.availability)
+      : scoreAvailabilityOverlap(user1, user2, weights.availabilityOverlap),
+    studyStyleMatch: scoreStudyStyleMatch(user1, user2, weights.studyStyleMatch),
+    studyGoalsMatch: scoreStudyGoalsMatch(user1, user2, weights.studyGoalsMatch),
+    yearProximity: config.yearGap
+      ? scoreYearGap(user1, user2, weights.yearProximity, config.yearGap)
+      : scoreYearProximity(user1, user2, weights.yearProximity),
+  };
+
+  if (config.interests) {
+    breakdown.interestMatch = scoreInterestMatch(
+      user1,
+      user2,
+      weights.interestMatch ?? 0,
+      config.interests,
+      context
+    );
+  }
+
+  const total = Object.values(breakdown).reduce((sum, score) => sum + score, 0);
+
+  return { total, breakdown, scoringVersion: config.version, experiment: config.experiment };
+}
+
+/**
+ * Freshness Bonus: Up to +maxBonus points
+ * Prioritize users who are new to the platform or haven't been matched recently
+ * Decay factor reduces bonus based on number of previous matches
+ * With feedback, matches partners say never led to studying don't count
+ */
+export function calculateFreshnessBonus(
+  user: ScoringUser,
+  config: ScoringConfig = getScoringConfig()
+): number {
+  const { maxBonus, decayRate } = config.freshness;
+  const totalMatches = Math.max(
+    0,
+    (user.total_matches || 0) - (config.feedback?.discountUnstudiedMatches ? user.unstudied_matches || 0 : 0)
+  );
+
+  // New users (0 matches) get full bonus
+  if (totalMatches === 0) return maxBonus;
+
+  // Apply exponential decay based on total matches
+  const decayFactor = Math.exp(-totalMatches * decayRate);
+  return Math.round(maxBonus * decayFactor);
+}
+
+/**
+ * Success Penalty: Down to maxPenalty points
+ * Penalize users with low success rates in previous matches
+ * Helps avoid matching users who don't engage well
+ * With feedback, partner ratings raise or offset the penalty
+ */
+export function calculateSuccessPenalty(
+  user: ScoringUser,
+  config: ScoringConfig = getScoringConfig()
+): number {
+  const penaltyConfig = config.successPenalty;
+  const totalMatches = user.total_matches || 0;
+  const successfulMatches = user.successful_matches || 0;
+  const avgMessages = user.avg_messages_per_match || 0;
+
+  // No penalty for new users
+  if (totalMatches === 0) return 0;
+
+  // Penalty based on success rate
+  const successRate = successfulMatches / totalMatches;
+  const tier = penaltyConfig.tiers.find(t => successRate >= t.minSuccessRate);
+  let penalty = tier ? tier.penalty : 0;
+
+  // Additional penalty if user has very low engagement
+  if (
+    avgMessages < penaltyConfig.lowEngagementAvgMessages &&
+    totalMatches >= penaltyConfig.lowEngagementMinMatches
+  ) {
+    penalty += penaltyConfig.lowEngagementPenalty;
+  }
+
+  if (config.feedback) {
+    // Partner ratings: a low average adds to the penalty, a high one offsets it
+    penalty = Math.min(0, penalty + calculateFeedbackAdjustment(user, config.feedback));
+  }
+
+  return Math.max(penaltyConfig.maxPenalty, penalty);
+}
+
+/**
+ * Feedback Adjustment: lowRatingPenalty or +highRatingCredit
+ * Zero until a user has minRatings ratings from partners
+ */
+function calculateFeedbackAdjustment(user: ScoringUser, feedback: FeedbackConfig): number {
+  const ratings = user.feedback_received || 0;
+  const avgRating = user.avg_feedback_rating;
+  if (ratings < feedback.minRatings || avgRating === null || avgRating === undefined) return 0;
+
+  if (avgRating <= feedback.lowRating) return feedback.lowRatingPenalty;
+  if (avgRating >= feedback.highRating) return feedback.highRatingCredit;
+  return 0;
+}
+
+/**
+ * Preference Boost: Up to +maxBoost points
+ * Each user earns boostPerMatch for every soft preference the other satisfies;
+ * the pair's boost is the average of both sides
+ */
+export function calculatePreferenceBoost(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  config: ScoringConfig = getScoringConfig()
+): number {
+  if (!config.preferences) return 0;
+  const { boostPerMatch, maxBoost } = config.preferences;
+
+  const boost1 = Math.min(countPreferenceMatches(user1, user2) * boostPerMatch, maxBoost);
+  const boost2 = Math.min(countPreferenceMatches(user2, user1) * boostPerMatch, maxBoost);
+  return (boost1 + boost2) / 2;
+}
+
+/**
+ * Wait Bonus: Up to +maxBonus points
+ * pointsPerDay for each day a user has gone without a match beyond graceDays.
+ * The longer-waiting side sets the pair's bonus, so every candidate of a
+ * long-waiting user ranks higher and more of them clear the threshold
+ */
+export function calculateWaitBonus(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  config: ScoringConfig = getScoringConfig(),
+  context?: ScoringContext
+): number {
+  if (!config.fairness) return 0;
+  const { graceDays, pointsPerDay, maxBonus } = config.fairness;
+  const now = context?.now ?? Date.now();
+
+  const longestWait = Math.max(daysWaiting(user1, now) ?? 0, daysWaiting(user2, now) ?? 0);
+  return Math.min(maxBonus, Math.max(0, longestWait - graceDays) * pointsPerDay);
+}
+
+/**
+ * Calculate adjusted compatibility score with freshness, success, preference and wait factors
+ */
+export function calculateAdjustedCompatibilityScore(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  config: ScoringConfig = getScoringConfig(),
+  context?: ScoringContext
+): CompatibilityScore {
+  // Base compatibility score
+  const baseScore = calculateCompatibilityScore(user1, user2, config, context);
+
+  // Calculate freshness bonuses (prioritize fresh matches)
+  const avgFreshness =
+    (calculateFreshnessBonus(user1, config) + calculateFreshnessBonus(user2, config)) / 2;
+
+  // Calculate success penalties (avoid users with poor track records)
+  const avgPenalty =
+    (calculateSuccessPenalty(user1, config) + calculateSuccessPenalty(user2, config)) / 2;
+
+  // Soft match preferences (v4+)
+  const preferenceBoost = calculatePreferenceBoost(user1, user2, config);
+
+  // Exposure fairness (v7+)
+  const waitBonus = calculateWaitBonus(user1, user2, config, context);
+
+  // Adjusted total score
+  const adjustedTotal = Math.round(baseScore.total + avgFreshness + avgPenalty + preferenceBoost + waitBonus);
+
+  // Built field by field: an object spread here dominates cohort scoring time
+  return {
+    total: baseScore.total,
+    breakdown: baseScore.breakdown,
+    scoringVersion: baseScore.scoringVersion,
+    experiment: baseScore.experiment,
+    freshnessBonus: Math.round(avgFreshness),
+    successPenalty: Math.round(avgPenalty),
+    preferenceBoost: Math.round(preferenceBoost),
+    waitBonus: Math.round(waitBonus),
+    adjustedTotal: Math.max(0, adjustedTotal), // Ensure non-negative
+  };
+}
+
+/**
+ * The score used for thresholds and ranking
+ * Falls back to the base total when no adjustment was applied
+ */
+export function getFinalScore(score: CompatibilityScore): number {
+  return score.adjustedTotal ?? score.total;
+}
+
+/**
+ * Whether a score clears the config's auto-match threshold
+ */
+export function meetsMatchThreshold(
+  score: CompatibilityScore,
+  config: ScoringConfig = getScoringConfig()
+): boolean {
+  return getFinalScore(score) >= config.thresholds.minimumScore;
+}
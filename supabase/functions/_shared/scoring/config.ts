@@ -0,0 +1,246 @@
+// =====================================================
+// SCORING CONFIGS
+// =====================================================
+// Every set of weights and thresholds that has ever produced a
+// match lives here under its own version. Never edit a published
+// version in place - add a new one and bump CURRENT_SCORING_VERSION,
+// so match_analytics.scoring_version stays meaningful. A new version
+// spreads its parent and overrides only what it changes.
+
+import type { ScoringConfig } from './types.ts';
+
+const v1: ScoringConfig = {
+  version: 'v1',
+  // Total possible: 100 points
+  weights: {
+    universityMatch: 20,
+    subjectOverlap: 30,
+    availabilityOverlap: 20,
+    studyStyleMatch: 15,
+    studyGoalsMatch: 10,
+    yearProximity: 5,
+  },
+  thresholds: {
+    minimumScore: 40,
+  },
+  freshness: {
+    maxBonus: 15,
+    decayRate: 0.3,
+  },
+  successPenalty: {
+    tiers: [
+      { minSuccessRate: 0.8, penalty: 0 },
+      { minSuccessRate: 0.5, penalty: -3 },
+      { minSuccessRate: 0.2, penalty: -6 },
+      { minSuccessRate: 0, penalty: -10 },
+    ],
+    lowEngagementAvgMessages: 3,
+    lowEngagementMinMatches: 2,
+    lowEngagementPenalty: -5,
+    maxPenalty: -15,
+  },
+};
+
+// v2: availability scored by overlapping minutes instead of slot names
+const v2: ScoringConfig = {
+  ...v1,
+  version: 'v2',
+  availability: {
+    minSessionMinutes: 60,
+    fullOverlapMinutes: 360,
+  },
+};
+
+// v3: subjects matched by course code, per-university aliases and name similarity
+const v3: ScoringConfig = {
+  ...v2,
+  version: 'v3',
+  subjects: {
+    similarityThreshold: 0.8,
+  },
+};
+
+// v4: soft match preferences add a small boost to the adjusted score
+const v4: ScoringConfig = {
+  ...v3,
+  version: 'v4',
+  preferences: {
+    boostPerMatch: 3,
+    maxBoost: 5,
+  },
+};
+
+// Experiment variants (see _shared/experiments). Registered like any
+// version so scoring_version in match_analytics always resolves.
+
+// v4-subjects-heavy: v4 with subjects weighted over availability and style
+const v4SubjectsHeavy: ScoringConfig = {
+  ...v4,
+  version: 'v4-subjects-heavy',
+  // Total possible: 100 points
+  weights: {
+    ...v4.weights,
+    subjectOverlap: 40,
+    availabilityOverlap: 15,
+    studyStyleMatch: 10,
+  },
+};
+
+// v4-slow-decay: v4 with the freshness bonus decaying half as fast
+const v4SlowDecay: ScoringConfig = {
+  ...v4,
+  version: 'v4-slow-decay',
+  freshness: {
+    ...v4.freshness,
+    decayRate: 0.15,
+  },
+};
+
+// v5: v4 plus post-match feedback in the freshness bonus and success penalty
+const v5: ScoringConfig = {
+  ...v4,
+  version: 'v5',
+  feedback: {
+    minRatings: 2,
+    lowRating: 2.5,
+    lowRatingPenalty: -5,
+    highRating: 4.5,
+    highRatingCredit: 5,
+    discountUnstudiedMatches: true,
+  },
+};
+
+// v5-subjects-heavy: v4-subjects-heavy plus feedback, for weights-2025-01
+const v5SubjectsHeavy: ScoringConfig = {
+  ...v4SubjectsHeavy,
+  version: 'v5-subjects-heavy',
+  feedback: v5.feedback,
+};
+
+// v5-slow-decay: v4-slow-decay plus feedback, for weights-2025-01
+const v5SlowDecay: ScoringConfig = {
+  ...v4SlowDecay,
+  version: 'v5-slow-decay',
+  feedback: v5.feedback,
+};
+
+// v6: v5 plus shared interests from bio and major (TF-IDF per university)
+const v6: ScoringConfig = {
+  ...v5,
+  version: 'v6',
+  // Total possible: 100 points
+  weights: {
+    ...v5.weights,
+    studyStyleMatch: 10,
+    interestMatch: 5,
+  },
+  interests: {
+    fullSimilarity: 0.35,
+    maxDocumentShare: 0.5,
+  },
+};
+
+// v6-subjects-heavy: v5-subjects-heavy plus interests, for weights-2025-02
+const v6SubjectsHeavy: ScoringConfig = {
+  ...v5SubjectsHeavy,
+  version: 'v6-subjects-heavy',
+  // Total possible: 100 points
+  weights: {
+    ...v5SubjectsHeavy.weights,
+    studyStyleMatch: 5,
+    interestMatch: 5,
+  },
+  interests: v6.interests,
+};
+
+// v6-slow-decay: v5-slow-decay plus interests, for weights-2025-02
+const v6SlowDecay: ScoringConfig = {
+  ...v5SlowDecay,
+  version: 'v6-slow-decay',
+  // Total possible: 100 points
+  weights: {
+    ...v5SlowDecay.weights,
+    studyStyleMatch: 10,
+    interestMatch: 5,
+  },
+  interests: v6.interests,
+};
+
+// v7: v6 plus a bonus for users who have waited over a week for a match
+const v7: ScoringConfig = {
+  ...v6,
+  version: 'v7',
+  fairness: {
+    graceDays: 7,
+    pointsPerDay: 1,
+    maxBonus: 10,
+  },
+};
+
+// v7-subjects-heavy: v6-subjects-heavy plus the wait bonus, for weights-2025-03
+const v7SubjectsHeavy: ScoringConfig = {
+  ...v6SubjectsHeavy,
+  version: 'v7-subjects-heavy',
+  fairness: v7.fairness,
+};
+
+// v7-slow-decay: v6-slow-decay plus the wait bonus, for weights-2025-03
+const v7SlowDecay: ScoringConfig = {
+  ...v6SlowDecay,
+  version: 'v7-slow-decay',
+  fairness: v7.fairness,
+};
+
+// mentorship-v1: v5 for mentor/mentee pairs. Years apart score instead of
+// years close, and shared free time matters more than similar habits
+const mentorshipV1: ScoringConfig = {
+  ...v5,
+  version: 'mentorship-v1',
+  // Total possible: 100 points
+  weights: {
+    ...v5.weights,
+    subjectOverlap: 25,
+    availabilityOverlap: 25,
+    studyStyleMatch: 5,
+    yearProximity: 15,
+  },
+  yearGap: {
+    fullGapYears: 3,
+  },
+};
+
+export const SCORING_CONFIGS: Record<string, ScoringConfig> = {
+  v1,
+  v2,
+  v3,
+  v4,
+  'v4-subjects-heavy': v4SubjectsHeavy,
+  'v4-slow-decay': v4SlowDecay,
+  v5,
+  'v5-subjects-heavy': v5SubjectsHeavy,
+  'v5-slow-decay': v5SlowDecay,
+  v6,
+  'v6-subjects-heavy': v6SubjectsHeavy,
+  'v6-slow-decay': v6SlowDecay,
+  v7,
+  'v7-subjects-heavy': v7SubjectsHeavy,
+  'v7-slow-decay': v7SlowDecay,
+  'mentorship-v1': mentorshipV1,
+};
+
+export const CURRENT_SCORING_VERSION = 'v7';
+
+// Mentorship matches are scored with their own profile, outside any experiment
+export const MENTORSHIP_SCORING_VERSION = 'mentorship-v1';
+
+/**
+ * Look up a scoring config by version
+ * Defaults to the current version
+ */
+export function getScoringConfig(version: string = CURRENT_SCORING_VERSION): ScoringConfig {
+  const config = SCORING_CONFIGS[version];
+  if (!config) {
+    throw new Error(`Unknown scoring version: ${version}`);
+  }
+  return config;
+}
@@ -0,0 +1,181 @@
+// =====================================================
+// MATCH EXPLANATIONS
+// =====================================================
+// Turns a score breakdown into ranked, human-readable reasons
+// ("You both take Organic Chemistry", "You're both free Tuesday evenings")
+// shown on daily match cards and in the chat header.
+
+import type { ScoreBreakdown, ScoringConfig, ScoringContext, ScoringUser } from './types.ts';
+import { getScoringConfig } from './config.ts';
+import { calculateCompatibilityScore } from './compatibility.ts';
+import { findSharedWindows, normalizeAvailability } from './availability.ts';
+import type { SharedWindow } from './availability.ts';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSharedSubjects } from '../subjects/index.ts';
+import { findSharedInterests } from '../interests/index.ts';
+
+export interface MatchReason {
+  factor: keyof ScoreBreakdown;
+  text: string;
+  points: number; // Points this factor contributed to the score
+}
+
+export interface ExplainMatchOptions {
+  config?: ScoringConfig; // The config that produced the breakdown
+  context?: ScoringContext;
+  limit?: number;
+}
+
+// Factors scoring under this share of their weight aren't worth mentioning
+const MIN_REASON_STRENGTH = 0.5;
+
+const DEFAULT_REASON_LIMIT = 3;
+
+const STUDY_STYLE_REASONS: Record<string, string> = {
+  quiet: 'You both like to study in silence',
+  with_music: 'You both study with music on',
+  group_discussion: 'You both learn by talking things through',
+  teach_each_other: 'You both like to teach each other',
+};
+
+const STUDY_GOAL_REASONS: Record<string, string> = {
+  ace_exams: "You're both aiming to ace your exams",
+  understand_concepts: 'You both want to really understand the material',
+  just_pass: "You're both focused on getting through the class",
+  make_friends: 'You both want to make study friends',
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+/**
+ * "Tuesday evenings", or "Tuesdays" for windows covering most of the day
+ */
+function describeWindow(window: SharedWindow): string {
+  const day = capitalize(window.day);
+  if (window.end - window.start >= 6 * 60) return `${day}s`;
+
+  const midpoint = (window.start + window.end) / 2;
+  if (midpoint < 12 * 60) return `${day} mornings`;
+  if (midpoint < 17 * 60) return `${day} afternoons`;
+  return `${day} evenings`;
+}
+
+function explainSubjects(viewer: ScoringUser, other: ScoringUser, context?: ScoringContext): string | null {
+  const aliasesFor = (user: ScoringUser) =>
+    user.university ? context?.subjectAliases?.get(user.university) : undefined;
+
+  const shared = findSharedSubjects(
+    viewer.preferred_subjects || [],
+    other.preferred_subjects || [],
+    { aliases: aliasesFor(viewer), similarityThreshold: DEFAULT_SIMILARITY_THRESHOLD },
+    aliasesFor(other)
+  );
+
+  if (shared.length === 0) return null;
+  if (shared.length <= 2) return `You both take ${joinList(shared)}`;
+  return `You share ${shared.length} classes, including ${joinList(shared.slice(0, 2))}`;
+}
+
+function explainAvailability(viewer: ScoringUser, other: ScoringUser, config: ScoringConfig): string | null {
+  const availability1 = normalizeAvailability(viewer.availability);
+  const availability2 = normalizeAvailability(other.availability);
+  if (!availability1 || !availability2) return null;
+
+  const minSessionMinutes = config.availability?.minSessionMinutes ?? 60;
+  const times = Array.from(
+    new Set(findSharedWindows(availability1, availability2, minSessionMinutes).map(describeWindow))
+  );
+
+  if (times.length === 0) return null;
+  if (times.length <= 2) return `You're both free ${joinList(times)}`;
+  return `You're both free ${times.length} times a week, including ${joinList(times.slice(0, 2))}`;
+}
+
+function explainStudyStyle(viewer: ScoringUser, other: ScoringUser): string | null {
+  if (!viewer.study_style || !other.study_style) return null;
+  if (viewer.study_style === other.study_style) return STUDY_STYLE_REASONS[viewer.study_style] || null;
+  return 'Your study styles work well together';
+}
+
+function explainStudyGoals(viewer: ScoringUser, other: ScoringUser): string | null {
+  if (!viewer.study_goals || !other.study_goals) return null;
+  if (viewer.study_goals === other.study_goals) return STUDY_GOAL_REASONS[viewer.study_goals] || null;
+  return 'Your study goals line up';
+}
+
+function explainYear(viewer: ScoringUser, other: ScoringUser, config: ScoringConfig): string | null {
+  if (!viewer.year || !other.year) return null;
+  if (config.yearGap) {
+    // Mentorship: the points come from being years apart
+    return `A ${capitalize(viewer.year.toLowerCase())} and a ${capitalize(other.year.toLowerCase())}: ` +
+      'one of you has been where the other is now';
+  }
+  if (viewer.year.toLowerCase() === other.year.toLowerCase()) {
+    return `You're both ${capitalize(viewer.year.toLowerCase())}s`;
+  }
+  return "You're at a similar point in school";
+}
+
+function explainInterests(
+  viewer: ScoringUser,
+  other: ScoringUser,
+  config: ScoringConfig,
+  context?: ScoringContext
+): string | null {
+  if (!config.interests) return null;
+  const corpus = viewer.university ? context?.interestCorpora?.get(viewer.university) : undefined;
+  const shared = findSharedInterests(viewer, other, corpus, config.interests.maxDocumentShare);
+  return shared.length > 0 ? `You both mention ${joinList(shared.slice(0, 2))}` : null;
+}
+
+function explainUniversity(viewer: ScoringUser): string | null {
+  return viewer.university ? `You both go to ${viewer.university}` : null;
+}
+
+/**
+ * Ranked reasons two users were matched, from the viewer's point of view
+ * Pass the stored breakdown and its scoring config when available;
+ * otherwise the pair is scored with the current config
+ */
+export function explainMatch(
+  viewer: ScoringUser,
+  other: ScoringUser,
+  breakdown?: ScoreBreakdown | null,
+  options: ExplainMatchOptions = {}
+): MatchReason[] {
+  const config = options.config || getScoringConfig();
+  const scores = breakdown || calculateCompatibilityScore(viewer, other, config, options.context).breakdown;
+
+  const candidates: Array<{ factor: keyof ScoreBreakdown; text: string | null }> = [
+    { factor: 'subjectOverlap', text: explainSubjects(viewer, other, options.context) },
+    { factor: 'availabilityOverlap', text: explainAvailability(viewer, other, config) },
+    { factor: 'studyStyleMatch', text: explainStudyStyle(viewer, other) },
+    { factor: 'studyGoalsMatch', text: explainStudyGoals(viewer, other) },
+    { factor: 'yearProximity', text: explainYear(viewer, other, config) },
+    { factor: 'interestMatch', text: explainInterests(viewer, other, config, options.context) },
+  ];
+
+  const reasons: MatchReason[] = [];
+  for (const { factor, text } of candidates) {
+    const points = scores[factor] || 0;
+    const weight = config.weights[factor] ?? 0;
+    if (!text || points <= 0 || points < weight * MIN_REASON_STRENGTH) continue;
+    reasons.push({ factor, text, points });
+  }
+
+  // Biggest contributors first
+  reasons.sort((a, b) => b.points - a.points);
+
+  // Same university holds for every auto-match, so it only fills an empty list
+  const university = explainUniversity(viewer);
+  if (reasons.length === 0 && university && scores.universityMatch > 0) {
+    reasons.push({ factor: 'universityMatch', text: university, points: scores.universityMatch });
+  }
+
+  return reasons.slice(0, options.limit ?? DEFAULT_REASON_LIMIT);
+}
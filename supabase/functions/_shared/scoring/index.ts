@@ -0,0 +1,75 @@
+// =====================================================
+// SHARED SCORING PACKAGE
+// =====================================================
+// Isomorphic compatibility scoring for the Expo client and
+// Deno Edge Functions. Import from this file only.
+//
+// Client:  import { ... } from '@shared/scoring';
+// Deno:    import { ... } from '../_shared/scoring/index.ts';
+
+export type {
+  ScoringUser,
+  ScoreBreakdown,
+  CompatibilityScore,
+  ScoringWeights,
+  ScoringThresholds,
+  FreshnessConfig,
+  SuccessPenaltyConfig,
+  AvailabilityConfig,
+  SubjectConfig,
+  PreferenceConfig,
+  FeedbackConfig,
+  InterestConfig,
+  FairnessConfig,
+  YearGapConfig,
+  ExperimentTag,
+  ScoringConfig,
+  ScoringContext,
+} from './types.ts';
+
+export {
+  SCORING_CONFIGS,
+  CURRENT_SCORING_VERSION,
+  MENTORSHIP_SCORING_VERSION,
+  getScoringConfig,
+} from './config.ts';
+
+export {
+  scoreUniversityMatch,
+  scoreSubjectOverlap,
+  scoreSubjectOverlapNormalized,
+  scoreAvailabilityOverlap,
+  scoreAvailabilityMinutes,
+  scoreStudyStyleMatch,
+  scoreStudyGoalsMatch,
+  scoreYearProximity,
+  scoreYearGap,
+  scoreInterestMatch,
+} from './scorers.ts';
+
+export type { LegacySlot, TimeRange, NormalizedAvailability, SharedWindow } from './availability.ts';
+
+export {
+  WEEK_DAYS,
+  LEGACY_SLOT_RANGES,
+  parseTime,
+  legacySlotToDaySchedule,
+  normalizeAvailability,
+  toLegacySlot,
+  findSharedWindows,
+  calculateOverlapMinutes,
+} from './availability.ts';
+
+export {
+  calculateCompatibilityScore,
+  calculateFreshnessBonus,
+  calculateSuccessPenalty,
+  calculatePreferenceBoost,
+  calculateWaitBonus,
+  calculateAdjustedCompatibilityScore,
+  getFinalScore,
+  meetsMatchThreshold,
+} from './compatibility.ts';
+
+export type { MatchReason, ExplainMatchOptions } from './explanations.ts';
+export { explainMatch } from './explanations.ts';
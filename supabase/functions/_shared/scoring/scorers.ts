@@ -0,0 +1,271 @@
+// =====================================================
+// COMPONENT SCORERS
+// =====================================================
+// Each scorer returns points out of the weight it is given,
+// so the same logic serves every scoring version.
+
+import type {
+  AvailabilityConfig,
+  InterestConfig,
+  ScoringContext,
+  ScoringUser,
+  SubjectConfig,
+  YearGapConfig,
+} from './types.ts';
+import { WEEK_DAYS, calculateOverlapMinutes, normalizeAvailability, toLegacySlot } from './availability.ts';
+import { countSharedSubjects } from '../subjects/index.ts';
+import { profileTextSimilarity } from '../interests/index.ts';
+
+const YEAR_ORDER = ['freshman', 'sophomore', 'junior', 'senior'];
+
+const COMPATIBLE_STUDY_STYLES = [
+  ['quiet', 'with_music'],
+  ['group_discussion', 'teach_each_other'],
+];
+
+const COMPATIBLE_STUDY_GOALS = [
+  ['ace_exams', 'understand_concepts'],
+];
+
+/**
+ * University Match
+ * Must be same university (non-negotiable for auto-match)
+ */
+export function scoreUniversityMatch(user1: ScoringUser, user2: ScoringUser, weight: number): number {
+  if (!user1.university || !user2.university) return 0;
+  return user1.university.toLowerCase() === user2.university.toLowerCase() ? weight : 0;
+}
+
+/**
+ * Subject Overlap
+ * Most important factor - shared subjects mean they can actually study together
+ */
+export function scoreSubjectOverlap(user1: ScoringUser, user2: ScoringUser, weight: number): number {
+  const subjects1 = user1.preferred_subjects || [];
+  const subjects2 = user2.preferred_subjects || [];
+
+  if (subjects1.length === 0 || subjects2.length === 0) return 0;
+
+  // Normalize subjects to lowercase for comparison
+  const normalized1 = subjects1.map(s => s.toLowerCase().trim());
+  const normalized2 = subjects2.map(s => s.toLowerCase().trim());
+
+  // Count shared subjects
+  const sharedCount = normalized1.filter(s => normalized2.includes(s)).length;
+
+  if (sharedCount === 0) return 0;
+
+  // Score based on overlap ratio
+  const minLength = Math.min(subjects1.length, subjects2.length);
+  const overlapRatio = sharedCount / minLength;
+
+  return Math.round(overlapRatio * weight);
+}
+
+/**
+ * Subject Overlap (normalized)
+ * Same as scoreSubjectOverlap, but "CS 101", "cs101" and a university's
+ * aliases for it count as one course, and near-identical names match
+ */
+export function scoreSubjectOverlapNormalized(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  weight: number,
+  config: SubjectConfig,
+  context?: ScoringContext
+): number {
+  const subjects1 = user1.preferred_subjects || [];
+  const subjects2 = user2.preferred_subjects || [];
+
+  if (subjects1.length === 0 || subjects2.length === 0) return 0;
+
+  // Each user's subjects are read with their own university's aliases
+  const aliases1 = user1.university ? context?.subjectAliases?.get(user1.university) : undefined;
+  const aliases2 = user2.university ? context?.subjectAliases?.get(user2.university) : undefined;
+
+  const sharedCount = countSharedSubjects(
+    subjects1,
+    subjects2,
+    { aliases: aliases1, similarityThreshold: config.similarityThreshold },
+    aliases2
+  );
+
+  if (sharedCount === 0) return 0;
+
+  const minLength = Math.min(subjects1.length, subjects2.length);
+  return Math.round(Math.min(sharedCount / minLength, 1) * weight);
+}
+
+/**
+ * Availability Overlap (v1)
+ * Same time-of-day slot on the same day counts as overlap
+ */
+export function scoreAvailabilityOverlap(user1: ScoringUser, user2: ScoringUser, weight: number): number {
+  const avail1 = user1.availability;
+  const avail2 = user2.availability;
+  const neutral = Math.round(weight / 2);
+
+  // If either hasn't set availability, give neutral score
+  if (!avail1 || !avail2) return neutral;
+
+  let overlappingSlots = 0;
+  let totalSlots = 0;
+
+  for (const day of WEEK_DAYS) {
+    const slot1 = toLegacySlot(avail1[day]);
+    const slot2 = toLegacySlot(avail2[day]);
+
+    if (slot1 && slot1 !== 'none') totalSlots++;
+    if (slot2 && slot2 !== 'none') totalSlots++;
+
+    // Check if both have same time slot available
+    if (slot1 && slot2 && slot1 === slot2 && slot1 !== 'none') {
+      overlappingSlots++;
+    }
+  }
+
+  if (totalSlots === 0) return neutral; // Both empty, neutral
+
+  // Score based on overlap
+  const overlapRatio = overlappingSlots / (totalSlots / 2);
+  return Math.round(Math.min(overlapRatio, 1) * weight);
+}
+
+/**
+ * Availability Overlap (minutes)
+ * Weekly minutes both users are free, in windows long enough for a session
+ * Full points at config.fullOverlapMinutes of shared time
+ */
+export function scoreAvailabilityMinutes(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  weight: number,
+  config: AvailabilityConfig
+): number {
+  const avail1 = normalizeAvailability(user1.availability);
+  const avail2 = normalizeAvailability(user2.availability);
+
+  // If either hasn't set availability, give neutral score
+  if (!avail1 || !avail2) return Math.round(weight / 2);
+
+  const minutes = calculateOverlapMinutes(avail1, avail2, config.minSessionMinutes);
+  return Math.round(Math.min(minutes / config.fullOverlapMinutes, 1) * weight);
+}
+
+/**
+ * Study Style Match
+ * Preference for how they like to study
+ */
+export function scoreStudyStyleMatch(user1: ScoringUser, user2: ScoringUser, weight: number): number {
+  const style1 = user1.study_style;
+  const style2 = user2.study_style;
+
+  // If either hasn't set, give neutral score
+  if (!style1 || !style2) return Math.round(weight * (7 / 15));
+
+  // Exact match is best
+  if (style1 === style2) return weight;
+
+  // Compatible styles
+  for (const pair of COMPATIBLE_STUDY_STYLES) {
+    if (pair.includes(style1) && pair.includes(style2)) {
+      return Math.round(weight * (2 / 3));
+    }
+  }
+
+  // Different but not incompatible
+  return Math.round(weight / 3);
+}
+
+/**
+ * Study Goals Match
+ * What they want to achieve
+ */
+export function scoreStudyGoalsMatch(user1: ScoringUser, user2: ScoringUser, weight: number): number {
+  const goal1 = user1.study_goals;
+  const goal2 = user2.study_goals;
+
+  // If either hasn't set, give neutral score
+  if (!goal1 || !goal2) return Math.round(weight / 2);
+
+  // Exact match
+  if (goal1 === goal2) return weight;
+
+  // Compatible goals
+  for (const pair of COMPATIBLE_STUDY_GOALS) {
+    if (pair.includes(goal1) && pair.includes(goal2)) {
+      return Math.round(weight * 0.8);
+    }
+  }
+
+  // Incompatible (e.g., ace_exams + just_pass)
+  if (
+    (goal1 === 'ace_exams' && goal2 === 'just_pass') ||
+    (goal1 === 'just_pass' && goal2 === 'ace_exams')
+  ) {
+    return Math.round(weight * 0.2);
+  }
+
+  // Different but okay
+  return Math.round(weight / 2);
+}
+
+/**
+ * Year Proximity
+ * Prefer students in similar academic stages
+ */
+export function scoreYearProximity(user1: ScoringUser, user2: ScoringUser, weight: number): number {
+  const year1 = user1.year?.toLowerCase();
+  const year2 = user2.year?.toLowerCase();
+  const unknown = Math.round(weight * 0.4);
+
+  if (!year1 || !year2) return unknown;
+
+  const idx1 = YEAR_ORDER.indexOf(year1);
+  const idx2 = YEAR_ORDER.indexOf(year2);
+
+  if (idx1 === -1 || idx2 === -1) return unknown;
+
+  const distance = Math.abs(idx1 - idx2);
+
+  if (distance === 0) return weight; // Same year
+  if (distance === 1) return Math.round(weight * 0.8); // Adjacent year
+  if (distance === 2) return Math.round(weight * 0.4); // One year apart
+  return Math.round(weight * 0.2); // Two+ years apart
+}
+
+/**
+ * Year Gap
+ * Mentorship profiles: the further a mentor is ahead, the more they can pass on
+ */
+export function scoreYearGap(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  weight: number,
+  yearGap: YearGapConfig
+): number {
+  const idx1 = YEAR_ORDER.indexOf(user1.year?.toLowerCase() || '');
+  const idx2 = YEAR_ORDER.indexOf(user2.year?.toLowerCase() || '');
+
+  if (idx1 === -1 || idx2 === -1) return Math.round(weight * 0.4);
+
+  const distance = Math.abs(idx1 - idx2);
+  return Math.round(weight * Math.min(distance / yearGap.fullGapYears, 1));
+}
+
+/**
+ * Interest Match
+ * Shared interests in bio and major, weighted by how rare they are at the university
+ */
+export function scoreInterestMatch(
+  user1: ScoringUser,
+  user2: ScoringUser,
+  weight: number,
+  interests: InterestConfig,
+  context?: ScoringContext
+): number {
+  const corpus = user1.university ? context?.interestCorpora?.get(user1.university) : undefined;
+  const similarity = profileTextSimilarity(user1, user2, corpus, interests.maxDocumentShare);
+  if (similarity === 0) return 0;
+  return Math.round(weight * Math.min(similarity / interests.fullSimilarity, 1));
+}
@@ -0,0 +1,157 @@
+// =====================================================
+// SCORING TYPES
+// =====================================================
+// Shared between the Expo client (src/services/matching.ts)
+// and the auto-match Edge Function. Keep this file free of
+// platform imports so both runtimes can load it.
+
+import type { SubjectAliases } from '../subjects/index.ts';
+import type { MatchPreferences } from '../preferences/index.ts';
+import type { InterestCorpus } from '../interests/index.ts';
+
+/**
+ * The subset of a user row the scorers read
+ * Both the client `User` type and the Edge Function's row type satisfy it
+ */
+export interface ScoringUser {
+  id: string;
+  university: string | null;
+  year: string | null;
+  preferred_subjects: string[] | null;
+  availability: any | null;
+  study_style: string | null;
+  study_goals: string | null;
+  bio?: string | null;
+  major?: string | null;
+  total_matches?: number | null;
+  successful_matches?: number | null;
+  avg_messages_per_match?: number | null;
+  feedback_received?: number | null;
+  avg_feedback_rating?: number | null;
+  unstudied_matches?: number | null;
+  match_preferences?: MatchPreferences | null;
+  last_matched_at?: string | null;
+  created_at?: string | null;
+}
+
+export interface ScoreBreakdown {
+  universityMatch: number;
+  subjectOverlap: number;
+  availabilityOverlap: number;
+  studyStyleMatch: number;
+  studyGoalsMatch: number;
+  yearProximity: number;
+  interestMatch?: number; // v6+; absent from breakdowns of earlier versions
+}
+
+export interface CompatibilityScore {
+  total: number;
+  breakdown: ScoreBreakdown;
+  // Which scoring config produced this score (stored in match_analytics)
+  scoringVersion: string;
+  // Experiment arm whose config produced this score, if any (stored in match_analytics)
+  experiment?: ExperimentTag;
+  // Success tracking and decay factors
+  freshnessBonus?: number;
+  successPenalty?: number;
+  preferenceBoost?: number;
+  waitBonus?: number;
+  adjustedTotal?: number;
+}
+
+// Mapped over ScoreBreakdown so optional components have optional weights
+export type ScoringWeights = { [K in keyof ScoreBreakdown]: number };
+
+export interface ScoringThresholds {
+  minimumScore: number; // Adjusted score required to create an auto-match
+}
+
+export interface FreshnessConfig {
+  maxBonus: number; // Bonus for users with zero matches
+  decayRate: number; // Exponential decay per previous match
+}
+
+export interface SuccessPenaltyConfig {
+  // Checked in order, first tier whose minSuccessRate is met wins
+  tiers: Array<{ minSuccessRate: number; penalty: number }>;
+  lowEngagementAvgMessages: number;
+  lowEngagementMinMatches: number;
+  lowEngagementPenalty: number;
+  maxPenalty: number; // Most negative penalty allowed
+}
+
+export interface AvailabilityConfig {
+  minSessionMinutes: number; // Shared windows shorter than this don't count
+  fullOverlapMinutes: number; // Weekly shared minutes that earn the full weight
+}
+
+export interface SubjectConfig {
+  similarityThreshold: number; // Subject names this similar (0-1) count as shared
+}
+
+export interface PreferenceConfig {
+  boostPerMatch: number; // Points per soft preference the other user satisfies
+  maxBoost: number; // Cap on one user's boost
+}
+
+export interface FeedbackConfig {
+  minRatings: number; // Partner ratings needed before the average counts
+  lowRating: number; // Average rating at or below this adds lowRatingPenalty
+  lowRatingPenalty: number;
+  highRating: number; // Average rating at or above this offsets highRatingCredit of penalty
+  highRatingCredit: number;
+  discountUnstudiedMatches: boolean; // Matches that never led to studying don't decay freshness
+}
+
+export interface InterestConfig {
+  fullSimilarity: number; // Profile text similarity (0-1) that earns the full interestMatch weight
+  maxDocumentShare: number; // Terms in more than this share of a university's profiles are ignored
+}
+
+export interface FairnessConfig {
+  graceDays: number; // Days without a match before the wait bonus starts
+  pointsPerDay: number; // Bonus per day waited beyond graceDays
+  maxBonus: number; // Cap on the bonus (and on how far it can carry a pair over the threshold)
+}
+
+export interface YearGapConfig {
+  fullGapYears: number; // Years apart that earn the full yearProximity weight
+}
+
+export interface ExperimentTag {
+  id: string; // Experiment id (see _shared/experiments)
+  arm: string; // Arm id within the experiment
+}
+
+export interface ScoringConfig {
+  version: string;
+  weights: ScoringWeights;
+  thresholds: ScoringThresholds;
+  freshness: FreshnessConfig;
+  successPenalty: SuccessPenaltyConfig;
+  // Minute-based availability; when absent, slots are compared by name (v1)
+  availability?: AvailabilityConfig;
+  // Course-code/alias aware subjects; when absent, compared after lowercase + trim (v1, v2)
+  subjects?: SubjectConfig;
+  // Soft match preferences boost the adjusted score; when absent, they are ignored (v1-v3)
+  preferences?: PreferenceConfig;
+  // Post-match feedback adjusts freshness and the success penalty; when absent, it is ignored (v1-v4)
+  feedback?: FeedbackConfig;
+  // Shared interests in bio and major earn interestMatch points; when absent, profile text is ignored (v1-v5)
+  interests?: InterestConfig;
+  // Long waits since a user's last match earn a bonus; when absent, waits are ignored (v1-v6)
+  fairness?: FairnessConfig;
+  // Year distance earns the yearProximity points instead of closeness (mentorship profiles)
+  yearGap?: YearGapConfig;
+  // Set on configs handed out by an experiment arm; never on SCORING_CONFIGS entries
+  experiment?: ExperimentTag;
+}
+
+/**
+ * Per-run data the scorers can use beyond the two user rows
+ */
+export interface ScoringContext {
+  subjectAliases?: Map<string, SubjectAliases>; // university -> that university's alias table
+  interestCorpora?: Map<string, InterestCorpus>; // university -> that university's profile text corpus
+  now?: number; // Epoch ms wait times are measured to; defaults to the current time
+}
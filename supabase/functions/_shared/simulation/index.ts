@@ -0,0 +1,247 @@
+// =====================================================
+// AUTO-MATCH SIMULATION
+// =====================================================
+// Runs cohort pairing on a snapshot of the inputs an auto-match run
+// reads (eligible users, past matches/swipes, subject aliases) and
+// reports the proposed pairs, their scores and why everyone else was
+// skipped. Pure: nothing is written and no notifications are sent.
+//
+// Used by the auto-match function's dry run ({ "dryRun": true }), its
+// run history (why users were skipped) and the local simulate.ts command.
+
+import {
+  calculateAdjustedCompatibilityScore,
+  getFinalScore,
+  getScoringConfig,
+  meetsMatchThreshold,
+} from '../scoring/index.ts';
+import type { ScoreBreakdown, ScoringConfig, ScoringContext, ScoringUser } from '../scoring/index.ts';
+import { pairCohort } from '../pairing/index.ts';
+import type { CohortStats, PairingMode, PairingResult } from '../pairing/index.ts';
+import { buildExclusionIndex, hasMatched } from '../eligibility/index.ts';
+import type { ExclusionIndex, PairExclusions } from '../eligibility/index.ts';
+import { isMutuallyAcceptable } from '../preferences/index.ts';
+import { createPairConfigResolver } from '../experiments/index.ts';
+import type { ScoringExperiment } from '../experiments/index.ts';
+import { buildSubjectAliasMap } from '../subjects/index.ts';
+import type { UniversitySubjectAliasRow } from '../subjects/index.ts';
+import { buildInterestCorpusMap } from '../interests/index.ts';
+import type { InterestUser } from '../interests/index.ts';
+
+export interface SimulationUser extends ScoringUser {
+  full_name?: string | null;
+}
+
+/**
+ * Everything a run reads, as a database snapshot or a fixture file
+ */
+export interface MatchSnapshot<U extends SimulationUser = SimulationUser> {
+  users: U[]; // The eligible cohort
+  exclusions?: PairExclusions | null; // get_pair_exclusions payload
+  subjectAliases?: UniversitySubjectAliasRow[] | null; // subject_aliases rows
+  // University, bio and major of every onboarded user at the cohort's universities
+  // (the interest corpus); the cohort itself when absent
+  profileTexts?: InterestUser[] | null;
+  takenAt?: string | null; // When the snapshot was read; wait times are measured to it (default now)
+}
+
+export type SkipReason =
+  | 'no_university' // Can't be paired without a university
+  | 'no_campus_peers' // Nobody else eligible at their university
+  | 'already_matched' // Has matched every peer before
+  | 'ruled_out_by_preferences' // Every remaining peer fails someone's deal-breakers
+  | 'below_threshold' // No remaining peer scores the minimum
+  | 'partners_taken'; // Had candidates, but they were paired with others
+
+export interface ReportPair {
+  user1: { id: string; name: string | null };
+  user2: { id: string; name: string | null };
+  total: number;
+  adjustedTotal: number;
+  breakdown: ScoreBreakdown;
+  scoringVersion: string;
+  experimentArm: string | null;
+  freshnessBonus: number;
+  successPenalty: number;
+  preferenceBoost: number;
+  waitBonus: number;
+}
+
+export interface SkippedUser {
+  id: string;
+  name: string | null;
+  reason: SkipReason;
+  bestCandidateScore: number | null; // Best adjusted score with any allowed peer
+}
+
+export interface SimulationReport {
+  scoringVersion: string; // Config for every pair, or the fallback when an experiment runs
+  experimentId: string | null;
+  stats: CohortStats;
+  pairs: ReportPair[];
+  skipped: SkippedUser[];
+}
+
+export interface SimulationOptions {
+  mode?: PairingMode;
+  config?: ScoringConfig; // Used for every pair unless an experiment assigns arms
+  experiment?: ScoringExperiment | null;
+}
+
+type PairConfigResolver = (user1: SimulationUser, user2: SimulationUser) => ScoringConfig;
+
+// Profile fields a snapshot keeps; contact details and tokens are left out
+const SNAPSHOT_USER_FIELDS = [
+  'id',
+  'full_name',
+  'university',
+  'year',
+  'preferred_subjects',
+  'availability',
+  'study_style',
+  'study_goals',
+  'bio',
+  'major',
+  'total_matches',
+  'successful_matches',
+  'avg_messages_per_match',
+  'feedback_received',
+  'avg_feedback_rating',
+  'unstudied_matches',
+  'match_preferences',
+  'last_matched_at',
+  'created_at',
+] as const;
+
+/**
+ * Reduce a user row to the fields simulation reads
+ */
+export function toSnapshotUser(user: SimulationUser): SimulationUser {
+  const source = user as unknown as Record<string, unknown>;
+  const snapshotUser: Record<string, unknown> = {};
+  for (const field of SNAPSHOT_USER_FIELDS) {
+    if (source[field] !== undefined) snapshotUser[field] = source[field];
+  }
+  return snapshotUser as unknown as SimulationUser;
+}
+
+/**
+ * Why an unpaired user was left out, from the most to least fundamental cause
+ */
+function explainSkip<U extends SimulationUser>(
+  user: U,
+  users: U[],
+  exclusions: ExclusionIndex,
+  configForPair: PairConfigResolver,
+  context: ScoringContext
+): Pick<SkippedUser, 'reason' | 'bestCandidateScore'> {
+  if (!user.university) return { reason: 'no_university', bestCandidateScore: null };
+
+  const peers = users.filter(other => other.id !== user.id && other.university === user.university);
+  if (peers.length === 0) return { reason: 'no_campus_peers', bestCandidateScore: null };
+
+  let allowedPeers = 0;
+  let acceptablePeers = 0;
+  let bestCandidateScore: number | null = null;
+  let hasCandidate = false;
+
+  for (const peer of peers) {
+    if (hasMatched(exclusions, user.id, peer.id)) continue;
+    allowedPeers++;
+    if (!isMutuallyAcceptable(user, peer, context)) continue;
+    acceptablePeers++;
+
+    const config = configForPair(user, peer);
+    const score = calculateAdjustedCompatibilityScore(user, peer, config, context);
+    bestCandidateScore = Math.max(bestCandidateScore ?? 0, getFinalScore(score));
+    if (meetsMatchThreshold(score, config)) hasCandidate = true;
+  }
+
+  let reason: SkipReason = 'partners_taken';
+  if (allowedPeers === 0) reason = 'already_matched';
+  else if (acceptablePeers === 0) reason = 'ruled_out_by_preferences';
+  else if (!hasCandidate) reason = 'below_threshold';
+
+  return { reason, bestCandidateScore };
+}
+
+/**
+ * Turn a pairing result into a report, explaining every unpaired user
+ */
+function buildSimulationReport<U extends SimulationUser>(
+  users: U[],
+  result: PairingResult<U>,
+  exclusions: ExclusionIndex,
+  context: ScoringContext,
+  configForPair: PairConfigResolver
+): Pick<SimulationReport, 'stats' | 'pairs' | 'skipped'> {
+  const pairs: ReportPair[] = result.pairs.map(({ user1, user2, score }) => ({
+    user1: { id: user1.id, name: user1.full_name ?? null },
+    user2: { id: user2.id, name: user2.full_name ?? null },
+    total: score.total,
+    adjustedTotal: getFinalScore(score),
+    breakdown: score.breakdown,
+    scoringVersion: score.scoringVersion,
+    experimentArm: score.experiment?.arm ?? null,
+    freshnessBonus: score.freshnessBonus ?? 0,
+    successPenalty: score.successPenalty ?? 0,
+    preferenceBoost: score.preferenceBoost ?? 0,
+    waitBonus: score.waitBonus ?? 0,
+  }));
+
+  const skipped = explainSkippedUsers(users, result.unmatched, exclusions, context, configForPair);
+
+  return { stats: result.stats, pairs, skipped };
+}
+
+/**
+ * Explain why each unpaired user of a cohort was left out
+ * Also used by real auto-match runs for their run history
+ */
+export function explainSkippedUsers<U extends SimulationUser>(
+  users: U[],
+  unmatched: U[],
+  exclusions: ExclusionIndex,
+  context: ScoringContext,
+  configForPair: PairConfigResolver
+): SkippedUser[] {
+  return unmatched.map(user => ({
+    id: user.id,
+    name: user.full_name ?? null,
+    ...explainSkip(user, users, exclusions, configForPair, context),
+  }));
+}
+
+/**
+ * Pair a snapshot exactly as an auto-match run would, without side effects
+ */
+export function simulateAutoMatch<U extends SimulationUser>(
+  snapshot: MatchSnapshot<U>,
+  options: SimulationOptions = {}
+): SimulationReport {
+  const config = options.config || getScoringConfig();
+  const users = snapshot.users;
+  const exclusions = buildExclusionIndex(snapshot.exclusions || null);
+  const universities = Array.from(new Set(users.map(u => u.university).filter((u): u is string => !!u)));
+  const context: ScoringContext = {
+    subjectAliases: buildSubjectAliasMap(snapshot.subjectAliases || null, universities),
+    interestCorpora: buildInterestCorpusMap(snapshot.profileTexts || users),
+    now: snapshot.takenAt ? Date.parse(snapshot.takenAt) : Date.now(),
+  };
+
+  const configForPair = createPairConfigResolver(options.experiment ?? null, config);
+
+  const result = pairCohort(users, {
+    mode: options.mode,
+    config,
+    context,
+    configForPair,
+    isExcludedPair: (a, b) => hasMatched(exclusions, a.id, b.id),
+  });
+
+  return {
+    scoringVersion: config.version,
+    experimentId: options.experiment?.id ?? null,
+    ...buildSimulationReport(users, result, exclusions, context, configForPair),
+  };
+}
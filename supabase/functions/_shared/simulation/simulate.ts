@@ -0,0 +1,85 @@
+// =====================================================
+// LOCAL AUTO-MATCH SIMULATION
+// =====================================================
+// Runs an auto-match cycle on a fixture file and prints the report.
+// Nothing touches the database.
+//
+// Usage (from supabase/functions):
+//   deno task simulate:matching                                   # bundled test users
+//   deno task simulate:matching snapshot.json                     # saved dry-run snapshot
+//   deno task simulate:matching snapshot.json --version v2 --mode greedy
+//   deno task simulate:matching snapshot.json --weights weights.json --json
+//
+// A fixture is a MatchSnapshot: { users, exclusions?, subjectAliases?, profileTexts?, takenAt? }.
+// Save one from production with a dry run as the service role:
+//   { "dryRun": true, "includeSnapshot": true }  ->  response.snapshot
+// --weights takes a JSON file of ScoringWeights to override on the chosen version.
+// Pairs are scored by the active experiment's arms unless --version or --weights is given.
+
+import { getScoringConfig } from '../scoring/index.ts';
+import type { ScoringConfig, ScoringWeights } from '../scoring/index.ts';
+import type { PairingMode } from '../pairing/index.ts';
+import { getActiveExperiment } from '../experiments/index.ts';
+import { simulateAutoMatch } from './index.ts';
+import type { MatchSnapshot, SimulationReport } from './index.ts';
+
+const DEFAULT_FIXTURE = new URL('./fixtures/test-users.json', import.meta.url);
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function printReport(report: SimulationReport) {
+  const { stats } = report;
+  const scoring = report.experimentId ? `experiment ${report.experimentId}` : `scoring ${report.scoringVersion}`;
+  console.log(`\n${scoring}, ${stats.mode} pairing`);
+  console.log(
+    `${stats.eligibleCount} eligible, ${stats.pairCount} pairs, ${stats.unmatchedCount} unmatched, mean ${stats.meanScore}`
+  );
+  if (stats.waitTimes && stats.waitTimes.measuredCount > 0) {
+    const waits = stats.waitTimes;
+    console.log(`Days waiting: median ${waits.medianDays}, p90 ${waits.p90Days}, max ${waits.maxDays}`);
+    console.log(`  ${waits.buckets.map(bucket => `${bucket.label}: ${bucket.count}`).join(', ')}`);
+  }
+
+  console.log('\nPairs');
+  for (const pair of report.pairs) {
+    const names = `${pair.user1.name || pair.user1.id} & ${pair.user2.name || pair.user2.id}`;
+    const arm = pair.experimentArm ? `${pair.experimentArm}, ` : '';
+    const adjustments = `${arm}fresh ${pair.freshnessBonus}, penalty ${pair.successPenalty}, prefs ${pair.preferenceBoost}, wait ${pair.waitBonus}`;
+    console.log(`  ${names.padEnd(40)} ${String(pair.adjustedTotal).padStart(3)} (base ${pair.total}; ${adjustments})`);
+  }
+
+  console.log('\nSkipped');
+  for (const user of report.skipped) {
+    const best = user.bestCandidateScore === null ? '' : ` (best candidate ${user.bestCandidateScore})`;
+    console.log(`  ${(user.name || user.id).padEnd(40)} ${user.reason}${best}`);
+  }
+}
+
+async function main() {
+  const args = Deno.args;
+  const fixturePath = args[0] && !args[0].startsWith('--') ? args[0] : DEFAULT_FIXTURE;
+  const snapshot: MatchSnapshot = JSON.parse(await Deno.readTextFile(fixturePath));
+
+  const version = readFlag(args, '--version');
+  const weightsPath = readFlag(args, '--weights');
+  let config: ScoringConfig = getScoringConfig(version);
+  if (weightsPath) {
+    const weights: Partial<ScoringWeights> = JSON.parse(await Deno.readTextFile(weightsPath));
+    config = { ...config, version: `${config.version}-custom`, weights: { ...config.weights, ...weights } };
+  }
+
+  const mode = readFlag(args, '--mode') as PairingMode | undefined;
+  const experiment = version || weightsPath ? null : getActiveExperiment();
+  const report = simulateAutoMatch(snapshot, { mode, config, experiment });
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+}
+
+main();
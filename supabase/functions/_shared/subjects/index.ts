@@ -0,0 +1,294 @@
+// =====================================================
+// SUBJECT NORMALIZATION
+// =====================================================
+// Decides when two free-text subjects are the same course.
+// Used by compatibility scoring (v3+) and Nest suggestions/search.
+//
+//   1. Course codes are canonicalized: "CS 101", "cs101", "CS-101" -> CS101
+//   2. A per-university alias table maps names onto codes or names
+//      ("Intro to Computer Science" -> CS101 at that university)
+//   3. Remaining names are compared by bigram similarity
+//      ("Intro to Comp Sci" ~ "Introduction to Computer Science")
+
+export interface SubjectAliasRow {
+  alias: string;
+  canonical: string;
+}
+
+// A subject_aliases table row
+export interface UniversitySubjectAliasRow extends SubjectAliasRow {
+  university: string;
+}
+
+export interface SubjectAliases {
+  byKey: Map<string, string>; // subjectKey(alias) -> subjectKey(canonical)
+  rows: SubjectAliasRow[];
+}
+
+export interface SubjectMatchOptions {
+  aliases?: SubjectAliases;
+  // Names at or above this similarity count as the same subject; omit to disable
+  similarityThreshold?: number;
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+
+// Leading course code, optionally followed by a title ("CS 101 - Intro to ...")
+const COURSE_CODE_PATTERN = /^([a-z]{2,5})\s*[-_.]?\s*(\d{2,4}[a-z]{0,2})(?![a-z0-9])/i;
+
+// Common shorthand students type, expanded word by word
+const ABBREVIATIONS: Record<string, string> = {
+  intro: 'introduction',
+  calc: 'calculus',
+  chem: 'chemistry',
+  orgo: 'organic chemistry',
+  bio: 'biology',
+  phys: 'physics',
+  econ: 'economics',
+  psych: 'psychology',
+  stats: 'statistics',
+  stat: 'statistics',
+  comp: 'computer',
+  sci: 'science',
+  lin: 'linear',
+  alg: 'algebra',
+  eng: 'engineering',
+  lit: 'literature',
+  hist: 'history',
+  philo: 'philosophy',
+  diffeq: 'differential equations',
+};
+
+const STOP_WORDS = new Set(['to', 'of', 'the', 'and', 'in', 'for', 'a', 'an']);
+
+// Course levels must agree for names to match ("Calculus I" is not "Calculus II")
+const LEVELS: Record<string, string> = { i: '1', ii: '2', iii: '3', iv: '4', v: '5' };
+
+// Pre-split form of a subject key, so cohort scoring parses each subject once
+interface ParsedSubject {
+  key: string;
+  isCode: boolean;
+  levels: string;
+  grams: Set<string>;
+}
+
+const MAX_CACHE_SIZE = 10000;
+const NO_ALIASES = {};
+const keyCache = new WeakMap<object, Map<string, string>>();
+const parsedCache = new Map<string, ParsedSubject>();
+const listCache = new WeakMap<object, WeakMap<string[], ParsedSubject[]>>();
+
+/**
+ * Canonical course code (e.g. "CS101"), or null when the subject doesn't start with one
+ */
+export function canonicalCourseCode(subject: string): string | null {
+  const match = COURSE_CODE_PATTERN.exec((subject || '').trim());
+  return match ? `${match[1]}${match[2]}`.toUpperCase() : null;
+}
+
+/**
+ * Lowercase words with punctuation, stop words and shorthand normalized
+ */
+export function normalizeSubjectText(subject: string): string {
+  return (subject || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] || LEVELS[word] || word)
+    .join(' ')
+    .split(' ')
+    .filter(word => !STOP_WORDS.has(word))
+    .join(' ');
+}
+
+function baseKey(subject: string): string {
+  return canonicalCourseCode(subject) || normalizeSubjectText(subject);
+}
+
+/**
+ * Build the lookup for one university's alias rows
+ */
+export function buildSubjectAliases(rows: SubjectAliasRow[] | null): SubjectAliases {
+  const byKey = new Map<string, string>();
+  for (const row of rows || []) {
+    byKey.set(baseKey(row.alias), baseKey(row.canonical));
+  }
+  return { byKey, rows: rows || [] };
+}
+
+/**
+ * Build alias lookups for several universities from subject_aliases rows
+ * Every listed university gets a table, empty when it has no rows
+ */
+export function buildSubjectAliasMap(
+  rows: UniversitySubjectAliasRow[] | null,
+  universities: string[]
+): Map<string, SubjectAliases> {
+  const rowsByUniversity = new Map<string, SubjectAliasRow[]>();
+  for (const row of rows || []) {
+    const list = rowsByUniversity.get(row.university) || [];
+    list.push({ alias: row.alias, canonical: row.canonical });
+    rowsByUniversity.set(row.university, list);
+  }
+
+  const aliases = new Map<string, SubjectAliases>();
+  for (const university of universities) {
+    aliases.set(university, buildSubjectAliases(rowsByUniversity.get(university) || null));
+  }
+  return aliases;
+}
+
+/**
+ * Comparable key for a subject: course code, alias target or normalized name
+ */
+export function subjectKey(subject: string, aliases?: SubjectAliases): string {
+  let cache = keyCache.get(aliases || NO_ALIASES);
+  if (!cache) {
+    cache = new Map<string, string>();
+    keyCache.set(aliases || NO_ALIASES, cache);
+  }
+
+  let key = cache.get(subject);
+  if (key === undefined) {
+    const base = baseKey(subject);
+    key = aliases?.byKey.get(base) ?? base;
+    cache.set(subject, key);
+  }
+  return key;
+}
+
+function isCourseCode(key: string): boolean {
+  return /^[A-Z]{2,5}\d/.test(key);
+}
+
+function parseKey(key: string): ParsedSubject {
+  let parsed = parsedCache.get(key);
+  if (!parsed) {
+    const grams = new Set<string>();
+    for (let i = 0; i < key.length - 1; i++) grams.add(key.slice(i, i + 2));
+    parsed = {
+      key,
+      isCode: isCourseCode(key),
+      levels: key.split(' ').filter(word => /^\d+$/.test(word)).join(' '),
+      grams,
+    };
+    if (parsedCache.size > MAX_CACHE_SIZE) parsedCache.clear();
+    parsedCache.set(key, parsed);
+  }
+  return parsed;
+}
+
+function parsedSimilarity(subject1: ParsedSubject, subject2: ParsedSubject): number {
+  if (subject1.key === subject2.key) return 1;
+  if (subject1.isCode || subject2.isCode) return 0;
+  if (subject1.levels !== subject2.levels) return 0;
+  if (subject1.grams.size === 0 || subject2.grams.size === 0) return 0;
+
+  let shared = 0;
+  for (const gram of subject1.grams) {
+    if (subject2.grams.has(gram)) shared++;
+  }
+  return (2 * shared) / (subject1.grams.size + subject2.grams.size);
+}
+
+/**
+ * Dice similarity of two subject keys (0-1)
+ * Course codes only ever match exactly, and course levels must agree
+ */
+export function subjectSimilarity(key1: string, key2: string): number {
+  return parsedSimilarity(parseKey(key1), parseKey(key2));
+}
+
+function parseSubjects(subjects: string[], aliases?: SubjectAliases): ParsedSubject[] {
+  let byList = listCache.get(aliases || NO_ALIASES);
+  if (!byList) {
+    byList = new WeakMap<string[], ParsedSubject[]>();
+    listCache.set(aliases || NO_ALIASES, byList);
+  }
+
+  let parsed = byList.get(subjects);
+  if (!parsed) {
+    parsed = subjects.map(subject => parseKey(subjectKey(subject, aliases)));
+    byList.set(subjects, parsed);
+  }
+  return parsed;
+}
+
+function matchesParsed(subject1: ParsedSubject, subject2: ParsedSubject, similarityThreshold?: number): boolean {
+  if (subject1.key === subject2.key) return true;
+  return similarityThreshold !== undefined && parsedSimilarity(subject1, subject2) >= similarityThreshold;
+}
+
+/**
+ * Whether two subjects refer to the same course
+ * Each side can use its own university's aliases
+ */
+export function subjectsMatch(
+  subject1: string,
+  subject2: string,
+  options: SubjectMatchOptions = {},
+  aliases2: SubjectAliases | undefined = options.aliases
+): boolean {
+  return matchesParsed(
+    parseKey(subjectKey(subject1, options.aliases)),
+    parseKey(subjectKey(subject2, aliases2)),
+    options.similarityThreshold
+  );
+}
+
+/**
+ * The subjects in subjects1 that also appear in subjects2 (as written in subjects1)
+ */
+export function findSharedSubjects(
+  subjects1: string[],
+  subjects2: string[],
+  options: SubjectMatchOptions = {},
+  aliases2: SubjectAliases | undefined = options.aliases
+): string[] {
+  const parsed1 = parseSubjects(subjects1, options.aliases);
+  const parsed2 = parseSubjects(subjects2, aliases2);
+  return subjects1.filter((_, index) =>
+    parsed2.some(subject2 => matchesParsed(parsed1[index], subject2, options.similarityThreshold))
+  );
+}
+
+/**
+ * How many of subjects1 appear in subjects2
+ */
+export function countSharedSubjects(
+  subjects1: string[],
+  subjects2: string[],
+  options: SubjectMatchOptions = {},
+  aliases2: SubjectAliases | undefined = options.aliases
+): number {
+  return findSharedSubjects(subjects1, subjects2, options, aliases2).length;
+}
+
+/**
+ * ILIKE patterns (without surrounding %) that find a subject however it was typed
+ * Includes a separator-tolerant course code pattern and any aliases of the search
+ */
+export function buildSubjectSearchPatterns(search: string, aliases?: SubjectAliases): string[] {
+  // Characters that would break a PostgREST or() filter
+  const clean = (value: string) => value.replace(/[,()%*\\]/g, ' ').replace(/\s+/g, ' ').trim();
+  const codePattern = (code: string) => code.replace(/^([A-Z]+)(\d.*)$/, '$1%$2');
+
+  const patterns = new Set<string>();
+  const trimmed = clean(search);
+  if (trimmed) patterns.add(trimmed);
+
+  const code = canonicalCourseCode(trimmed);
+  if (code) patterns.add(codePattern(code));
+
+  const key = subjectKey(trimmed, aliases);
+  if (isCourseCode(key)) patterns.add(codePattern(key));
+  for (const row of aliases?.rows || []) {
+    if (subjectKey(row.alias, aliases) !== key) continue;
+    patterns.add(clean(row.alias));
+    patterns.add(clean(row.canonical));
+  }
+
+  return Array.from(patterns).filter(Boolean);
+}
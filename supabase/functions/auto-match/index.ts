@@ -2,6 +2,72 @@
 // Runs on a schedule to match compatible users
 
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { MENTORSHIP_SCORING_VERSION, getFinalScore, getScoringConfig } from '../_shared/scoring/index.ts';
+import type { ScoringConfig, ScoringUser } from '../_shared/scoring/index.ts';
+import { DEFAULT_PAIRING_MODE, autoMatchIdempotencyKey, pairCohort } from '../_shared/pairing/index.ts';
+import type { PairingMode } from '../_shared/pairing/index.ts';
+import { buildExclusionIndex, fetchAllPages, hasMatched, notPausedFilter } from '../_shared/eligibility/index.ts';
+import type { PairExclusions } from '../_shared/eligibility/index.ts';
+import { buildSubjectAliasMap } from '../_shared/subjects/index.ts';
+import type { UniversitySubjectAliasRow } from '../_shared/subjects/index.ts';
+import { buildInterestCorpusMap } from '../_shared/interests/index.ts';
+import type { InterestUser } from '../_shared/interests/index.ts';
+import { explainSkippedUsers, simulateAutoMatch, toSnapshotUser } from '../_shared/simulation/index.ts';
+import type { SimulationReport } from '../_shared/simulation/index.ts';
+import { createPairConfigResolver, getActiveExperiment } from '../_shared/experiments/index.ts';
+import { sendPushNotification } from '../_shared/push/index.ts';
+import { isAuthorizedCaller } from '../_shared/auth/index.ts';
+import { DEFAULT_MAX_GROUP_SIZE, DEFAULT_MIN_GROUP_SIZE, formStudyGroups } from '../_shared/grouping/index.ts';
+import type { ProposedGroup } from '../_shared/grouping/index.ts';
+import { MENTOR_BADGE_IDS, mentorshipIdempotencyKey, pairMentorships } from '../_shared/mentorship/index.ts';
+import type { MentorshipRole, ProposedMentorship } from '../_shared/mentorship/index.ts';
+
+// Group mode: opted-in users join a new auto Nest at most this often
+const GROUP_MATCH_INTERVAL_DAYS = 14;
+
+// Mentorship mode: opted-in users get a new mentorship match at most this often
+const MENTORSHIP_MATCH_INTERVAL_DAYS = 7;
+
+// member_limit of auto-created Nests; groups never grow past it
+const AUTO_NEST_MEMBER_LIMIT = DEFAULT_MAX_GROUP_SIZE;
+
+// A run holds its mode's lease this long at most; a crashed run frees it
+// after this (migration 20241210000015). Well above the longest run.
+const RUN_LEASE_TTL = '10 minutes';
+
+// auto_match_run_users rows are inserted in batches of this size
+const RUN_USERS_BATCH_SIZE = 500;
+
+type RunMode = 'pairs' | 'groups' | 'mentorship';
+
+interface RunInfo {
+  mode: RunMode;
+  dryRun: boolean;
+  scoringVersion: string;
+  experimentId?: string | null;
+  pairingMode?: PairingMode;
+}
+
+// Final numbers of a run for auto_match_runs (migration 20241210000014)
+interface RunSummary {
+  eligibleCount: number;
+  matchesCreated?: number;
+  nestsCreated?: number;
+  skippedCount?: number;
+  stats?: unknown;
+  errors?: string[];
+}
+
+// A user's outcome in a pair run (auto_match_run_users, without run_id)
+interface RunUserRow {
+  user_id: string;
+  outcome: 'matched' | 'skipped' | 'failed';
+  partner_id?: string | null;
+  match_id?: string | null;
+  score?: number | null;
+  skip_reason?: string | null;
+  best_candidate_score?: number | null;
+}
 
 function jsonResponse(body: Record<string, any>, status = 200) {
   return new Response(JSON.stringify(body), {
@@ -10,307 +76,746 @@ function jsonResponse(body: Record<string, any>, status = 200) {
   });
 }
 
-// Helper function to send push notification
-async function sendPushNotification(params: {
-  expoPushToken: string;
-  title: string;
-  body: string;
-  data?: any;
-}): Promise<boolean> {
-  try {
-    const message = {
-      to: params.expoPushToken,
-      sound: 'default',
-      title: params.title,
-      body: params.body,
-      data: params.data || {},
-    };
+// Take the mode's run lease; false when another run holds it
+async function acquireRunLease(supabase: any, mode: RunMode, holder: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('acquire_auto_match_lease', {
+    p_name: mode,
+    p_holder: holder,
+    p_ttl: RUN_LEASE_TTL,
+  });
+
+  if (error) {
+    throw new Error(`Error acquiring run lease: ${error.message}`);
+  }
+  return data === true;
+}
+
+async function releaseRunLease(supabase: any, mode: RunMode, holder: string): Promise<void> {
+  const { error } = await supabase.rpc('release_auto_match_lease', {
+    p_name: mode,
+    p_holder: holder,
+  });
+
+  if (error) console.error('Error releasing run lease:', error);
+}
 
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
-      method: 'POST',
-      headers: {
-        Accept: 'application/json',
-        'Accept-encoding': 'gzip, deflate',
-        'Content-Type': 'application/json',
+// Clear pauses that have ended and welcome those users back
+// Runs before the eligibility query so they join this cycle's cohort
+async function resumePausedUsers(supabase: any): Promise<number> {
+  const { data: resumed, error } = await supabase.rpc('resume_paused_users');
+  if (error) {
+    console.error('Error resuming paused users:', error);
+    return 0;
+  }
+
+  for (const user of resumed || []) {
+    if (!user.push_token) continue;
+    await sendPushNotification({
+      expoPushToken: user.push_token,
+      title: 'Welcome back! 👋',
+      body: 'Matching is back on. Your next study partner is on the way.',
+      data: {
+        type: 'matching_resumed',
+        nextMatchAt: user.next_auto_match_at,
       },
-      body: JSON.stringify(message),
     });
+  }
 
-    return true;
-  } catch (error) {
-    console.error('Error sending push notification:', error);
-    return false;
+  return (resumed || []).length;
+}
+
+// Subject alias rows for a cohort's universities (empty on error)
+async function loadSubjectAliasRows(supabase: any, universities: string[]): Promise<UniversitySubjectAliasRow[]> {
+  const { data, error } = await supabase
+    .from('subject_aliases')
+    .select('university, alias, canonical')
+    .in('university', universities);
+
+  if (error) {
+    console.error('Error fetching subject aliases:', error);
   }
+  return (data || []) as UniversitySubjectAliasRow[];
 }
 
-// Types
-interface User {
-  id: string;
-  email: string;
-  full_name: string | null;
-  university: string | null;
-  major: string | null;
-  year: string | null;
-  bio: string | null;
-  profile_photo_url: string | null;
-  preferred_subjects: string[] | null;
-  availability: any | null;
-  study_style: string | null;
-  study_goals: string | null;
-  push_token: string | null;
-  last_auto_match_cycle: string | null;
-  onboarding_completed: boolean | null;
-  created_at: string;
+// University, bio and major of every onboarded user at these universities,
+// the corpus shared interests are weighed against (empty on error)
+async function loadProfileTexts(supabase: any, universities: string[]): Promise<InterestUser[]> {
+  try {
+    return await fetchAllPages<InterestUser>((from, to) =>
+      supabase
+        .from('users')
+        .select('university, bio, major')
+        .in('university', universities)
+        .eq('onboarding_completed', true)
+        .order('id')
+        .range(from, to)
+    );
+  } catch (error) {
+    console.error('Error fetching profile texts:', error);
+    return [];
+  }
 }
 
-interface CompatibilityScore {
-  total: number;
-  breakdown: {
-    universityMatch: number;
-    subjectOverlap: number;
-    availabilityOverlap: number;
-    studyStyleMatch: number;
-    studyGoalsMatch: number;
-    yearProximity: number;
-  };
+// Run history is best-effort: a failed write is logged and never stops matching
+
+// Record the start of a run; returns its id, or null if it couldn't be saved
+// A run skipped because another holds the lease is recorded as finished
+async function startRun(supabase: any, run: RunInfo, status: 'running' | 'skipped' = 'running'): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('auto_match_runs')
+    .insert({
+      mode: run.mode,
+      dry_run: run.dryRun,
+      status,
+      finished_at: status === 'skipped' ? new Date().toISOString() : null,
+      scoring_version: run.scoringVersion,
+      experiment_id: run.experimentId ?? null,
+      pairing_mode: run.pairingMode ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error recording auto-match run:', error);
+    return null;
+  }
+  return data.id;
 }
 
-// Scoring functions (same as matching.ts)
-function scoreUniversityMatch(user1: User, user2: User): number {
-  if (!user1.university || !user2.university) return 0;
-  return user1.university.toLowerCase() === user2.university.toLowerCase() ? 20 : 0;
+async function finishRun(supabase: any, runId: string | null, summary: RunSummary): Promise<void> {
+  if (!runId) return;
+
+  const { error } = await supabase
+    .from('auto_match_runs')
+    .update({
+      status: 'succeeded',
+      finished_at: new Date().toISOString(),
+      eligible_count: summary.eligibleCount,
+      matches_created: summary.matchesCreated ?? 0,
+      nests_created: summary.nestsCreated ?? 0,
+      skipped_count: summary.skippedCount ?? 0,
+      stats: summary.stats ?? null,
+      errors: summary.errors ?? [],
+    })
+    .eq('id', runId);
+
+  if (error) console.error('Error finishing auto-match run:', error);
 }
 
-function scoreSubjectOverlap(user1: User, user2: User): number {
-  const subjects1 = user1.preferred_subjects || [];
-  const subjects2 = user2.preferred_subjects || [];
+async function failRun(supabase: any, runId: string | null, message: string): Promise<void> {
+  if (!runId) return;
 
-  if (subjects1.length === 0 || subjects2.length === 0) return 0;
+  const { error } = await supabase
+    .from('auto_match_runs')
+    .update({ status: 'failed', finished_at: new Date().toISOString(), error: message })
+    .eq('id', runId);
 
-  const normalized1 = subjects1.map(s => s.toLowerCase().trim());
-  const normalized2 = subjects2.map(s => s.toLowerCase().trim());
+  if (error) console.error('Error marking auto-match run failed:', error);
+}
 
-  const sharedCount = normalized1.filter(s => normalized2.includes(s)).length;
-  if (sharedCount === 0) return 0;
+async function recordRunUsers(supabase: any, runId: string | null, rows: RunUserRow[]): Promise<void> {
+  if (!runId) return;
 
-  const minLength = Math.min(subjects1.length, subjects2.length);
-  const overlapRatio = sharedCount / minLength;
+  for (let start = 0; start < rows.length; start += RUN_USERS_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('auto_match_run_users')
+      .insert(rows.slice(start, start + RUN_USERS_BATCH_SIZE).map(row => ({ ...row, run_id: runId })));
 
-  return Math.round(overlapRatio * 30);
+    if (error) {
+      console.error('Error recording auto-match run users:', error);
+      return;
+    }
+  }
 }
 
-function scoreAvailabilityOverlap(user1: User, user2: User): number {
-  const avail1 = user1.availability;
-  const avail2 = user2.availability;
+// Per-user rows for a dry run: proposed pairs count as matched
+function reportToRunUsers(report: SimulationReport): RunUserRow[] {
+  const rows: RunUserRow[] = [];
+  for (const pair of report.pairs) {
+    rows.push(
+      { user_id: pair.user1.id, outcome: 'matched', partner_id: pair.user2.id, score: pair.adjustedTotal },
+      { user_id: pair.user2.id, outcome: 'matched', partner_id: pair.user1.id, score: pair.adjustedTotal }
+    );
+  }
+  for (const user of report.skipped) {
+    rows.push({
+      user_id: user.id,
+      outcome: 'skipped',
+      skip_reason: user.reason,
+      best_candidate_score: user.bestCandidateScore,
+    });
+  }
+  return rows;
+}
 
-  if (!avail1 || !avail2) return 10;
+function buildGroupWelcomeMessage(group: ProposedGroup<User>): string {
+  return `👋 Welcome to your ${group.subject} study group! ` +
+    `Peerly put the ${group.members.length} of you together because you're all taking ${group.subject}. ` +
+    'Say hi and pick a time to study together.';
+}
 
-  const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-  let overlappingSlots = 0;
-  let totalSlots = 0;
+// Group mode: cluster opted-in users who share a course into auto Nests
+async function runGroupMatching(supabase: any, config: ScoringConfig, dryRun: boolean, runId: string | null) {
+  console.log(`Starting group matching ${dryRun ? 'dry run' : 'cycle'} (scoring ${config.version})...`);
 
-  for (const day of days) {
-    const slot1 = avail1[day];
-    const slot2 = avail2[day];
+  const now = new Date();
+  const groupCutoff = new Date(now.getTime() - GROUP_MATCH_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
 
-    if (slot1 && slot1 !== 'none') totalSlots++;
-    if (slot2 && slot2 !== 'none') totalSlots++;
+  const eligible = await fetchAllPages<User>((from, to) =>
+    supabase
+      .from('users')
+      .select('*')
+      .eq('onboarding_completed', true)
+      .eq('group_matching_opt_in', true)
+      .or(`last_group_match_at.is.null,last_group_match_at.lte.${groupCutoff}`)
+      .or(notPausedFilter(now.toISOString()))
+      .order('id')
+      .range(from, to)
+  ).catch((usersError) => {
+    throw new Error(`Error fetching users: ${usersError.message}`);
+  });
+  console.log(`Found ${eligible.length} users eligible for group matching`);
 
-    if (slot1 && slot2 && slot1 === slot2 && slot1 !== 'none') {
-      overlappingSlots++;
-    }
+  if (eligible.length < DEFAULT_MIN_GROUP_SIZE) {
+    await finishRun(supabase, runId, { eligibleCount: eligible.length, skippedCount: eligible.length });
+    return { success: true, dryRun, nestsCreated: 0, message: 'Not enough opted-in users' };
   }
 
-  if (totalSlots === 0) return 10;
+  const universities = Array.from(new Set(eligible.map(u => u.university).filter(Boolean))) as string[];
+  const aliasRows = await loadSubjectAliasRows(supabase, universities);
+  const subjectAliases = buildSubjectAliasMap(aliasRows, universities);
+  const interestCorpora = buildInterestCorpusMap(await loadProfileTexts(supabase, universities));
 
-  const overlapRatio = overlappingSlots / (totalSlots / 2);
-  return Math.round(Math.min(overlapRatio, 1) * 20);
-}
+  const { groups, stats } = formStudyGroups(eligible, {
+    config,
+    context: { subjectAliases, interestCorpora },
+    maxSize: AUTO_NEST_MEMBER_LIMIT,
+  });
+  console.log('Group matching:', stats);
 
-function scoreStudyStyleMatch(user1: User, user2: User): number {
-  const style1 = user1.study_style;
-  const style2 = user2.study_style;
+  if (dryRun) {
+    await finishRun(supabase, runId, { eligibleCount: eligible.length, skippedCount: stats.ungroupedCount, stats });
+    return {
+      success: true,
+      dryRun: true,
+      nestsCreated: 0,
+      stats,
+      groups: groups.map(group => ({
+        university: group.university,
+        subject: group.subject,
+        meanScore: group.meanScore,
+        members: group.members.map(member => ({ id: member.id, name: member.full_name })),
+      })),
+    };
+  }
 
-  if (!style1 || !style2) return 7;
-  if (style1 === style2) return 15;
+  let nestsCreated = 0;
+  const errors: string[] = [];
+
+  for (const group of groups) {
+    const { data: nestId, error: nestError } = await supabase.rpc('create_auto_nest', {
+      p_name: `${group.subject} Study Group`,
+      p_subject: group.subject,
+      p_university: group.university,
+      p_member_ids: group.members.map(member => member.id),
+      p_welcome_message: buildGroupWelcomeMessage(group),
+      p_member_limit: AUTO_NEST_MEMBER_LIMIT,
+    });
 
-  const compatible = [
-    ['quiet', 'with_music'],
-    ['group_discussion', 'teach_each_other'],
-  ];
+    if (nestError || !nestId) {
+      errors.push(`Failed to create auto Nest for ${group.subject}: ${nestError?.message}`);
+      continue;
+    }
 
-  for (const pair of compatible) {
-    if (pair.includes(style1) && pair.includes(style2)) {
-      return 10;
+    console.log(`Created auto Nest ${nestId} for ${group.members.length} students in ${group.subject}`);
+    nestsCreated++;
+
+    for (const member of group.members) {
+      if (!member.push_token) continue;
+      await sendPushNotification({
+        expoPushToken: member.push_token,
+        title: 'New Study Group! 🪺',
+        body: `You've been added to a ${group.subject} study group with ${group.members.length - 1} classmates`,
+        data: {
+          type: 'new_nest',
+          nestId,
+        },
+      });
     }
   }
 
-  return 5;
+  console.log(`Group matching complete. Created ${nestsCreated} Nests.`);
+
+  await finishRun(supabase, runId, {
+    eligibleCount: eligible.length,
+    nestsCreated,
+    skippedCount: stats.ungroupedCount,
+    stats,
+    errors,
+  });
+
+  return {
+    success: true,
+    nestsCreated,
+    scoringVersion: config.version,
+    stats,
+    errors: errors.length > 0 ? errors : undefined,
+  };
 }
 
-function scoreStudyGoalsMatch(user1: User, user2: User): number {
-  const goal1 = user1.study_goals;
-  const goal2 = user2.study_goals;
+function buildMentorshipFirstMessage(pair: ProposedMentorship<User>): string {
+  const subject = pair.subjects[0];
+  const menteeName = pair.mentee.full_name?.split(' ')[0] || 'there';
+  return `🎓 Hi ${menteeName}! This is a mentorship match: I've already taken ${subject} and you're taking it now. ` +
+    'Happy to share notes, tips and what I wish I had known.';
+}
 
-  if (!goal1 || !goal2) return 5;
-  if (goal1 === goal2) return 10;
+// Mentorship mode: pair opted-in mentors with mentees taking a course they've taken
+async function runMentorshipMatching(supabase: any, config: ScoringConfig, dryRun: boolean, runId: string | null) {
+  console.log(`Starting mentorship matching ${dryRun ? 'dry run' : 'cycle'} (scoring ${config.version})...`);
 
-  const compatible = [['ace_exams', 'understand_concepts']];
+  const now = new Date();
+  const mentorshipCutoff = new Date(now.getTime() - MENTORSHIP_MATCH_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
 
-  for (const pair of compatible) {
-    if (pair.includes(goal1) && pair.includes(goal2)) {
-      return 8;
-    }
+  const eligible = await fetchAllPages<User>((from, to) =>
+    supabase
+      .from('users')
+      .select('*')
+      .eq('onboarding_completed', true)
+      .not('mentorship_role', 'is', null)
+      .or(`last_mentorship_match_at.is.null,last_mentorship_match_at.lte.${mentorshipCutoff}`)
+      .or(notPausedFilter(now.toISOString()))
+      .order('id')
+      .range(from, to)
+  ).catch((usersError) => {
+    throw new Error(`Error fetching users: ${usersError.message}`);
+  });
+  console.log(`Found ${eligible.length} users opted in to mentorship`);
+
+  if (eligible.length < 2) {
+    await finishRun(supabase, runId, { eligibleCount: eligible.length, skippedCount: eligible.length });
+    return { success: true, dryRun, matchesCreated: 0, message: 'Not enough opted-in users' };
   }
 
-  if (
-    (goal1 === 'ace_exams' && goal2 === 'just_pass') ||
-    (goal1 === 'just_pass' && goal2 === 'ace_exams')
-  ) {
-    return 2;
+  // Tutor and mentor badge holders can mentor in any year
+  const mentorIds = eligible.filter(user => user.mentorship_role === 'mentor').map(user => user.id);
+  const { data: badgeRows, error: badgeError } = mentorIds.length > 0
+    ? await supabase
+        .from('user_badges')
+        .select('user_id')
+        .in('badge_id', MENTOR_BADGE_IDS)
+        .eq('verified', true)
+        .in('user_id', mentorIds)
+    : { data: [], error: null };
+
+  if (badgeError) {
+    throw new Error(`Error fetching mentor badges: ${badgeError.message}`);
   }
 
-  return 5;
-}
+  // Never pair users who have matched before, in any kind of match
+  const { data: exclusionData, error: exclusionError } = await supabase.rpc('get_pair_exclusions', {
+    p_user_ids: eligible.map(u => u.id),
+  });
 
-function scoreYearProximity(user1: User, user2: User): number {
-  const year1 = user1.year?.toLowerCase();
-  const year2 = user2.year?.toLowerCase();
+  if (exclusionError) {
+    throw new Error(`Error fetching existing matches: ${exclusionError.message}`);
+  }
+  const exclusions = buildExclusionIndex(exclusionData as PairExclusions);
 
-  if (!year1 || !year2) return 2;
+  const universities = Array.from(new Set(eligible.map(u => u.university).filter(Boolean))) as string[];
+  const aliasRows = await loadSubjectAliasRows(supabase, universities);
+  const subjectAliases = buildSubjectAliasMap(aliasRows, universities);
 
-  const yearOrder = ['freshman', 'sophomore', 'junior', 'senior'];
-  const idx1 = yearOrder.indexOf(year1);
-  const idx2 = yearOrder.indexOf(year2);
+  const { pairs, stats } = pairMentorships(eligible, {
+    config,
+    context: { subjectAliases },
+    mentorBadgeHolders: new Set((badgeRows || []).map((row: { user_id: string }) => row.user_id)),
+    isExcludedPair: (mentor, mentee) => hasMatched(exclusions, mentor.id, mentee.id),
+  });
+  console.log('Mentorship matching:', stats);
 
-  if (idx1 === -1 || idx2 === -1) return 2;
+  const skippedCount = eligible.length - 2 * pairs.length;
 
-  const distance = Math.abs(idx1 - idx2);
+  if (dryRun) {
+    await finishRun(supabase, runId, { eligibleCount: eligible.length, skippedCount, stats });
+    return {
+      success: true,
+      dryRun: true,
+      matchesCreated: 0,
+      stats,
+      pairs: pairs.map(pair => ({
+        mentor: { id: pair.mentor.id, name: pair.mentor.full_name, year: pair.mentor.year },
+        mentee: { id: pair.mentee.id, name: pair.mentee.full_name, year: pair.mentee.year },
+        subjects: pair.subjects,
+        adjustedTotal: getFinalScore(pair.score),
+      })),
+    };
+  }
 
-  if (distance === 0) return 5;
-  if (distance === 1) return 4;
-  if (distance === 2) return 2;
-  return 1;
-}
+  let matchesCreated = 0;
+  const errors: string[] = [];
+
+  for (const pair of pairs) {
+    const { mentor, mentee, score } = pair;
+
+    const { data: matchData, error: matchError } = await supabase
+      .from('matches')
+      .upsert({
+        user1_id: mentor.id,
+        user2_id: mentee.id,
+        match_type: 'mentorship',
+        status: 'active',
+        idempotency_key: mentorshipIdempotencyKey(mentor.id, mentee.id),
+      }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      .select()
+      .maybeSingle();
+
+    if (matchError || !matchData) {
+      errors.push(
+        matchError
+          ? `Failed to create mentorship match: ${matchError.message}`
+          : `Mentorship match for ${mentor.id} and ${mentee.id} already exists`
+      );
+      continue;
+    }
 
-function calculateCompatibilityScore(user1: User, user2: User): CompatibilityScore {
-  const breakdown = {
-    universityMatch: scoreUniversityMatch(user1, user2),
-    subjectOverlap: scoreSubjectOverlap(user1, user2),
-    availabilityOverlap: scoreAvailabilityOverlap(user1, user2),
-    studyStyleMatch: scoreStudyStyleMatch(user1, user2),
-    studyGoalsMatch: scoreStudyGoalsMatch(user1, user2),
-    yearProximity: scoreYearProximity(user1, user2),
-  };
+    await supabase.from('match_analytics').insert({
+      match_id: matchData.id,
+      compatibility_score: score.total,
+      score_breakdown: score.breakdown,
+      scoring_version: score.scoringVersion,
+    });
+
+    const { data: convData, error: convError } = await supabase
+      .from('conversations')
+      .insert({ match_id: matchData.id })
+      .select()
+      .single();
+
+    if (convError) {
+      errors.push(`Failed to create conversation: ${convError.message}`);
+    } else {
+      // The first message comes from the mentor and says what kind of match this is
+      const { error: messageError } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: convData.id,
+          sender_id: mentor.id,
+          content: buildMentorshipFirstMessage(pair),
+          message_type: 'text',
+          status: 'sent',
+          is_ai_generated: true,
+        });
+
+      if (!messageError) {
+        await supabase
+          .from('matches')
+          .update({ ai_message_sent: true })
+          .eq('id', matchData.id);
+      } else {
+        console.error('Failed to insert mentorship first message:', messageError);
+      }
+    }
+
+    if (mentee.push_token) {
+      await sendPushNotification({
+        expoPushToken: mentee.push_token,
+        title: 'New Mentor! 🎓',
+        body: `${mentor.full_name || 'An upperclassman'} has taken ${pair.subjects[0]} and can help you through it`,
+        data: {
+          type: 'new_match',
+          matchId: matchData.id,
+        },
+      });
+    }
+    if (mentor.push_token) {
+      await sendPushNotification({
+        expoPushToken: mentor.push_token,
+        title: 'New Mentee! 🎓',
+        body: `${mentee.full_name || 'A freshman'} is taking ${pair.subjects[0]} now`,
+        data: {
+          type: 'new_match',
+          matchId: matchData.id,
+        },
+      });
+    }
+
+    await supabase
+      .from('users')
+      .update({ last_mentorship_match_at: new Date().toISOString() })
+      .in('id', [mentor.id, mentee.id]);
+
+    matchesCreated++;
+  }
+
+  console.log(`Mentorship matching complete. Created ${matchesCreated} matches.`);
 
-  const total = Object.values(breakdown).reduce((sum, score) => sum + score, 0);
+  await finishRun(supabase, runId, {
+    eligibleCount: eligible.length,
+    matchesCreated,
+    skippedCount,
+    stats,
+    errors,
+  });
 
-  return { total, breakdown };
+  return {
+    success: true,
+    matchesCreated,
+    scoringVersion: config.version,
+    stats,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+}
+
+// Types
+interface User extends ScoringUser {
+  email: string;
+  full_name: string | null;
+  major: string | null;
+  bio: string | null;
+  profile_photo_url: string | null;
+  push_token: string | null;
+  last_auto_match_cycle: string | null;
+  last_matched_at: string | null;
+  mentorship_role: MentorshipRole | null;
+  completed_subjects: string[] | null;
+  onboarding_completed: boolean | null;
+  created_at: string;
 }
 
 // Main handler
 Deno.serve(async (req) => {
+  let supabase: any = null;
+  let runId: string | null = null;
+  let lease: { mode: RunMode; holder: string } | null = null;
+
   try {
-    // Verify this is a cron request (optional - add authorization header check)
     const authHeader = req.headers.get('Authorization');
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    if (!isAuthorizedCaller(req, supabaseKey)) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
 
     // Initialize Supabase client with service role key
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Optional body:
+    //   { "mode": "groups" } - form auto Nests instead of pairs (cron: auto-match-groups)
+    //   { "mode": "mentorship" } - pair mentors with mentees (cron: auto-match-mentorship)
+    //   { "pairingMode": "optimal" | "greedy" }
+    //   { "dryRun": true, "scoringVersion": "v2", "includeSnapshot": true }
+    // A dry run returns the proposed pairs and skipped users without writing
+    // anything or sending notifications; scoringVersion only applies to dry runs
+    const body = await req.json().catch(() => ({}));
+    const pairingMode: PairingMode = body?.pairingMode === 'greedy' ? 'greedy' : DEFAULT_PAIRING_MODE;
+    const dryRun = body?.dryRun === true;
+
+    const mode: RunMode = body?.mode === 'groups' || body?.mode === 'mentorship' ? body.mode : 'pairs';
+
+    // A forced scoringVersion scores every pair with that version, outside any experiment
+    // Mentorship pairs have their own scoring profile
+    const versionOverride = dryRun && body?.scoringVersion ? body.scoringVersion : undefined;
+    const scoringConfig = getScoringConfig(
+      versionOverride || (mode === 'mentorship' ? MENTORSHIP_SCORING_VERSION : undefined)
+    );
+
+    // Nests aren't matches and mentorships have their own profile, so
+    // only pair mode is scored inside an experiment
+    const experiment = versionOverride || mode !== 'pairs' ? null : getActiveExperiment();
+    const runInfo: RunInfo = mode === 'pairs'
+      ? { mode, dryRun, scoringVersion: scoringConfig.version, experimentId: experiment?.id ?? null, pairingMode }
+      : { mode, dryRun, scoringVersion: scoringConfig.version };
+
+    // One real run per mode at a time; dry runs write nothing, so they skip the lease
+    if (!dryRun) {
+      const holder = crypto.randomUUID();
+      if (!(await acquireRunLease(supabase, mode, holder))) {
+        console.log(`Another ${mode} auto-match run is in progress, skipping`);
+        const skippedRunId = await startRun(supabase, runInfo, 'skipped');
+        return jsonResponse({
+          success: true,
+          skipped: true,
+          runId: skippedRunId,
+          message: 'Another auto-match run is in progress',
+        });
+      }
+      lease = { mode, holder };
+    }
 
-    console.log('Starting auto-match cycle...');
+    runId = await startRun(supabase, runInfo);
 
-    // Get eligible users (onboarding complete, not matched in last 24 hours)
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    if (mode === 'groups') {
+      return jsonResponse({ ...(await runGroupMatching(supabase, scoringConfig, dryRun, runId)), runId });
+    }
+    if (mode === 'mentorship') {
+      return jsonResponse({ ...(await runMentorshipMatching(supabase, scoringConfig, dryRun, runId)), runId });
+    }
+    console.log(
+      `Starting auto-match ${dryRun ? 'dry run' : 'cycle'} (scoring ${scoringConfig.version}, ` +
+        `experiment ${experiment?.id || 'none'}, ${pairingMode} pairing)...`
+    );
+
+    if (!dryRun) {
+      const resumedCount = await resumePausedUsers(supabase);
+      if (resumedCount > 0) console.log(`Resumed matching for ${resumedCount} paused users`);
+    }
 
-    const { data: eligibleUsers, error: usersError } = await supabase
-      .from('users')
-      .select('*')
-      .eq('onboarding_completed', true)
-      .or(`last_auto_match_cycle.is.null,last_auto_match_cycle.lt.${twentyFourHoursAgo}`);
+    // Get eligible users (onboarding complete, daily match slot due, not
+    // paused; see migrations 20241210000008 and 20241210000009)
+    const now = new Date().toISOString();
 
-    if (usersError) {
+    // Paged so cohorts larger than PostgREST's max_rows are not truncated
+    const eligible = await fetchAllPages<User>((from, to) =>
+      supabase
+        .from('users')
+        .select('*')
+        .eq('onboarding_completed', true)
+        .or(`next_auto_match_at.is.null,next_auto_match_at.lte.${now}`)
+        .or(notPausedFilter(now))
+        .order('id')
+        .range(from, to)
+    ).catch((usersError) => {
       throw new Error(`Error fetching users: ${usersError.message}`);
-    }
-
-    const eligible = (eligibleUsers || []) as User[];
+    });
     console.log(`Found ${eligible.length} eligible users`);
 
-    if (eligible.length < 2) {
-      return jsonResponse({ success: true, matchesCreated: 0, message: 'Not enough eligible users' });
+    if (eligible.length < 2 && !dryRun) {
+      await recordRunUsers(supabase, runId, eligible.map(user => ({
+        user_id: user.id,
+        outcome: 'skipped' as const,
+        skip_reason: user.university ? 'no_campus_peers' : 'no_university',
+      })));
+      await finishRun(supabase, runId, { eligibleCount: eligible.length, skippedCount: eligible.length });
+      return jsonResponse({ success: true, matchesCreated: 0, runId, message: 'Not enough eligible users' });
     }
 
-    const usedIds = new Set<string>();
-    let matchesCreated = 0;
-    const errors: string[] = [];
+    // Never pair users who have matched before (one RPC for the whole cohort)
+    const { data: exclusionData, error: exclusionError } = await supabase.rpc('get_pair_exclusions', {
+      p_user_ids: eligible.map(u => u.id),
+    });
 
-    // Match users
-    for (const user of eligible) {
-      if (usedIds.has(user.id)) continue;
+    if (exclusionError) {
+      throw new Error(`Error fetching existing matches: ${exclusionError.message}`);
+    }
 
-      // Find candidates (same university, not already matched)
-      const candidates = eligible.filter(
-        (c) =>
-          c.id !== user.id &&
-          !usedIds.has(c.id) &&
-          c.university === user.university
-      );
+    const exclusions = buildExclusionIndex(exclusionData as PairExclusions);
+    const usersById = new Map(eligible.map(u => [u.id, u]));
+
+    // Per-university subject aliases for course-aware subject matching
+    const universities = Array.from(new Set(eligible.map(u => u.university).filter(Boolean)));
+    const aliasRows = await loadSubjectAliasRows(supabase, universities as string[]);
+
+    // Shared interests are weighed against everyone at the university, not just this cohort
+    const profileTexts = await loadProfileTexts(supabase, universities as string[]);
+
+    if (dryRun) {
+      const snapshot = {
+        users: eligible,
+        exclusions: exclusionData as PairExclusions,
+        subjectAliases: aliasRows,
+        profileTexts,
+        takenAt: now,
+      };
+      const report = simulateAutoMatch(snapshot, { mode: pairingMode, config: scoringConfig, experiment });
+      console.log('Dry run pairing:', report.stats);
+
+      await recordRunUsers(supabase, runId, reportToRunUsers(report));
+      await finishRun(supabase, runId, {
+        eligibleCount: eligible.length,
+        skippedCount: report.skipped.length,
+        stats: report.stats,
+      });
 
-      if (candidates.length === 0) continue;
+      // Snapshots contain profile data, so only the service role may export one
+      const includeSnapshot = body?.includeSnapshot === true && authHeader === `Bearer ${supabaseKey}`;
 
-      // Score all candidates
-      const scored = [];
-      for (const candidate of candidates) {
-        // Check if already matched
-        const { data: existingMatch } = await supabase
-          .from('matches')
-          .select('id')
-          .or(
-            `and(user1_id.eq.${user.id},user2_id.eq.${candidate.id}),and(user1_id.eq.${candidate.id},user2_id.eq.${user.id})`
-          )
-          .limit(1);
+      return jsonResponse({
+        success: true,
+        dryRun: true,
+        matchesCreated: 0,
+        runId,
+        report,
+        snapshot: includeSnapshot ? { ...snapshot, users: eligible.map(toSnapshotUser) } : undefined,
+      });
+    }
 
-        if (existingMatch && existingMatch.length > 0) continue;
+    const subjectAliases = buildSubjectAliasMap(aliasRows, universities as string[]);
+    const interestCorpora = buildInterestCorpusMap(profileTexts);
+    // Wait times (fairness) are measured to the same instant for the whole cohort
+    const context = { subjectAliases, interestCorpora, now: Date.parse(now) };
+    const configForPair = createPairConfigResolver(experiment, scoringConfig);
+
+    const { pairs, unmatched, stats } = pairCohort(eligible, {
+      mode: pairingMode,
+      config: scoringConfig,
+      context,
+      configForPair,
+      isExcludedPair: (a, b) => hasMatched(exclusions, a.id, b.id),
+    });
 
-        const score = calculateCompatibilityScore(user, candidate);
-        if (score.total >= 40) {
-          scored.push({ candidate, score });
-        }
-      }
+    console.log('Cohort pairing:', stats);
 
-      if (scored.length === 0) continue;
+    // Why each unpaired user was left out, for the run history
+    const skipped = explainSkippedUsers(eligible, unmatched, exclusions, context, configForPair);
+    const runUsers: RunUserRow[] = skipped.map(user => ({
+      user_id: user.id,
+      outcome: 'skipped',
+      skip_reason: user.reason,
+      best_candidate_score: user.bestCandidateScore,
+    }));
 
-      // Sort by score and get best match
-      scored.sort((a, b) => b.score.total - a.score.total);
-      const bestMatch = scored[0];
+    let matchesCreated = 0;
+    const errors: string[] = [];
 
+    // Create a match for each proposed pair
+    for (const { user1: user, user2: candidate, score } of pairs) {
       console.log(
-        `Matching ${user.full_name} with ${bestMatch.candidate.full_name} (score: ${bestMatch.score.total})`
+        `Matching ${user.full_name} with ${candidate.full_name}`,
+        `(base: ${score.total}, adjusted: ${score.adjustedTotal})`
       );
 
-      // Create match
+      // Create match; a pair already auto-matched (e.g. by an overlapping
+      // run) hits the idempotency key and comes back empty
       const { data: matchData, error: matchError } = await supabase
         .from('matches')
-        .insert({
+        .upsert({
           user1_id: user.id,
-          user2_id: bestMatch.candidate.id,
+          user2_id: candidate.id,
           match_type: 'auto',
           status: 'active',
-        })
+          idempotency_key: autoMatchIdempotencyKey(user.id, candidate.id),
+        }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
         .select()
-        .single();
+        .maybeSingle();
 
       if (matchError || !matchData) {
-        errors.push(`Failed to create match: ${matchError?.message}`);
+        errors.push(
+          matchError
+            ? `Failed to create match: ${matchError.message}`
+            : `Match for ${user.id} and ${candidate.id} already exists`
+        );
+        runUsers.push(
+          { user_id: user.id, outcome: 'failed', partner_id: candidate.id, score: getFinalScore(score) },
+          { user_id: candidate.id, outcome: 'failed', partner_id: user.id, score: getFinalScore(score) }
+        );
         continue;
       }
 
+      runUsers.push(
+        { user_id: user.id, outcome: 'matched', partner_id: candidate.id, match_id: matchData.id, score: getFinalScore(score) },
+        { user_id: candidate.id, outcome: 'matched', partner_id: user.id, match_id: matchData.id, score: getFinalScore(score) }
+      );
+
       // Create analytics
       await supabase.from('match_analytics').insert({
         match_id: matchData.id,
-        compatibility_score: bestMatch.score.total,
-        score_breakdown: bestMatch.score.breakdown,
+        compatibility_score: score.total,
+        score_breakdown: score.breakdown,
+        scoring_version: score.scoringVersion,
+        experiment_id: score.experiment?.id ?? null,
+        experiment_arm: score.experiment?.arm ?? null,
       });
 
       // Create conversation
@@ -330,19 +835,12 @@ Deno.serve(async (req) => {
           if (!matchData.ai_message_sent) {
             const geminiKey = Deno.env.get('GEMINI_API_KEY') || '';
 
-            // Fetch user profiles for prompt context
-            const { data: senderProfile, error: senderProfileError } = await supabase
-              .from('users')
-              .select('*')
-              .eq('id', matchData.user1_id)
-              .single();
-            const { data: recipientProfile, error: recipientProfileError } = await supabase
-              .from('users')
-              .select('*')
-              .eq('id', matchData.user2_id)
-              .single();
-
-            if (!senderProfileError && !recipientProfileError && senderProfile && recipientProfile) {
+            // Profiles for prompt context are already loaded with the cohort
+            // (user1/user2 may be swapped by the ensure_match_order trigger)
+            const senderProfile = usersById.get(matchData.user1_id);
+            const recipientProfile = usersById.get(matchData.user2_id);
+
+            if (senderProfile && recipientProfile) {
               // For now ignore Gemini: build a personalized fallback message locally
               const aiText = generateFallbackFirstMessage(senderProfile, recipientProfile);
 
@@ -380,7 +878,7 @@ Deno.serve(async (req) => {
                 console.error('Failed to insert AI message:', insertMessageError);
               }
             } else {
-              console.error('Failed to fetch profiles for AI message', senderProfileError || recipientProfileError);
+              console.error('Missing cohort profiles for AI message', matchData.user1_id, matchData.user2_id);
             }
           }
         } catch (e) {
@@ -393,46 +891,54 @@ Deno.serve(async (req) => {
         await sendPushNotification({
           expoPushToken: user.push_token,
           title: 'New Study Match! 🎓',
-          body: `You matched with ${bestMatch.candidate.full_name || 'a study buddy'}`,
+          body: `You matched with ${candidate.full_name || 'a study buddy'}`,
           data: {
             type: 'new_match',
             matchId: matchData.id,
           },
         });
-        console.log(`Sent notification to ${bestMatch.candidate.full_name}`);
+        console.log(`Sent notification to ${candidate.full_name}`);
       }
 
-      // Update last match cycle
-      await supabase
-        .from('users')
-        .update({ last_auto_match_cycle: new Date().toISOString() })
-        .eq('id', user.id);
-
+      // Update last match cycle for both users
       await supabase
         .from('users')
         .update({ last_auto_match_cycle: new Date().toISOString() })
-        .eq('id', bestMatch.candidate.id);
+        .in('id', [user.id, candidate.id]);
 
-      // Mark both as used
-      usedIds.add(user.id);
-      usedIds.add(bestMatch.candidate.id);
       matchesCreated++;
     }
 
     console.log(`Auto-match cycle complete. Created ${matchesCreated} matches.`);
 
+    await recordRunUsers(supabase, runId, runUsers);
+    await finishRun(supabase, runId, {
+      eligibleCount: eligible.length,
+      matchesCreated,
+      skippedCount: skipped.length,
+      stats,
+      errors,
+    });
+
     return jsonResponse({
       success: true,
       matchesCreated,
+      runId,
+      scoringVersion: scoringConfig.version,
+      experimentId: experiment?.id ?? null,
+      stats,
       errors: errors.length > 0 ? errors : undefined,
     });
 
   } catch (error) {
     console.error('Auto-match error:', error);
+    await failRun(supabase, runId, error instanceof Error ? error.message : 'Unknown error');
     return jsonResponse({
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
     }, 500);
+  } finally {
+    if (lease) await releaseRunLease(supabase, lease.mode, lease.holder);
   }
 });
 
@@ -457,4 +963,6 @@ function generateFallbackFirstMessage(sender: any, recipient: any): string {
     return `Study ${commonCourses[0]} together?`;
   }
 
-  // Fallback if no shared courses
\ No newline at end of file
+  // Fallback if no shared courses
+  return 'Want to study together?';
+}
@@ -0,0 +1,101 @@
+// Supabase Edge Function for the stale match lifecycle
+// Runs hourly: nudges the quiet side of one-sided matches, then expires
+// matches that stay one-sided
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushNotification } from '../_shared/push/index.ts';
+import { isAuthorizedCaller } from '../_shared/auth/index.ts';
+
+// Days after matching with no reply before the quiet side is nudged
+const NUDGE_AFTER_DAYS = 3;
+
+// Days after matching with no reply before the match expires
+const EXPIRE_AFTER_DAYS = 7;
+
+function jsonResponse(body: Record<string, any>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function toInterval(days: number): string {
+  return `${days} days`;
+}
+
+// Main handler
+Deno.serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Nudges and expiries touch every user's matches; only the cron
+    // (or someone holding the service role key) may run them
+    if (!isAuthorizedCaller(req, supabaseKey)) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Optional body: { "nudgeAfterDays": 3, "expireAfterDays": 7 }
+    const body = await req.json().catch(() => ({}));
+    const nudgeAfterDays = Number(body?.nudgeAfterDays) > 0 ? Number(body.nudgeAfterDays) : NUDGE_AFTER_DAYS;
+    const expireAfterDays = Number(body?.expireAfterDays) > nudgeAfterDays
+      ? Number(body.expireAfterDays)
+      : Math.max(EXPIRE_AFTER_DAYS, nudgeAfterDays + 1);
+
+    console.log(`Starting match lifecycle (nudge after ${nudgeAfterDays}d, expire after ${expireAfterDays}d)...`);
+
+    // Expire first, so a match nudged long ago isn't nudged and expired in one run
+    const { data: expired, error: expireError } = await supabase.rpc('expire_stale_matches', {
+      p_after: toInterval(expireAfterDays),
+    });
+
+    if (expireError) {
+      console.error('Error expiring stale matches:', expireError);
+      return jsonResponse({ error: expireError.message }, 500);
+    }
+
+    const { data: nudges, error: nudgeError } = await supabase.rpc('nudge_stale_matches', {
+      p_after: toInterval(nudgeAfterDays),
+    });
+
+    if (nudgeError) {
+      console.error('Error nudging stale matches:', nudgeError);
+      return jsonResponse({ error: nudgeError.message }, 500);
+    }
+
+    let notificationsSent = 0;
+    for (const nudge of nudges || []) {
+      if (!nudge.push_token) continue;
+      const sent = await sendPushNotification({
+        expoPushToken: nudge.push_token,
+        title: `${nudge.partner_name || 'Your match'} is waiting to hear from you 👋`,
+        body: 'Say hi before your match expires.',
+        data: {
+          type: 'match_nudge',
+          matchId: nudge.match_id,
+        },
+      });
+      if (sent) notificationsSent++;
+    }
+
+    const nudgedMatches = new Set((nudges || []).map((nudge: any) => nudge.match_id)).size;
+
+    console.log(
+      `Match lifecycle complete: ${nudgedMatches} matches nudged, ` +
+        `${(expired || []).length} matches expired, ${notificationsSent} notifications sent`
+    );
+
+    return jsonResponse({
+      success: true,
+      nudgedMatches,
+      expiredMatches: (expired || []).length,
+      notificationsSent,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error('Error in match lifecycle:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
@@ -0,0 +1,127 @@
+// Supabase Edge Function for swipes
+// Records a swipe through record_swipe() as the calling user, which
+// creates the match and conversation exactly once on a mutual like,
+// then notifies both users and returns the match
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { sendPushNotification } from '../_shared/push/index.ts';
+
+function jsonResponse(body: Record<string, any>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Tell both users about a new mutual match
+async function notifyMatch(match: any): Promise<void> {
+  const sides = [
+    { user: match.user1, partner: match.user2 },
+    { user: match.user2, partner: match.user1 },
+  ];
+
+  for (const { user, partner } of sides) {
+    if (!user?.push_token) continue;
+    await sendPushNotification({
+      expoPushToken: user.push_token,
+      title: "It's a match! 🎉",
+      body: `You and ${partner?.full_name || 'a study buddy'} both want to study together`,
+      data: {
+        type: 'new_match',
+        matchId: match.id,
+      },
+    });
+  }
+}
+
+// Main handler
+Deno.serve(async (req) => {
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Missing authorization' }, 401);
+    }
+
+    // Body: { "targetUserId": "<uuid>", "action": "like" | "skip" }
+    const body = await req.json().catch(() => ({}));
+    const targetUserId = typeof body?.targetUserId === 'string' ? body.targetUserId : null;
+    const action = body?.action;
+
+    if (!targetUserId || (action !== 'like' && action !== 'skip')) {
+      return jsonResponse({ success: false, error: 'targetUserId and action (like or skip) are required' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+    // record_swipe reads the swiper from auth.uid(), so call it with the user's JWT
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: swipeRows, error: swipeError } = await userClient.rpc('record_swipe', {
+      p_target_user_id: targetUserId,
+      p_action: action,
+    });
+
+    if (swipeError) {
+      console.error('Error recording swipe:', swipeError);
+      return jsonResponse({ success: false, error: swipeError.message }, 400);
+    }
+
+    const result = Array.isArray(swipeRows) ? swipeRows[0] : swipeRows;
+    if (!result?.match_id) {
+      return jsonResponse({ success: true, swipeId: result?.swipe_id ?? null, match: null, matchCreated: false });
+    }
+
+    // Push tokens aren't readable by other users, so load the match with the service role
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { data: match, error: matchError } = await supabase
+      .from('matches')
+      .select(`
+        id,
+        user1_id,
+        user2_id,
+        match_type,
+        status,
+        matched_at,
+        user1:users!matches_user1_id_fkey (id, full_name, profile_photo_url, push_token),
+        user2:users!matches_user2_id_fkey (id, full_name, profile_photo_url, push_token)
+      `)
+      .eq('id', result.match_id)
+      .single();
+
+    if (matchError || !match) {
+      console.error('Error loading match:', matchError);
+      return jsonResponse({
+        success: true,
+        swipeId: result.swipe_id,
+        match: { id: result.match_id },
+        matchCreated: result.match_created,
+      });
+    }
+
+    if (result.match_created) {
+      await notifyMatch(match);
+    }
+
+    const { user1, user2, ...matchRow } = match as any;
+    const withoutPushToken = ({ push_token, ...profile }: any) => profile;
+
+    return jsonResponse({
+      success: true,
+      swipeId: result.swipe_id,
+      match: {
+        ...matchRow,
+        user1: user1 ? withoutPushToken(user1) : null,
+        user2: user2 ? withoutPushToken(user2) : null,
+      },
+      matchCreated: result.match_created,
+    });
+  } catch (error) {
+    console.error('Swipe error:', error);
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }, 500);
+  }
+});
@@ -17,6 +17,10 @@ declare module 'https://esm.sh/@supabase/supabase-js@2' {
 }
 
 declare namespace Deno {
+  const args: string[];
+
+  function readTextFile(path: string | URL): Promise<string>;
+
   namespace env {
     function get(key: string): string | undefined;
   }
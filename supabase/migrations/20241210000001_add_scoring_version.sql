@@ -0,0 +1,14 @@
+-- Record which scoring config produced each compatibility score
+-- Versions are defined in supabase/functions/_shared/scoring/config.ts
+
+ALTER TABLE match_analytics
+ADD COLUMN scoring_version TEXT;
+
+-- Every score written before this migration came from the original weights
+UPDATE match_analytics
+SET scoring_version = 'v1'
+WHERE scoring_version IS NULL;
+
+CREATE INDEX idx_match_analytics_scoring_version ON match_analytics(scoring_version);
+
+COMMENT ON COLUMN match_analytics.scoring_version IS 'Scoring config version (e.g. v1) that produced compatibility_score';
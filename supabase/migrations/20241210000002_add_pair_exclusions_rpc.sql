@@ -0,0 +1,31 @@
+-- Batched eligibility lookups for matching
+-- Returns every match and swipe involving the given users in a single call,
+-- so matching code can filter candidates in memory instead of querying per pair.
+--
+-- Returns one JSONB value rather than a row set so PostgREST's max_rows
+-- limit does not truncate large cohorts:
+--   { "matches": [[user1_id, user2_id], ...], "swipes": [[user_id, target_user_id], ...] }
+--
+-- SECURITY INVOKER (default): RLS still applies, so app users only see their
+-- own matches and swipes; the service role sees everything.
+
+CREATE OR REPLACE FUNCTION get_pair_exclusions(p_user_ids UUID[])
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'matches', COALESCE((
+      SELECT jsonb_agg(jsonb_build_array(m.user1_id, m.user2_id))
+      FROM matches m
+      WHERE m.user1_id = ANY(p_user_ids) OR m.user2_id = ANY(p_user_ids)
+    ), '[]'::jsonb),
+    'swipes', COALESCE((
+      SELECT jsonb_agg(jsonb_build_array(s.user_id, s.target_user_id))
+      FROM swipe_actions s
+      WHERE s.user_id = ANY(p_user_ids)
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_pair_exclusions(UUID[]) TO authenticated;
+
+-- Composite index so the swipe lookup stays an index scan at campus scale
+CREATE INDEX IF NOT EXISTS idx_swipe_actions_user_target ON swipe_actions(user_id, target_user_id);
@@ -0,0 +1,38 @@
+-- Migrate legacy availability slots to time ranges
+-- Onboarding used to store one slot name per day:
+--   { "monday": "morning", "tuesday": "none" }
+-- Scoring v2 works on WeeklyAvailability time ranges:
+--   { "monday": { "available": true, "timeSlots": [{ "start": "08:00", "end": "12:00" }] } }
+--
+-- Slot ranges match LEGACY_SLOT_RANGES in supabase/functions/_shared/scoring/availability.ts,
+-- so v1 scores are unchanged for migrated rows and v2 scores legacy and new profiles alike.
+
+CREATE OR REPLACE FUNCTION legacy_slot_to_day_schedule(p_slot TEXT)
+RETURNS JSONB AS $$
+  SELECT CASE p_slot
+    WHEN 'morning' THEN '{"available": true, "timeSlots": [{"start": "08:00", "end": "12:00"}]}'::jsonb
+    WHEN 'afternoon' THEN '{"available": true, "timeSlots": [{"start": "12:00", "end": "17:00"}]}'::jsonb
+    WHEN 'evening' THEN '{"available": true, "timeSlots": [{"start": "17:00", "end": "22:00"}]}'::jsonb
+    ELSE '{"available": false}'::jsonb
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE users
+SET availability = (
+  SELECT jsonb_object_agg(
+    day.key,
+    CASE
+      WHEN jsonb_typeof(day.value) = 'string' THEN legacy_slot_to_day_schedule(day.value #>> '{}')
+      ELSE day.value
+    END
+  )
+  FROM jsonb_each(users.availability) AS day
+)
+WHERE availability IS NOT NULL
+  AND jsonb_typeof(availability) = 'object'
+  AND EXISTS (
+    SELECT 1 FROM jsonb_each(users.availability) AS day
+    WHERE jsonb_typeof(day.value) = 'string'
+  );
+
+COMMENT ON FUNCTION legacy_slot_to_day_schedule(TEXT) IS 'Maps a legacy morning/afternoon/evening slot to a WeeklyAvailability DaySchedule';
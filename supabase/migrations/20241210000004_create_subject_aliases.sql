@@ -0,0 +1,28 @@
+-- =====================================================
+-- SUBJECT ALIASES
+-- =====================================================
+-- Per-university alias table for subject normalization
+-- (supabase/functions/_shared/subjects). Maps what students type onto
+-- the canonical course, e.g. at one university:
+--   'Intro to Computer Science' -> 'CS 101'
+--   'Data Structures'           -> 'CS 225'
+-- Course codes are compared separator-insensitively, so 'CS 101',
+-- 'cs101' and 'CS-101' need no aliases of their own.
+
+CREATE TABLE subject_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  university TEXT NOT NULL,
+  alias TEXT NOT NULL CHECK (length(trim(alias)) > 0),
+  canonical TEXT NOT NULL CHECK (length(trim(canonical)) > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_subject_aliases_university_alias ON subject_aliases(university, lower(alias));
+
+ALTER TABLE subject_aliases ENABLE ROW LEVEL SECURITY;
+
+-- Everyone signed in can read aliases; they are curated with the service role
+CREATE POLICY "Authenticated users can view subject aliases" ON subject_aliases
+  FOR SELECT TO authenticated USING (true);
+
+COMMENT ON TABLE subject_aliases IS 'Per-university subject aliases used to detect shared courses in matching and Nest search';
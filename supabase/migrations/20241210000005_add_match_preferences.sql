@@ -0,0 +1,23 @@
+-- =====================================================
+-- MATCH PREFERENCES
+-- =====================================================
+-- Per-user deal-breakers and soft preferences
+-- (supabase/functions/_shared/preferences). Example:
+--   {
+--     "allowedYears": ["Junior", "Senior"],
+--     "requireSharedSubject": true,
+--     "excludedGoals": ["just_pass"],
+--     "preferredStyles": ["quiet"],
+--     "preferredGoals": ["ace_exams"]
+--   }
+-- Deal-breakers are enforced by both matchers; soft preferences
+-- only boost the adjusted score (scoring v4+).
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS match_preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE users
+  ADD CONSTRAINT users_match_preferences_is_object
+  CHECK (jsonb_typeof(match_preferences) = 'object');
+
+COMMENT ON COLUMN users.match_preferences IS 'Match deal-breakers (allowedYears, requireSharedSubject, excludedGoals) and soft preferences (preferredStyles, preferredGoals)';
@@ -0,0 +1,80 @@
+-- Scoring weight experiments
+-- Arms are defined in supabase/functions/_shared/experiments; each match
+-- records the experiment and arm whose config scored it.
+
+ALTER TABLE match_analytics
+ADD COLUMN experiment_id TEXT,
+ADD COLUMN experiment_arm TEXT;
+
+CREATE INDEX idx_match_analytics_experiment ON match_analytics(experiment_id, experiment_arm);
+
+COMMENT ON COLUMN match_analytics.experiment_id IS 'Scoring experiment that was running when this match was scored (NULL outside experiments)';
+COMMENT ON COLUMN match_analytics.experiment_arm IS 'Experiment arm whose scoring config produced compatibility_score';
+
+-- Outcome metrics per arm, from the existing success tracking:
+--   success score      calculate_match_success_score() for each match, computed now
+--                      rather than read from match_analytics.success_score, which is
+--                      only refreshed when the match row changes
+--   successful rate    share of matches scoring >= 50 (as in update_user_match_stats)
+--   messages           matches.messages_exchanged, and users.avg_messages_per_match
+--                      averaged over everyone matched in the arm
+--
+-- SECURITY DEFINER so the aggregate can read every match, but only the
+-- service role may call it.
+
+CREATE OR REPLACE FUNCTION get_experiment_outcomes(p_experiment_id TEXT)
+RETURNS TABLE (
+  experiment_arm TEXT,
+  scoring_version TEXT,
+  match_count BIGINT,
+  avg_compatibility_score NUMERIC,
+  avg_success_score NUMERIC,
+  successful_match_rate NUMERIC,
+  avg_messages_exchanged NUMERIC,
+  study_session_rate NUMERIC,
+  unmatch_rate NUMERIC,
+  avg_user_messages_per_match NUMERIC
+) AS $$
+  WITH arm_matches AS (
+    SELECT
+      ma.experiment_arm,
+      ma.scoring_version,
+      ma.compatibility_score,
+      m.id AS match_id,
+      m.user1_id,
+      m.user2_id,
+      COALESCE(m.messages_exchanged, 0) AS messages_exchanged,
+      COALESCE(m.study_session_scheduled, false) AS study_session_scheduled,
+      m.unmatched_at,
+      calculate_match_success_score(m.id) AS success_score
+    FROM match_analytics ma
+    JOIN matches m ON m.id = ma.match_id
+    WHERE ma.experiment_id = p_experiment_id
+  ),
+  arm_users AS (
+    SELECT DISTINCT am.experiment_arm, u.id, u.avg_messages_per_match
+    FROM arm_matches am
+    JOIN users u ON u.id IN (am.user1_id, am.user2_id)
+  )
+  SELECT
+    am.experiment_arm,
+    MIN(am.scoring_version),
+    COUNT(*),
+    ROUND(AVG(am.compatibility_score)::NUMERIC, 1),
+    ROUND(AVG(am.success_score)::NUMERIC, 1),
+    ROUND(AVG(CASE WHEN am.success_score >= 50 THEN 1 ELSE 0 END)::NUMERIC, 3),
+    ROUND(AVG(am.messages_exchanged)::NUMERIC, 1),
+    ROUND(AVG(CASE WHEN am.study_session_scheduled THEN 1 ELSE 0 END)::NUMERIC, 3),
+    ROUND(AVG(CASE WHEN am.unmatched_at IS NOT NULL THEN 1 ELSE 0 END)::NUMERIC, 3),
+    (
+      SELECT ROUND(AVG(au.avg_messages_per_match)::NUMERIC, 1)
+      FROM arm_users au
+      WHERE au.experiment_arm = am.experiment_arm
+    )
+  FROM arm_matches am
+  GROUP BY am.experiment_arm
+  ORDER BY am.experiment_arm;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_experiment_outcomes(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_experiment_outcomes(TEXT) TO service_role;
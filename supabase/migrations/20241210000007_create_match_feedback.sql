@@ -0,0 +1,384 @@
+-- Post-match feedback
+-- A few days after a match each partner is asked "Did you study together?
+-- How was it?". Answers are stored per match and per rater and feed into:
+--   - calculate_match_success_score() and match_analytics.success_factors
+--   - users.successful_matches (through the success score), plus the
+--     feedback stats below, which scoring v5 reads for the freshness
+--     bonus and success penalty
+--   - get_experiment_outcomes(), so arms are compared on reported outcomes
+
+CREATE TABLE match_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  rater_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  studied_together BOOLEAN NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment TEXT CHECK (char_length(comment) <= 500),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(match_id, rater_id)
+);
+
+CREATE INDEX idx_match_feedback_match ON match_feedback(match_id);
+CREATE INDEX idx_match_feedback_rater ON match_feedback(rater_id);
+
+-- Raters manage their own feedback on their own matches; partners never
+-- see each other's answers
+ALTER TABLE match_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own feedback" ON match_feedback
+  FOR SELECT USING (rater_id = auth.uid());
+
+CREATE POLICY "Users can leave feedback on their matches" ON match_feedback
+  FOR INSERT WITH CHECK (
+    rater_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM matches
+      WHERE matches.id = match_feedback.match_id
+      AND (matches.user1_id = auth.uid() OR matches.user2_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can update their own feedback" ON match_feedback
+  FOR UPDATE USING (rater_id = auth.uid())
+  WITH CHECK (rater_id = auth.uid());
+
+-- Feedback stats on the user, from what their partners reported
+ALTER TABLE users
+ADD COLUMN feedback_received INTEGER DEFAULT 0,
+ADD COLUMN avg_feedback_rating FLOAT,
+ADD COLUMN unstudied_matches INTEGER DEFAULT 0;
+
+COMMENT ON COLUMN users.feedback_received IS 'Number of ratings partners have left on this user''s matches';
+COMMENT ON COLUMN users.avg_feedback_rating IS 'Average partner rating (1-5), NULL until someone rates';
+COMMENT ON COLUMN users.unstudied_matches IS 'Active matches where feedback says the pair never studied together';
+
+-- Success score, now counting feedback:
+-- 1. Messages exchanged (0-40 points)
+-- 2. Study session scheduled, or either partner reports studying together (0-30 points)
+-- 3. How long the match stayed active (0-20 points)
+-- 4. Average rating: 4+ adds 10 points, 2 or less takes 10 away
+-- 5. Unmatch penalty (-10 points)
+CREATE OR REPLACE FUNCTION calculate_match_success_score(match_id UUID)
+RETURNS FLOAT AS $$
+DECLARE
+  v_messages_exchanged INTEGER;
+  v_study_session_scheduled BOOLEAN;
+  v_matched_at TIMESTAMPTZ;
+  v_unmatched_at TIMESTAMPTZ;
+  v_studied_together BOOLEAN;
+  v_avg_rating FLOAT;
+  v_score FLOAT := 0;
+  v_days_active INTEGER;
+BEGIN
+  -- Get match data
+  SELECT
+    m.messages_exchanged,
+    m.study_session_scheduled,
+    m.matched_at,
+    m.unmatched_at
+  INTO
+    v_messages_exchanged,
+    v_study_session_scheduled,
+    v_matched_at,
+    v_unmatched_at
+  FROM matches m
+  WHERE m.id = calculate_match_success_score.match_id;
+
+  -- Get feedback from either partner
+  SELECT
+    BOOL_OR(f.studied_together),
+    AVG(f.rating)
+  INTO
+    v_studied_together,
+    v_avg_rating
+  FROM match_feedback f
+  WHERE f.match_id = calculate_match_success_score.match_id;
+
+  -- Messages score (0-40 points)
+  IF v_messages_exchanged >= 30 THEN
+    v_score := v_score + 40;
+  ELSIF v_messages_exchanged >= 16 THEN
+    v_score := v_score + 30;
+  ELSIF v_messages_exchanged >= 6 THEN
+    v_score := v_score + 20;
+  ELSIF v_messages_exchanged >= 1 THEN
+    v_score := v_score + 10;
+  END IF;
+
+  -- Study session score (0-30 points)
+  IF v_study_session_scheduled OR COALESCE(v_studied_together, FALSE) THEN
+    v_score := v_score + 30;
+  END IF;
+
+  -- Duration score (0-20 points)
+  v_days_active := EXTRACT(DAY FROM (COALESCE(v_unmatched_at, NOW()) - v_matched_at));
+
+  IF v_days_active >= 30 THEN
+    v_score := v_score + 20;
+  ELSIF v_days_active >= 14 THEN
+    v_score := v_score + 15;
+  ELSIF v_days_active >= 7 THEN
+    v_score := v_score + 10;
+  END IF;
+
+  -- Rating score (-10 to +10 points)
+  IF v_avg_rating >= 4 THEN
+    v_score := v_score + 10;
+  ELSIF v_avg_rating <= 2 THEN
+    v_score := v_score - 10;
+  END IF;
+
+  -- Unmatch penalty (-10 points)
+  IF v_unmatched_at IS NOT NULL THEN
+    v_score := v_score - 10;
+  END IF;
+
+  -- Normalize to 0-100 scale
+  RETURN GREATEST(0, LEAST(100, v_score));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Success factors stored on match_analytics next to the score breakdown,
+-- so a pair's features can be compared with how it turned out
+CREATE OR REPLACE FUNCTION get_match_success_factors(p_match_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'messages_exchanged', m.messages_exchanged,
+    'study_session_scheduled', m.study_session_scheduled,
+    'days_active', EXTRACT(DAY FROM (COALESCE(m.unmatched_at, NOW()) - m.matched_at)),
+    'unmatched', m.unmatched_at IS NOT NULL,
+    'feedback_count', (SELECT COUNT(*) FROM match_feedback f WHERE f.match_id = m.id),
+    'studied_together', (SELECT BOOL_OR(f.studied_together) FROM match_feedback f WHERE f.match_id = m.id),
+    'avg_rating', (SELECT ROUND(AVG(f.rating)::NUMERIC, 1) FROM match_feedback f WHERE f.match_id = m.id)
+  )
+  FROM matches m
+  WHERE m.id = p_match_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_match_statistics()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Update success score when match is updated
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE match_analytics
+    SET
+      success_score = calculate_match_success_score(NEW.id),
+      success_factors = get_match_success_factors(NEW.id)
+    WHERE match_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- User statistics, now with feedback partners left about the user
+CREATE OR REPLACE FUNCTION update_user_match_stats(user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_total_matches INTEGER;
+  v_successful_matches INTEGER;
+  v_avg_messages FLOAT;
+  v_feedback_received INTEGER;
+  v_avg_feedback_rating FLOAT;
+  v_unstudied_matches INTEGER;
+BEGIN
+  -- Count total matches
+  SELECT COUNT(*)
+  INTO v_total_matches
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status = 'active';
+
+  -- Count successful matches (success_score >= 50)
+  SELECT COUNT(*)
+  INTO v_successful_matches
+  FROM matches m
+  JOIN match_analytics ma ON ma.match_id = m.id
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND ma.success_score >= 50;
+
+  -- Calculate average messages per match
+  SELECT COALESCE(AVG(messages_exchanged), 0)
+  INTO v_avg_messages
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status = 'active';
+
+  -- Ratings partners left on this user's matches
+  SELECT COUNT(*), AVG(f.rating)
+  INTO v_feedback_received, v_avg_feedback_rating
+  FROM match_feedback f
+  JOIN matches m ON m.id = f.match_id
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND f.rater_id <> user_id;
+
+  -- Active matches with feedback where nobody reports studying together
+  SELECT COUNT(*)
+  INTO v_unstudied_matches
+  FROM matches m
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND m.status = 'active'
+    AND EXISTS (SELECT 1 FROM match_feedback f WHERE f.match_id = m.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM match_feedback f
+      WHERE f.match_id = m.id AND f.studied_together
+    );
+
+  -- Update user record
+  UPDATE users
+  SET
+    total_matches = v_total_matches,
+    successful_matches = v_successful_matches,
+    avg_messages_per_match = v_avg_messages,
+    feedback_received = v_feedback_received,
+    avg_feedback_rating = v_avg_feedback_rating,
+    unstudied_matches = v_unstudied_matches
+  WHERE id = user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh the match's success score and both partners' stats on new feedback
+-- SECURITY DEFINER because the rater can't write their partner's stats
+CREATE OR REPLACE FUNCTION handle_match_feedback()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user1_id UUID;
+  v_user2_id UUID;
+BEGIN
+  UPDATE match_analytics
+  SET
+    success_score = calculate_match_success_score(NEW.match_id),
+    success_factors = get_match_success_factors(NEW.match_id)
+  WHERE match_id = NEW.match_id;
+
+  SELECT user1_id, user2_id
+  INTO v_user1_id, v_user2_id
+  FROM matches
+  WHERE id = NEW.match_id;
+
+  PERFORM update_user_match_stats(v_user1_id);
+  PERFORM update_user_match_stats(v_user2_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_match_feedback
+AFTER INSERT OR UPDATE ON match_feedback
+FOR EACH ROW
+EXECUTE FUNCTION handle_match_feedback();
+
+CREATE TRIGGER update_match_feedback_updated_at
+BEFORE UPDATE ON match_feedback
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Matches old enough to ask about that the user hasn't rated yet
+CREATE OR REPLACE FUNCTION get_pending_match_feedback(p_user_id UUID, p_min_age INTERVAL DEFAULT INTERVAL '3 days')
+RETURNS TABLE (
+  match_id UUID,
+  partner_id UUID,
+  matched_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    m.id,
+    CASE WHEN m.user1_id = p_user_id THEN m.user2_id ELSE m.user1_id END,
+    m.matched_at
+  FROM matches m
+  WHERE (m.user1_id = p_user_id OR m.user2_id = p_user_id)
+    AND m.status = 'active'
+    AND m.matched_at <= NOW() - p_min_age
+    AND NOT EXISTS (
+      SELECT 1 FROM match_feedback f
+      WHERE f.match_id = m.id AND f.rater_id = p_user_id
+    )
+  ORDER BY m.matched_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Experiment outcomes gain the reported ones; the return type changes,
+-- so the function is dropped and recreated
+DROP FUNCTION get_experiment_outcomes(TEXT);
+
+CREATE FUNCTION get_experiment_outcomes(p_experiment_id TEXT)
+RETURNS TABLE (
+  experiment_arm TEXT,
+  scoring_version TEXT,
+  match_count BIGINT,
+  avg_compatibility_score NUMERIC,
+  avg_success_score NUMERIC,
+  successful_match_rate NUMERIC,
+  avg_messages_exchanged NUMERIC,
+  study_session_rate NUMERIC,
+  unmatch_rate NUMERIC,
+  avg_user_messages_per_match NUMERIC,
+  feedback_count BIGINT,
+  studied_together_rate NUMERIC,
+  avg_feedback_rating NUMERIC
+) AS $$
+  WITH arm_matches AS (
+    SELECT
+      ma.experiment_arm,
+      ma.scoring_version,
+      ma.compatibility_score,
+      m.id AS match_id,
+      m.user1_id,
+      m.user2_id,
+      COALESCE(m.messages_exchanged, 0) AS messages_exchanged,
+      COALESCE(m.study_session_scheduled, false) AS study_session_scheduled,
+      m.unmatched_at,
+      calculate_match_success_score(m.id) AS success_score
+    FROM match_analytics ma
+    JOIN matches m ON m.id = ma.match_id
+    WHERE ma.experiment_id = p_experiment_id
+  ),
+  arm_users AS (
+    SELECT DISTINCT am.experiment_arm, u.id, u.avg_messages_per_match
+    FROM arm_matches am
+    JOIN users u ON u.id IN (am.user1_id, am.user2_id)
+  ),
+  arm_feedback AS (
+    SELECT am.experiment_arm, f.studied_together, f.rating
+    FROM arm_matches am
+    JOIN match_feedback f ON f.match_id = am.match_id
+  )
+  SELECT
+    am.experiment_arm,
+    MIN(am.scoring_version),
+    COUNT(*),
+    ROUND(AVG(am.compatibility_score)::NUMERIC, 1),
+    ROUND(AVG(am.success_score)::NUMERIC, 1),
+    ROUND(AVG(CASE WHEN am.success_score >= 50 THEN 1 ELSE 0 END)::NUMERIC, 3),
+    ROUND(AVG(am.messages_exchanged)::NUMERIC, 1),
+    ROUND(AVG(CASE WHEN am.study_session_scheduled THEN 1 ELSE 0 END)::NUMERIC, 3),
+    ROUND(AVG(CASE WHEN am.unmatched_at IS NOT NULL THEN 1 ELSE 0 END)::NUMERIC, 3),
+    (
+      SELECT ROUND(AVG(au.avg_messages_per_match)::NUMERIC, 1)
+      FROM arm_users au
+      WHERE au.experiment_arm = am.experiment_arm
+    ),
+    (
+      SELECT COUNT(*)
+      FROM arm_feedback af
+      WHERE af.experiment_arm = am.experiment_arm
+    ),
+    (
+      SELECT ROUND(AVG(CASE WHEN af.studied_together THEN 1 ELSE 0 END)::NUMERIC, 3)
+      FROM arm_feedback af
+      WHERE af.experiment_arm = am.experiment_arm
+    ),
+    (
+      SELECT ROUND(AVG(af.rating)::NUMERIC, 2)
+      FROM arm_feedback af
+      WHERE af.experiment_arm = am.experiment_arm
+    )
+  FROM arm_matches am
+  GROUP BY am.experiment_arm
+  ORDER BY am.experiment_arm;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_experiment_outcomes(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_experiment_outcomes(TEXT) TO service_role;
+
+COMMENT ON TABLE match_feedback IS 'Per-rater answers to the post-match "Did you study together? How was it?" prompt';
+COMMENT ON COLUMN match_analytics.success_score IS 'Calculated success score (0-100) from engagement metrics and partner feedback';
@@ -0,0 +1,95 @@
+-- Per-user auto-match schedule
+-- Each user gets their daily match at a local hour of their choosing.
+-- users.next_auto_match_at is the single source of truth for "when is my
+-- next match": the auto-match function picks users whose slot is due, and
+-- the app's countdown reads the same column.
+
+ALTER TABLE users
+ADD COLUMN timezone TEXT,
+ADD COLUMN match_hour SMALLINT NOT NULL DEFAULT 8 CHECK (match_hour BETWEEN 0 AND 23),
+ADD COLUMN next_auto_match_at TIMESTAMPTZ;
+
+CREATE INDEX idx_users_next_auto_match ON users(next_auto_match_at) WHERE onboarding_completed = true;
+
+COMMENT ON COLUMN users.timezone IS 'IANA timezone (e.g. America/New_York); NULL until the app reports one, scheduled as UTC';
+COMMENT ON COLUMN users.match_hour IS 'Local hour (0-23) the daily auto-match is delivered';
+COMMENT ON COLUMN users.next_auto_match_at IS 'When the user next becomes eligible for auto-matching; maintained by trigger';
+
+-- Next occurrence of p_match_hour in p_timezone strictly after p_after
+CREATE OR REPLACE FUNCTION compute_next_auto_match_at(
+  p_timezone TEXT,
+  p_match_hour INTEGER,
+  p_after TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_timezone TEXT := COALESCE(p_timezone, 'UTC');
+  v_local_after TIMESTAMP;
+  v_local_slot TIMESTAMP;
+BEGIN
+  v_local_after := p_after AT TIME ZONE v_timezone;
+  v_local_slot := date_trunc('day', v_local_after) + make_interval(hours => p_match_hour);
+
+  IF v_local_slot <= v_local_after THEN
+    v_local_slot := v_local_slot + INTERVAL '1 day';
+  END IF;
+
+  RETURN v_local_slot AT TIME ZONE v_timezone;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Keep next_auto_match_at in step with the schedule and the last cycle.
+-- After a match the slot moves to the next local match hour at least 12
+-- hours on, so changing the hour right after a match can't deliver two
+-- matches in one day. Users who weren't matched keep their due slot and
+-- stay eligible for later runs, as before.
+CREATE OR REPLACE FUNCTION update_next_auto_match_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone
+  ) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+
+  NEW.next_auto_match_at := compute_next_auto_match_at(
+    NEW.timezone,
+    NEW.match_hour,
+    GREATEST(NOW(), COALESCE(NEW.last_auto_match_cycle + INTERVAL '12 hours', NOW()))
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_next_auto_match_at
+BEFORE INSERT OR UPDATE OF timezone, match_hour, last_auto_match_cycle ON users
+FOR EACH ROW
+EXECUTE FUNCTION update_next_auto_match_at();
+
+-- Schedule existing users by the same rule as the trigger
+UPDATE users
+SET next_auto_match_at = compute_next_auto_match_at(
+  timezone,
+  match_hour,
+  GREATEST(NOW(), COALESCE(last_auto_match_cycle + INTERVAL '12 hours', NOW()))
+);
+
+-- Run often enough to reach every local hour, including half-hour and
+-- quarter-hour timezones. cron.schedule with an existing name replaces
+-- the job's schedule.
+SELECT cron.schedule(
+  'auto-match-users',
+  '*/15 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/auto-match',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key')
+      ),
+      body := '{}'::jsonb
+    ) as request_id;
+  $$
+);
@@ -0,0 +1,64 @@
+-- Pause / vacation mode
+-- Users can pause matching until a date (finals, breaks). While paused they
+-- are left out of auto-matching and hidden from swipe decks. On the date,
+-- the auto-match function clears the pause through resume_paused_users()
+-- and sends a "welcome back" notification.
+
+ALTER TABLE users
+ADD COLUMN matching_paused_until TIMESTAMPTZ;
+
+CREATE INDEX idx_users_matching_paused_until ON users(matching_paused_until)
+WHERE matching_paused_until IS NOT NULL;
+
+COMMENT ON COLUMN users.matching_paused_until IS 'Matching is paused until this moment (start of the resume date in the user''s timezone); NULL when active';
+
+-- Schedule the first match after a pause on the resume date's match hour,
+-- so the countdown shows when matching picks up again
+CREATE OR REPLACE FUNCTION update_next_auto_match_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone
+  ) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+
+  NEW.next_auto_match_at := compute_next_auto_match_at(
+    NEW.timezone,
+    NEW.match_hour,
+    GREATEST(
+      NOW(),
+      COALESCE(NEW.last_auto_match_cycle + INTERVAL '12 hours', NOW()),
+      COALESCE(NEW.matching_paused_until, NOW())
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER trigger_update_next_auto_match_at ON users;
+
+CREATE TRIGGER trigger_update_next_auto_match_at
+BEFORE INSERT OR UPDATE OF timezone, match_hour, last_auto_match_cycle, matching_paused_until ON users
+FOR EACH ROW
+EXECUTE FUNCTION update_next_auto_match_at();
+
+-- Clear every pause that has ended and return who resumed, so the caller
+-- can welcome them back. Clearing and returning in one statement means
+-- concurrent runs never notify the same user twice.
+CREATE OR REPLACE FUNCTION resume_paused_users()
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  push_token TEXT,
+  next_auto_match_at TIMESTAMPTZ
+) AS $$
+  UPDATE users u
+  SET matching_paused_until = NULL
+  WHERE u.matching_paused_until <= NOW()
+  RETURNING u.id, u.full_name, u.push_token, u.next_auto_match_at;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION resume_paused_users() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resume_paused_users() TO service_role;
@@ -0,0 +1,347 @@
+-- Stale match lifecycle
+-- A match is stale while one side has never sent a human message (the
+-- AI first message doesn't count). The match-lifecycle function runs
+-- hourly and:
+--   1. nudges the quiet side after a few days (nudge_stale_matches)
+--   2. expires the match if it is still one-sided a few days later
+--      (expire_stale_matches)
+-- Expired matches drop out of chats and daily matches, and count as
+-- unsuccessful in the match and user statistics.
+
+ALTER TABLE matches DROP CONSTRAINT IF EXISTS matches_status_check;
+ALTER TABLE matches
+ADD CONSTRAINT matches_status_check CHECK (status IN ('pending', 'active', 'unmatched', 'expired'));
+
+ALTER TABLE matches
+ADD COLUMN nudged_at TIMESTAMPTZ,
+ADD COLUMN expired_at TIMESTAMPTZ;
+
+CREATE INDEX idx_matches_active_matched_at ON matches(matched_at) WHERE status = 'active';
+
+COMMENT ON COLUMN matches.nudged_at IS 'When the quiet side of a stale match was nudged';
+COMMENT ON COLUMN matches.expired_at IS 'When the match expired for lack of a two-way conversation';
+
+ALTER TABLE users
+ADD COLUMN expired_matches INTEGER DEFAULT 0;
+
+COMMENT ON COLUMN users.expired_matches IS 'Matches that expired because one side never replied';
+
+-- Messages a user has written in a match, not counting AI-generated ones
+CREATE OR REPLACE FUNCTION count_human_messages(p_match_id UUID, p_user_id UUID)
+RETURNS BIGINT AS $$
+  SELECT COUNT(*)
+  FROM messages msg
+  JOIN conversations c ON c.id = msg.conversation_id
+  WHERE c.match_id = p_match_id
+    AND msg.sender_id = p_user_id
+    AND NOT COALESCE(msg.is_ai_generated, FALSE)
+    AND msg.deleted_at IS NULL;
+$$ LANGUAGE sql STABLE;
+
+-- Mark one-sided matches older than p_after as nudged and return who to
+-- nudge: the side with no messages. When neither side has written, that
+-- is whoever didn't "send" the AI first message (both without one).
+-- Marking and returning in one statement means each match is nudged once.
+CREATE OR REPLACE FUNCTION nudge_stale_matches(p_after INTERVAL)
+RETURNS TABLE (
+  match_id UUID,
+  user_id UUID,
+  push_token TEXT,
+  partner_name TEXT
+) AS $$
+  WITH candidates AS (
+    SELECT
+      m.id,
+      m.user1_id,
+      m.user2_id,
+      count_human_messages(m.id, m.user1_id) AS user1_messages,
+      count_human_messages(m.id, m.user2_id) AS user2_messages,
+      (
+        SELECT msg.sender_id
+        FROM messages msg
+        JOIN conversations c ON c.id = msg.conversation_id
+        WHERE c.match_id = m.id AND msg.is_ai_generated
+        ORDER BY msg.created_at
+        LIMIT 1
+      ) AS opener_id
+    FROM matches m
+    WHERE m.status = 'active'
+      AND m.nudged_at IS NULL
+      AND m.matched_at <= NOW() - p_after
+  ),
+  stale AS (
+    SELECT * FROM candidates WHERE user1_messages = 0 OR user2_messages = 0
+  ),
+  nudged AS (
+    UPDATE matches m
+    SET nudged_at = NOW()
+    FROM stale s
+    WHERE m.id = s.id AND m.nudged_at IS NULL
+    RETURNING m.id
+  ),
+  quiet AS (
+    SELECT s.id AS match_id, side.user_id, side.partner_id
+    FROM stale s
+    JOIN nudged n ON n.id = s.id
+    CROSS JOIN LATERAL (
+      VALUES
+        (s.user1_id, s.user2_id, s.user1_messages, s.user2_messages),
+        (s.user2_id, s.user1_id, s.user2_messages, s.user1_messages)
+    ) AS side(user_id, partner_id, own_messages, partner_messages)
+    WHERE side.own_messages = 0
+      AND (side.partner_messages > 0 OR s.opener_id IS DISTINCT FROM side.user_id)
+  )
+  SELECT q.match_id, q.user_id, u.push_token, p.full_name
+  FROM quiet q
+  JOIN users u ON u.id = q.user_id
+  JOIN users p ON p.id = q.partner_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Expire matches still one-sided after p_after, at least p_min_nudge_age
+-- after their nudge, and refresh both users' statistics
+CREATE OR REPLACE FUNCTION expire_stale_matches(
+  p_after INTERVAL,
+  p_min_nudge_age INTERVAL DEFAULT INTERVAL '1 day'
+)
+RETURNS TABLE (
+  expired_match_id UUID,
+  expired_user1_id UUID,
+  expired_user2_id UUID
+) AS $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    UPDATE matches m
+    SET status = 'expired', expired_at = NOW()
+    WHERE m.status = 'active'
+      AND m.matched_at <= NOW() - p_after
+      AND m.nudged_at <= NOW() - p_min_nudge_age
+      AND (count_human_messages(m.id, m.user1_id) = 0 OR count_human_messages(m.id, m.user2_id) = 0)
+    RETURNING m.id, m.user1_id, m.user2_id
+  LOOP
+    PERFORM update_user_match_stats(r.user1_id);
+    PERFORM update_user_match_stats(r.user2_id);
+
+    expired_match_id := r.id;
+    expired_user1_id := r.user1_id;
+    expired_user2_id := r.user2_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION nudge_stale_matches(INTERVAL) FROM PUBLIC;
+REVOKE ALL ON FUNCTION expire_stale_matches(INTERVAL, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION nudge_stale_matches(INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_stale_matches(INTERVAL, INTERVAL) TO service_role;
+
+-- Success score: expiring costs the same 10 points as unmatching, and
+-- the match stops accruing active days when it expires
+CREATE OR REPLACE FUNCTION calculate_match_success_score(match_id UUID)
+RETURNS FLOAT AS $$
+DECLARE
+  v_messages_exchanged INTEGER;
+  v_study_session_scheduled BOOLEAN;
+  v_matched_at TIMESTAMPTZ;
+  v_ended_at TIMESTAMPTZ;
+  v_studied_together BOOLEAN;
+  v_avg_rating FLOAT;
+  v_score FLOAT := 0;
+  v_days_active INTEGER;
+BEGIN
+  -- Get match data
+  SELECT
+    m.messages_exchanged,
+    m.study_session_scheduled,
+    m.matched_at,
+    COALESCE(m.unmatched_at, m.expired_at)
+  INTO
+    v_messages_exchanged,
+    v_study_session_scheduled,
+    v_matched_at,
+    v_ended_at
+  FROM matches m
+  WHERE m.id = calculate_match_success_score.match_id;
+
+  -- Get feedback from either partner
+  SELECT
+    BOOL_OR(f.studied_together),
+    AVG(f.rating)
+  INTO
+    v_studied_together,
+    v_avg_rating
+  FROM match_feedback f
+  WHERE f.match_id = calculate_match_success_score.match_id;
+
+  -- Messages score (0-40 points)
+  IF v_messages_exchanged >= 30 THEN
+    v_score := v_score + 40;
+  ELSIF v_messages_exchanged >= 16 THEN
+    v_score := v_score + 30;
+  ELSIF v_messages_exchanged >= 6 THEN
+    v_score := v_score + 20;
+  ELSIF v_messages_exchanged >= 1 THEN
+    v_score := v_score + 10;
+  END IF;
+
+  -- Study session score (0-30 points)
+  IF v_study_session_scheduled OR COALESCE(v_studied_together, FALSE) THEN
+    v_score := v_score + 30;
+  END IF;
+
+  -- Duration score (0-20 points)
+  v_days_active := EXTRACT(DAY FROM (COALESCE(v_ended_at, NOW()) - v_matched_at));
+
+  IF v_days_active >= 30 THEN
+    v_score := v_score + 20;
+  ELSIF v_days_active >= 14 THEN
+    v_score := v_score + 15;
+  ELSIF v_days_active >= 7 THEN
+    v_score := v_score + 10;
+  END IF;
+
+  -- Rating score (-10 to +10 points)
+  IF v_avg_rating >= 4 THEN
+    v_score := v_score + 10;
+  ELSIF v_avg_rating <= 2 THEN
+    v_score := v_score - 10;
+  END IF;
+
+  -- Unmatch or expiry penalty (-10 points)
+  IF v_ended_at IS NOT NULL THEN
+    v_score := v_score - 10;
+  END IF;
+
+  -- Normalize to 0-100 scale
+  RETURN GREATEST(0, LEAST(100, v_score));
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_match_success_factors(p_match_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'messages_exchanged', m.messages_exchanged,
+    'study_session_scheduled', m.study_session_scheduled,
+    'days_active', EXTRACT(DAY FROM (COALESCE(m.unmatched_at, m.expired_at, NOW()) - m.matched_at)),
+    'unmatched', m.unmatched_at IS NOT NULL,
+    'expired', m.expired_at IS NOT NULL,
+    'feedback_count', (SELECT COUNT(*) FROM match_feedback f WHERE f.match_id = m.id),
+    'studied_together', (SELECT BOOL_OR(f.studied_together) FROM match_feedback f WHERE f.match_id = m.id),
+    'avg_rating', (SELECT ROUND(AVG(f.rating)::NUMERIC, 1) FROM match_feedback f WHERE f.match_id = m.id)
+  )
+  FROM matches m
+  WHERE m.id = p_match_id;
+$$ LANGUAGE sql STABLE;
+
+-- Refresh the success score when a match expires, too
+DROP TRIGGER trigger_update_match_statistics ON matches;
+
+CREATE TRIGGER trigger_update_match_statistics
+AFTER UPDATE ON matches
+FOR EACH ROW
+WHEN (
+  OLD.messages_exchanged IS DISTINCT FROM NEW.messages_exchanged OR
+  OLD.study_session_scheduled IS DISTINCT FROM NEW.study_session_scheduled OR
+  OLD.unmatched_at IS DISTINCT FROM NEW.unmatched_at OR
+  OLD.expired_at IS DISTINCT FROM NEW.expired_at
+)
+EXECUTE FUNCTION update_match_statistics();
+
+-- User statistics: expired matches stay in total_matches, so they lower
+-- the success rate instead of disappearing from it
+CREATE OR REPLACE FUNCTION update_user_match_stats(user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_total_matches INTEGER;
+  v_successful_matches INTEGER;
+  v_expired_matches INTEGER;
+  v_avg_messages FLOAT;
+  v_feedback_received INTEGER;
+  v_avg_feedback_rating FLOAT;
+  v_unstudied_matches INTEGER;
+BEGIN
+  -- Count total matches
+  SELECT COUNT(*)
+  INTO v_total_matches
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status IN ('active', 'expired');
+
+  -- Count successful matches (success_score >= 50)
+  SELECT COUNT(*)
+  INTO v_successful_matches
+  FROM matches m
+  JOIN match_analytics ma ON ma.match_id = m.id
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND ma.success_score >= 50;
+
+  -- Count expired matches
+  SELECT COUNT(*)
+  INTO v_expired_matches
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status = 'expired';
+
+  -- Calculate average messages per match
+  SELECT COALESCE(AVG(messages_exchanged), 0)
+  INTO v_avg_messages
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status IN ('active', 'expired');
+
+  -- Ratings partners left on this user's matches
+  SELECT COUNT(*), AVG(f.rating)
+  INTO v_feedback_received, v_avg_feedback_rating
+  FROM match_feedback f
+  JOIN matches m ON m.id = f.match_id
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND f.rater_id <> user_id;
+
+  -- Active matches with feedback where nobody reports studying together
+  SELECT COUNT(*)
+  INTO v_unstudied_matches
+  FROM matches m
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND m.status = 'active'
+    AND EXISTS (SELECT 1 FROM match_feedback f WHERE f.match_id = m.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM match_feedback f
+      WHERE f.match_id = m.id AND f.studied_together
+    );
+
+  -- Update user record
+  UPDATE users
+  SET
+    total_matches = v_total_matches,
+    successful_matches = v_successful_matches,
+    expired_matches = v_expired_matches,
+    avg_messages_per_match = v_avg_messages,
+    feedback_received = v_feedback_received,
+    avg_feedback_rating = v_avg_feedback_rating,
+    unstudied_matches = v_unstudied_matches
+  WHERE id = user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run the lifecycle job hourly. The function only accepts the cron
+-- secret (or the service role key); set it as described in
+-- 20241210000015_add_auto_match_lease.sql:
+--   ALTER DATABASE postgres SET "app.settings.cron_secret" TO '<random value>';
+--   supabase secrets set CRON_SECRET=<random value>
+SELECT cron.schedule(
+  'match-lifecycle',
+  '0 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/match-lifecycle',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key'),
+        'x-cron-secret', current_setting('app.settings.cron_secret')
+      ),
+      body := '{}'::jsonb
+    ) as request_id;
+  $$
+);
@@ -0,0 +1,123 @@
+-- Group matching into auto-created Nests
+-- Users who opt in are periodically clustered with 3-6 compatible
+-- students who share a course (auto-match function, "groups" mode).
+-- Each group becomes a Nest with is_auto_created = true, no creator,
+-- every member joined and a welcome message from Peerly.
+
+ALTER TABLE users
+ADD COLUMN group_matching_opt_in BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN last_group_match_at TIMESTAMPTZ;
+
+CREATE INDEX idx_users_group_matching ON users(last_group_match_at)
+WHERE group_matching_opt_in = true;
+
+COMMENT ON COLUMN users.group_matching_opt_in IS 'User wants to be placed in auto-created study group Nests';
+COMMENT ON COLUMN users.last_group_match_at IS 'When the user was last placed in an auto-created Nest';
+
+-- Auto-created Nests have no creator to add as a member
+CREATE OR REPLACE FUNCTION add_creator_as_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO nest_members (nest_id, user_id, role)
+    VALUES (NEW.id, NEW.created_by, 'creator');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The original check selected COUNT(*) next to an ungrouped member_limit,
+-- which Postgres rejects. Count and limit are read separately, with the
+-- Nest row locked so concurrent joins can't overshoot the limit.
+CREATE OR REPLACE FUNCTION validate_member_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_count INTEGER;
+  max_limit INTEGER;
+BEGIN
+  SELECT member_limit
+  INTO max_limit
+  FROM nests
+  WHERE id = NEW.nest_id
+  FOR UPDATE;
+
+  SELECT COUNT(*)
+  INTO current_count
+  FROM nest_members
+  WHERE nest_id = NEW.nest_id;
+
+  IF current_count >= max_limit THEN
+    RAISE EXCEPTION 'Nest is at member limit (%)', max_limit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an auto Nest with all members and a welcome message in one
+-- transaction, so a failure never leaves a half-filled group behind
+CREATE OR REPLACE FUNCTION create_auto_nest(
+  p_name TEXT,
+  p_subject TEXT,
+  p_university TEXT,
+  p_member_ids UUID[],
+  p_welcome_message TEXT,
+  p_member_limit INTEGER DEFAULT 6
+)
+RETURNS UUID AS $$
+DECLARE
+  v_nest_id UUID;
+  v_member_count INTEGER := COALESCE(array_length(p_member_ids, 1), 0);
+BEGIN
+  IF v_member_count < 3 OR v_member_count > p_member_limit THEN
+    RAISE EXCEPTION 'Auto Nest needs 3 to % members, got %', p_member_limit, v_member_count;
+  END IF;
+
+  INSERT INTO nests (name, subject, description, university, created_by, member_limit, is_auto_created)
+  VALUES (
+    p_name,
+    p_subject,
+    'Matched by Peerly for students taking ' || p_subject,
+    p_university,
+    NULL,
+    p_member_limit,
+    TRUE
+  )
+  RETURNING id INTO v_nest_id;
+
+  INSERT INTO nest_members (nest_id, user_id, role)
+  SELECT v_nest_id, member_id, 'member'
+  FROM unnest(p_member_ids) AS member_id;
+
+  -- No sender: shown as a message from Peerly
+  INSERT INTO nest_messages (nest_id, sender_id, content)
+  VALUES (v_nest_id, NULL, p_welcome_message);
+
+  UPDATE users
+  SET last_group_match_at = NOW()
+  WHERE id = ANY(p_member_ids);
+
+  RETURN v_nest_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION create_auto_nest(TEXT, TEXT, TEXT, UUID[], TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_auto_nest(TEXT, TEXT, TEXT, UUID[], TEXT, INTEGER) TO service_role;
+
+-- Form groups once a day; the function only considers users whose last
+-- group is at least two weeks old
+SELECT cron.schedule(
+  'auto-match-groups',
+  '0 16 * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/auto-match',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key')
+      ),
+      body := '{"mode": "groups"}'::jsonb
+    ) as request_id;
+  $$
+);
@@ -0,0 +1,82 @@
+-- Atomic swipes and mutual-like matches
+-- record_swipe() replaces the client's insert-swipe / read-other-like /
+-- insert-match sequence, which raced when two users liked each other at
+-- the same moment (duplicate matches, or none). Swipes between the same
+-- two users are serialized with an advisory lock, so the second like
+-- always sees the first and the match and conversation are created once.
+-- The swipe Edge Function calls this as the user and sends notifications.
+
+CREATE OR REPLACE FUNCTION record_swipe(p_target_user_id UUID, p_action TEXT)
+RETURNS TABLE (
+  swipe_id UUID,
+  match_id UUID,
+  match_created BOOLEAN
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_swipe_id UUID;
+  v_match_id UUID;
+  v_match_status TEXT;
+  v_match_created BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_action IS NULL OR p_action NOT IN ('like', 'skip') THEN
+    RAISE EXCEPTION 'Invalid swipe action: %', p_action;
+  END IF;
+
+  IF p_target_user_id IS NULL OR p_target_user_id = v_user_id THEN
+    RAISE EXCEPTION 'Invalid swipe target';
+  END IF;
+
+  -- One lock per unordered pair, held until the transaction ends
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(LEAST(v_user_id, p_target_user_id)::TEXT || GREATEST(v_user_id, p_target_user_id)::TEXT, 0)
+  );
+
+  INSERT INTO swipe_actions (user_id, target_user_id, action)
+  VALUES (v_user_id, p_target_user_id, p_action)
+  RETURNING id INTO v_swipe_id;
+
+  IF p_action = 'like' AND EXISTS (
+    SELECT 1 FROM swipe_actions s
+    WHERE s.user_id = p_target_user_id
+      AND s.target_user_id = v_user_id
+      AND s.action = 'like'
+  ) THEN
+    SELECT m.id, m.status
+    INTO v_match_id, v_match_status
+    FROM matches m
+    WHERE (m.user1_id = v_user_id AND m.user2_id = p_target_user_id)
+       OR (m.user1_id = p_target_user_id AND m.user2_id = v_user_id)
+    ORDER BY m.matched_at DESC
+    LIMIT 1;
+
+    IF v_match_id IS NULL THEN
+      INSERT INTO matches (user1_id, user2_id, match_type, status)
+      VALUES (v_user_id, p_target_user_id, 'manual', 'active')
+      RETURNING id INTO v_match_id;
+
+      INSERT INTO conversations (match_id)
+      VALUES (v_match_id)
+      ON CONFLICT (match_id) DO NOTHING;
+
+      v_match_created := TRUE;
+    ELSIF v_match_status <> 'active' THEN
+      -- Pairs that unmatched or expired aren't matched again by swiping
+      v_match_id := NULL;
+    END IF;
+  END IF;
+
+  swipe_id := v_swipe_id;
+  match_id := v_match_id;
+  match_created := v_match_created;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_swipe(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_swipe(UUID, TEXT) TO authenticated;
@@ -0,0 +1,81 @@
+-- Swipe undo
+-- undo_swipe() removes the caller's swipe on a user, so the card can go
+-- back on the deck (getCandidateFeedPage stops excluding them). Undoing a
+-- like that created a swipe match also removes that match, but only within
+-- a short grace window and before either side has written anything.
+
+CREATE OR REPLACE FUNCTION undo_swipe(p_target_user_id UUID)
+RETURNS TABLE (
+  undone_action TEXT,
+  match_removed BOOLEAN
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_action TEXT;
+  v_swiped_at TIMESTAMPTZ;
+  v_match_id UUID;
+  v_matched_at TIMESTAMPTZ;
+  v_match_removed BOOLEAN := FALSE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Same pair lock as record_swipe, so an undo can't interleave with a match
+  PERFORM pg_advisory_xact_lock(
+    hashtextextended(LEAST(v_user_id, p_target_user_id)::TEXT || GREATEST(v_user_id, p_target_user_id)::TEXT, 0)
+  );
+
+  SELECT s.action, s.created_at
+  INTO v_action, v_swiped_at
+  FROM swipe_actions s
+  WHERE s.user_id = v_user_id AND s.target_user_id = p_target_user_id
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF v_action IS NULL THEN
+    RAISE EXCEPTION 'No swipe to undo';
+  END IF;
+
+  IF v_action = 'like' THEN
+    SELECT m.id, m.matched_at
+    INTO v_match_id, v_matched_at
+    FROM matches m
+    WHERE ((m.user1_id = v_user_id AND m.user2_id = p_target_user_id)
+        OR (m.user1_id = p_target_user_id AND m.user2_id = v_user_id))
+      AND m.match_type = 'manual'
+      AND m.status = 'active'
+    ORDER BY m.matched_at DESC
+    LIMIT 1;
+
+    IF v_match_id IS NOT NULL THEN
+      -- The match belongs to the like that completed it (record_swipe
+      -- writes both at once). Undoing an earlier like must not take away
+      -- a match the other user has just made
+      IF v_swiped_at < v_matched_at
+        OR v_matched_at < NOW() - INTERVAL '5 minutes'
+        OR count_human_messages(v_match_id, v_user_id) > 0
+        OR count_human_messages(v_match_id, p_target_user_id) > 0
+      THEN
+        RAISE EXCEPTION 'This match can no longer be undone';
+      END IF;
+
+      -- Cascades to the conversation and analytics
+      DELETE FROM matches WHERE id = v_match_id;
+      v_match_removed := TRUE;
+    END IF;
+  END IF;
+
+  -- All of them: a leftover duplicate would keep the user off the deck
+  DELETE FROM swipe_actions
+  WHERE user_id = v_user_id AND target_user_id = p_target_user_id;
+
+  undone_action := v_action;
+  match_removed := v_match_removed;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION undo_swipe(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION undo_swipe(UUID) TO authenticated;
@@ -0,0 +1,240 @@
+-- Auto-match run history
+-- Every auto-match run (pairs or groups, including dry runs) is recorded
+-- in auto_match_runs, and every eligible user of a pair run gets a row in
+-- auto_match_run_users saying whether they were matched, and if not why.
+-- The function writes both with the service role; admins read them
+-- through the RPCs below. History is kept for 30 days.
+
+-- =====================================================
+-- ADMINS
+-- =====================================================
+
+-- Granted with the service role only (SQL editor); there is no way to
+-- become an admin from the app
+CREATE TABLE admin_users (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM admin_users WHERE user_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+-- =====================================================
+-- RUNS
+-- =====================================================
+
+CREATE TABLE auto_match_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mode TEXT NOT NULL CHECK (mode IN ('pairs', 'groups')),
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  scoring_version TEXT NOT NULL,
+  experiment_id TEXT,
+  pairing_mode TEXT,
+  eligible_count INT NOT NULL DEFAULT 0,
+  matches_created INT NOT NULL DEFAULT 0,
+  nests_created INT NOT NULL DEFAULT 0,
+  skipped_count INT NOT NULL DEFAULT 0,
+  stats JSONB, -- CohortStats or GroupingStats
+  errors TEXT[] NOT NULL DEFAULT '{}', -- Per-pair failures that didn't stop the run
+  error TEXT -- Why a failed run stopped
+);
+
+CREATE INDEX idx_auto_match_runs_started_at ON auto_match_runs(started_at DESC);
+
+COMMENT ON TABLE auto_match_runs IS 'One row per auto-match function run, written by the function';
+
+CREATE TABLE auto_match_run_users (
+  run_id UUID NOT NULL REFERENCES auto_match_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('matched', 'skipped', 'failed')),
+  partner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  match_id UUID REFERENCES matches(id) ON DELETE SET NULL,
+  score NUMERIC, -- Adjusted score of the pair (matched or failed)
+  skip_reason TEXT, -- SkipReason from the simulation module
+  best_candidate_score NUMERIC, -- Best adjusted score with any allowed peer (skipped)
+  PRIMARY KEY (run_id, user_id)
+);
+
+CREATE INDEX idx_auto_match_run_users_user ON auto_match_run_users(user_id);
+
+COMMENT ON TABLE auto_match_run_users IS 'Per-user outcome of a pair-mode auto-match run';
+
+-- No policies: only the service role (the function) and the admin RPCs read these
+ALTER TABLE auto_match_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auto_match_run_users ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- RETENTION
+-- =====================================================
+
+-- Pair runs every 15 minutes add a row per eligible user, so history is
+-- trimmed hourly. Deleting a run removes its user rows with it. A run
+-- that crashed before recording its result would stay 'running' forever;
+-- no run outlives its lease (10 minutes) or the function's time limit,
+-- so after an hour it is marked failed
+SELECT cron.schedule(
+  'auto-match-runs-cleanup',
+  '30 * * * *',
+  $$
+  UPDATE auto_match_runs
+  SET status = 'failed',
+      finished_at = NOW(),
+      error = 'Run stopped without recording a result'
+  WHERE status = 'running'
+    AND started_at < NOW() - INTERVAL '1 hour';
+
+  DELETE FROM auto_match_runs
+  WHERE started_at < NOW() - INTERVAL '30 days';
+  $$
+);
+
+-- =====================================================
+-- ADMIN RPCS
+-- =====================================================
+
+-- Latest runs first; pass the oldest started_at seen to page back
+CREATE OR REPLACE FUNCTION get_auto_match_runs(
+  p_limit INT DEFAULT 30,
+  p_before TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS SETOF auto_match_runs AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admins only';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM auto_match_runs r
+  WHERE p_before IS NULL OR r.started_at < p_before
+  ORDER BY r.started_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Every user of one run, optionally only one outcome
+CREATE OR REPLACE FUNCTION get_auto_match_run_users(
+  p_run_id UUID,
+  p_outcome TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id UUID,
+  user_name TEXT,
+  outcome TEXT,
+  partner_id UUID,
+  partner_name TEXT,
+  match_id UUID,
+  score NUMERIC,
+  skip_reason TEXT,
+  best_candidate_score NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admins only';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ru.user_id,
+    u.full_name,
+    ru.outcome,
+    ru.partner_id,
+    p.full_name,
+    ru.match_id,
+    ru.score,
+    ru.skip_reason,
+    ru.best_candidate_score
+  FROM auto_match_run_users ru
+  JOIN users u ON u.id = ru.user_id
+  LEFT JOIN users p ON p.id = ru.partner_id
+  WHERE ru.run_id = p_run_id
+    AND (p_outcome IS NULL OR ru.outcome = p_outcome)
+  ORDER BY ru.outcome, u.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- What happened to one user in each pair run on a day (UTC). Users who
+-- weren't in a run's eligible cohort (slot not due, paused, onboarding
+-- unfinished) come back as 'not_eligible'.
+CREATE OR REPLACE FUNCTION explain_user_auto_match(p_user_id UUID, p_day DATE)
+RETURNS TABLE (
+  run_id UUID,
+  started_at TIMESTAMPTZ,
+  dry_run BOOLEAN,
+  run_status TEXT,
+  scoring_version TEXT,
+  outcome TEXT,
+  partner_id UUID,
+  partner_name TEXT,
+  match_id UUID,
+  score NUMERIC,
+  skip_reason TEXT,
+  best_candidate_score NUMERIC
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admins only';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.started_at,
+    r.dry_run,
+    r.status,
+    r.scoring_version,
+    COALESCE(ru.outcome, 'not_eligible'),
+    ru.partner_id,
+    p.full_name,
+    ru.match_id,
+    ru.score,
+    ru.skip_reason,
+    ru.best_candidate_score
+  FROM auto_match_runs r
+  LEFT JOIN auto_match_run_users ru ON ru.run_id = r.id AND ru.user_id = p_user_id
+  LEFT JOIN users p ON p.id = ru.partner_id
+  WHERE r.mode = 'pairs'
+    AND r.started_at >= p_day::TIMESTAMPTZ
+    AND r.started_at < (p_day + 1)::TIMESTAMPTZ
+  ORDER BY r.started_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Look a user up by email, to explain a user who wasn't in any cohort
+CREATE OR REPLACE FUNCTION admin_find_user(p_email TEXT)
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  university TEXT
+) AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admins only';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.id, u.full_name, u.email, u.university
+  FROM users u
+  WHERE lower(u.email) = lower(trim(p_email))
+  LIMIT 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_auto_match_runs(INT, TIMESTAMPTZ) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_auto_match_run_users(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION explain_user_auto_match(UUID, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION admin_find_user(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_auto_match_runs(INT, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_auto_match_run_users(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION explain_user_auto_match(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_find_user(TEXT) TO authenticated;
@@ -0,0 +1,131 @@
+-- Auto-match concurrency and caller checks
+-- Overlapping auto-match invocations (a cron retry, or a manual trigger
+-- during a scheduled run) could pair the same users twice. Now:
+--   1. A run takes a lease per mode before matching. A second run finds
+--      the lease held, records itself as 'skipped' and exits. Leases
+--      expire, so a crashed run can't block matching forever.
+--   2. Auto matches carry an idempotency key for the pair, so even a run
+--      that outlives its lease can't create the same match twice.
+--   3. The cron sends a shared secret (x-cron-secret) that the function
+--      checks; other callers need the service role key.
+
+-- =====================================================
+-- RUN LEASES
+-- =====================================================
+
+-- Advisory locks are released when each PostgREST request ends, so the
+-- lease is a row with an expiry instead
+CREATE TABLE auto_match_leases (
+  name TEXT PRIMARY KEY, -- Run mode: 'pairs' or 'groups'
+  holder UUID NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE auto_match_leases ENABLE ROW LEVEL SECURITY;
+
+-- Take the lease if it is free or expired; returns whether it was taken
+CREATE OR REPLACE FUNCTION acquire_auto_match_lease(
+  p_name TEXT,
+  p_holder UUID,
+  p_ttl INTERVAL DEFAULT '10 minutes'
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_holder UUID;
+BEGIN
+  INSERT INTO auto_match_leases AS l (name, holder, acquired_at, expires_at)
+  VALUES (p_name, p_holder, NOW(), NOW() + p_ttl)
+  ON CONFLICT (name) DO UPDATE
+  SET holder = EXCLUDED.holder,
+      acquired_at = EXCLUDED.acquired_at,
+      expires_at = EXCLUDED.expires_at
+  WHERE l.expires_at < NOW()
+  RETURNING l.holder INTO v_holder;
+
+  RETURN v_holder IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Release the lease, but only if this holder still has it
+CREATE OR REPLACE FUNCTION release_auto_match_lease(p_name TEXT, p_holder UUID)
+RETURNS VOID AS $$
+  DELETE FROM auto_match_leases
+  WHERE name = p_name AND holder = p_holder;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION acquire_auto_match_lease(TEXT, UUID, INTERVAL) FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_auto_match_lease(TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION acquire_auto_match_lease(TEXT, UUID, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION release_auto_match_lease(TEXT, UUID) TO service_role;
+
+-- Runs that found the lease held are recorded as skipped
+ALTER TABLE auto_match_runs DROP CONSTRAINT auto_match_runs_status_check;
+ALTER TABLE auto_match_runs ADD CONSTRAINT auto_match_runs_status_check
+  CHECK (status IN ('running', 'succeeded', 'failed', 'skipped'));
+
+-- =====================================================
+-- MATCH IDEMPOTENCY
+-- =====================================================
+
+-- 'auto:<user id>:<user id>' (ids in sorted order) for auto matches; a
+-- pair is only ever auto-matched once. NULL for swipe matches, which
+-- record_swipe already serializes per pair.
+ALTER TABLE matches ADD COLUMN idempotency_key TEXT;
+ALTER TABLE matches ADD CONSTRAINT matches_idempotency_key_key UNIQUE (idempotency_key);
+
+-- Existing auto matches get their key too; if a pair was auto-matched
+-- twice, the newest match keeps it
+UPDATE matches m
+SET idempotency_key = 'auto:' || LEAST(m.user1_id, m.user2_id)::TEXT || ':' || GREATEST(m.user1_id, m.user2_id)::TEXT
+WHERE m.match_type = 'auto'
+  AND m.id = (
+    SELECT m2.id
+    FROM matches m2
+    WHERE m2.match_type = 'auto'
+      AND LEAST(m2.user1_id, m2.user2_id) = LEAST(m.user1_id, m.user2_id)
+      AND GREATEST(m2.user1_id, m2.user2_id) = GREATEST(m.user1_id, m.user2_id)
+    ORDER BY m2.matched_at DESC
+    LIMIT 1
+  );
+
+-- =====================================================
+-- CRON SECRET
+-- =====================================================
+-- Set the same value in the database and the function:
+--   ALTER DATABASE postgres SET "app.settings.cron_secret" TO '<random value>';
+--   supabase secrets set CRON_SECRET=<random value>
+
+SELECT cron.schedule(
+  'auto-match-users',
+  '*/15 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/auto-match',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key'),
+        'x-cron-secret', current_setting('app.settings.cron_secret')
+      ),
+      body := '{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+SELECT cron.schedule(
+  'auto-match-groups',
+  '0 16 * * *',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/auto-match',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key'),
+        'x-cron-secret', current_setting('app.settings.cron_secret')
+      ),
+      body := '{"mode": "groups"}'::jsonb
+    ) as request_id;
+  $$
+);
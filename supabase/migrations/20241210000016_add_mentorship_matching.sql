@@ -0,0 +1,45 @@
+-- Mentorship matching
+-- Users opt in as a mentor or a mentee and are paired by the auto-match
+-- function's "mentorship" mode. Mentors are Seniors or verified tutor/
+-- mentor badge holders who have taken a course; mentees are Freshmen
+-- taking it now. Each pair becomes a match with match_type 'mentorship',
+-- scored with its own profile and opened with a message saying so.
+
+ALTER TABLE users
+ADD COLUMN mentorship_role TEXT CHECK (mentorship_role IN ('mentor', 'mentee')),
+ADD COLUMN completed_subjects TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN last_mentorship_match_at TIMESTAMPTZ;
+
+CREATE INDEX idx_users_mentorship ON users(last_mentorship_match_at)
+WHERE mentorship_role IS NOT NULL;
+
+COMMENT ON COLUMN users.mentorship_role IS 'Opted in to mentorship matching as a mentor or a mentee (NULL = not opted in)';
+COMMENT ON COLUMN users.completed_subjects IS 'Courses the user has already taken; what a mentor can help with';
+COMMENT ON COLUMN users.last_mentorship_match_at IS 'When the user was last given a mentorship match';
+
+ALTER TABLE matches DROP CONSTRAINT matches_match_type_check;
+ALTER TABLE matches ADD CONSTRAINT matches_match_type_check
+  CHECK (match_type IN ('auto', 'manual', 'mentorship'));
+
+ALTER TABLE auto_match_runs DROP CONSTRAINT auto_match_runs_mode_check;
+ALTER TABLE auto_match_runs ADD CONSTRAINT auto_match_runs_mode_check
+  CHECK (mode IN ('pairs', 'groups', 'mentorship'));
+
+-- Pair mentors once a week; the function only considers users whose last
+-- mentorship match is at least a week old
+SELECT cron.schedule(
+  'auto-match-mentorship',
+  '0 17 * * 1',
+  $$
+  SELECT
+    net.http_post(
+      url := current_setting('app.settings.supabase_url') || '/functions/v1/auto-match',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key'),
+        'x-cron-secret', current_setting('app.settings.cron_secret')
+      ),
+      body := '{"mode": "mentorship"}'::jsonb
+    ) as request_id;
+  $$
+);
@@ -0,0 +1,168 @@
+-- Unmatching
+-- unmatch_match() lets either partner end a match, with an optional
+-- reason. The match row is kept (status 'unmatched'), so the pair stays
+-- in get_pair_exclusions and is never matched again, by auto-match or by
+-- swiping (record_swipe ignores ended matches). The conversation drops
+-- out of both users' chat lists, and the match counts as unsuccessful in
+-- the match and user statistics.
+
+ALTER TABLE matches
+ADD COLUMN unmatched_by UUID REFERENCES users(id) ON DELETE SET NULL,
+ADD COLUMN unmatch_reason TEXT CHECK (unmatch_reason IN ('not_responsive', 'different_goals', 'inappropriate'));
+
+COMMENT ON COLUMN matches.unmatched_by IS 'Which partner ended the match';
+COMMENT ON COLUMN matches.unmatch_reason IS 'Why they ended it, if they said (NULL = no reason given)';
+
+-- End a match the caller is part of. Unmatching an already unmatched
+-- match succeeds without changes, so a queued offline unmatch can replay.
+-- SECURITY DEFINER because the caller can't write their partner's stats
+CREATE OR REPLACE FUNCTION unmatch_match(p_match_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_user1_id UUID;
+  v_user2_id UUID;
+  v_status TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT m.user1_id, m.user2_id, m.status
+  INTO v_user1_id, v_user2_id, v_status
+  FROM matches m
+  WHERE m.id = p_match_id
+  FOR UPDATE;
+
+  IF v_status IS NULL OR v_user_id NOT IN (v_user1_id, v_user2_id) THEN
+    RAISE EXCEPTION 'Match not found';
+  END IF;
+
+  IF v_status = 'unmatched' THEN
+    RETURN;
+  END IF;
+
+  IF v_status = 'expired' THEN
+    RAISE EXCEPTION 'This match has already ended';
+  END IF;
+
+  -- Fires trigger_update_match_statistics, which refreshes the success score
+  UPDATE matches
+  SET
+    status = 'unmatched',
+    unmatched_at = NOW(),
+    unmatched_by = v_user_id,
+    unmatch_reason = p_reason
+  WHERE id = p_match_id;
+
+  PERFORM update_user_match_stats(v_user1_id);
+  PERFORM update_user_match_stats(v_user2_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION unmatch_match(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION unmatch_match(UUID, TEXT) TO authenticated;
+
+-- "Users can update matches they're part of" covers every column, which
+-- would let a partner bring an ended match back to 'active' or rewrite
+-- who ended it. Signed-in users may still update other columns, but the
+-- status and how a match ended only change through unmatch_match and
+-- the service role (match-lifecycle expiry)
+CREATE OR REPLACE FUNCTION guard_match_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- current_user is the function owner inside SECURITY DEFINER RPCs
+  IF current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Match status can only be changed by unmatching';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_guard_match_status
+BEFORE UPDATE ON matches
+FOR EACH ROW
+WHEN (
+  NEW.status IS DISTINCT FROM OLD.status
+  OR NEW.unmatched_at IS DISTINCT FROM OLD.unmatched_at
+  OR NEW.unmatched_by IS DISTINCT FROM OLD.unmatched_by
+  OR NEW.unmatch_reason IS DISTINCT FROM OLD.unmatch_reason
+  OR NEW.expired_at IS DISTINCT FROM OLD.expired_at
+)
+EXECUTE FUNCTION guard_match_status();
+
+-- User statistics: unmatched matches stay in total_matches like expired
+-- ones, so they lower the success rate instead of disappearing from it
+CREATE OR REPLACE FUNCTION update_user_match_stats(user_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_total_matches INTEGER;
+  v_successful_matches INTEGER;
+  v_expired_matches INTEGER;
+  v_avg_messages FLOAT;
+  v_feedback_received INTEGER;
+  v_avg_feedback_rating FLOAT;
+  v_unstudied_matches INTEGER;
+BEGIN
+  -- Count total matches
+  SELECT COUNT(*)
+  INTO v_total_matches
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status IN ('active', 'expired', 'unmatched');
+
+  -- Count successful matches (success_score >= 50)
+  SELECT COUNT(*)
+  INTO v_successful_matches
+  FROM matches m
+  JOIN match_analytics ma ON ma.match_id = m.id
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND ma.success_score >= 50;
+
+  -- Count expired matches
+  SELECT COUNT(*)
+  INTO v_expired_matches
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status = 'expired';
+
+  -- Calculate average messages per match
+  SELECT COALESCE(AVG(messages_exchanged), 0)
+  INTO v_avg_messages
+  FROM matches
+  WHERE (user1_id = user_id OR user2_id = user_id)
+    AND status IN ('active', 'expired', 'unmatched');
+
+  -- Ratings partners left on this user's matches
+  SELECT COUNT(*), AVG(f.rating)
+  INTO v_feedback_received, v_avg_feedback_rating
+  FROM match_feedback f
+  JOIN matches m ON m.id = f.match_id
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND f.rater_id <> user_id;
+
+  -- Active matches with feedback where nobody reports studying together
+  SELECT COUNT(*)
+  INTO v_unstudied_matches
+  FROM matches m
+  WHERE (m.user1_id = user_id OR m.user2_id = user_id)
+    AND m.status = 'active'
+    AND EXISTS (SELECT 1 FROM match_feedback f WHERE f.match_id = m.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM match_feedback f
+      WHERE f.match_id = m.id AND f.studied_together
+    );
+
+  -- Update user record
+  UPDATE users
+  SET
+    total_matches = v_total_matches,
+    successful_matches = v_successful_matches,
+    expired_matches = v_expired_matches,
+    avg_messages_per_match = v_avg_messages,
+    feedback_received = v_feedback_received,
+    avg_feedback_rating = v_avg_feedback_rating,
+    unstudied_matches = v_unstudied_matches
+  WHERE id = user_id;
+END;
+$$ LANGUAGE plpgsql;
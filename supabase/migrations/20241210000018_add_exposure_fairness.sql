@@ -0,0 +1,92 @@
+-- Exposure fairness
+-- users.last_matched_at records each user's latest study match (auto or
+-- swipe; mentorships run on their own schedule). From scoring v7 the
+-- days since then, or since sign-up for users who never matched, earn a
+-- wait bonus on the adjusted score, and every auto-match run reports the
+-- distribution of wait times across its eligible pool (stats.waitTimes).
+
+ALTER TABLE users
+ADD COLUMN last_matched_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN users.last_matched_at IS 'When the user last got an auto or swipe match; maintained by trigger';
+
+UPDATE users u
+SET last_matched_at = latest.matched_at
+FROM (
+  SELECT pair.user_id, MAX(pair.matched_at) AS matched_at
+  FROM (
+    SELECT user1_id AS user_id, matched_at FROM matches WHERE match_type IN ('auto', 'manual')
+    UNION ALL
+    SELECT user2_id AS user_id, matched_at FROM matches WHERE match_type IN ('auto', 'manual')
+  ) pair
+  GROUP BY pair.user_id
+) latest
+WHERE u.id = latest.user_id;
+
+-- Keep last_matched_at in step with matches. A match removed by
+-- undo_swipe no longer counts, so deletes recompute from what is left.
+-- SECURITY DEFINER because a swipe match updates the partner's row too
+CREATE OR REPLACE FUNCTION update_last_matched_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Lets the writes below past guard_last_matched_at
+  PERFORM set_config('app.updating_last_matched_at', 'on', true);
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE users
+    SET last_matched_at = GREATEST(COALESCE(last_matched_at, NEW.matched_at), NEW.matched_at)
+    WHERE id IN (NEW.user1_id, NEW.user2_id);
+  ELSE
+    UPDATE users u
+    SET last_matched_at = (
+      SELECT MAX(m.matched_at)
+      FROM matches m
+      WHERE (m.user1_id = u.id OR m.user2_id = u.id)
+        AND m.match_type IN ('auto', 'manual')
+    )
+    WHERE u.id IN (OLD.user1_id, OLD.user2_id);
+  END IF;
+
+  PERFORM set_config('app.updating_last_matched_at', 'off', true);
+
+  IF TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_update_last_matched_at_insert
+AFTER INSERT ON matches
+FOR EACH ROW
+WHEN (NEW.match_type IN ('auto', 'manual'))
+EXECUTE FUNCTION update_last_matched_at();
+
+CREATE TRIGGER trigger_update_last_matched_at_delete
+AFTER DELETE ON matches
+FOR EACH ROW
+WHEN (OLD.match_type IN ('auto', 'manual'))
+EXECUTE FUNCTION update_last_matched_at();
+
+-- last_matched_at feeds the wait bonus, so users must not be able to
+-- set it on their own row (the users insert and update policies cover
+-- every column). Any write that doesn't come from update_last_matched_at
+-- keeps the old value, or none for a new profile
+CREATE OR REPLACE FUNCTION guard_last_matched_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('app.updating_last_matched_at', true), 'off') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.last_matched_at := NULL;
+    ELSE
+      NEW.last_matched_at := OLD.last_matched_at;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_guard_last_matched_at
+BEFORE INSERT OR UPDATE OF last_matched_at ON users
+FOR EACH ROW
+EXECUTE FUNCTION guard_last_matched_at();
@@ -0,0 +1,149 @@
+-- Online presence and last seen
+-- Who is online and who is typing travel over Supabase Realtime, so
+-- nothing here is written per keystroke. Every conversation and Nest has
+-- one private channel ("chat room") carrying both; the policies at the
+-- end only let its members join, so users only see the people they chat
+-- with. users.last_seen_at keeps the moment a user was last in the app
+-- for partners who open a chat while they're away. Users can stop
+-- sharing it (share_last_seen); they then also stop appearing online.
+
+ALTER TABLE users
+ADD COLUMN share_last_seen BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN last_seen_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN users.share_last_seen IS 'Whether partners can see when the user is online or was last seen';
+COMMENT ON COLUMN users.last_seen_at IS 'When the user was last in the app (NULL = unknown or not shared)';
+
+-- Stamp the caller's last seen with the server clock. A no-op while
+-- they don't share it
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS VOID AS $$
+BEGIN
+  -- Lets the write below past guard_last_seen_at
+  PERFORM set_config('app.touching_last_seen', 'on', true);
+
+  UPDATE users
+  SET last_seen_at = NOW()
+  WHERE id = auth.uid()
+    AND share_last_seen;
+
+  PERFORM set_config('app.touching_last_seen', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only touch_last_seen sets last seen (the users insert and update
+-- policies cover every column); any other write keeps the old value, or
+-- none for a new profile. Turning sharing off forgets the last stamp, so
+-- it can't leak later
+CREATE OR REPLACE FUNCTION guard_last_seen_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(current_setting('app.touching_last_seen', true), 'off') <> 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.last_seen_at := NULL;
+    ELSE
+      NEW.last_seen_at := OLD.last_seen_at;
+    END IF;
+  END IF;
+
+  IF NOT NEW.share_last_seen THEN
+    NEW.last_seen_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_guard_last_seen_at
+BEFORE INSERT OR UPDATE OF share_last_seen, last_seen_at ON users
+FOR EACH ROW
+EXECUTE FUNCTION guard_last_seen_at();
+
+-- Last seen of the given users, limited to people the caller chats
+-- with: match partners and fellow Nest members. Users who don't share
+-- it are left out
+CREATE OR REPLACE FUNCTION get_last_seen(p_user_ids UUID[])
+RETURNS TABLE (user_id UUID, last_seen_at TIMESTAMPTZ) AS $$
+  SELECT u.id, u.last_seen_at
+  FROM users u
+  WHERE u.id = ANY(p_user_ids)
+    AND u.share_last_seen
+    AND u.last_seen_at IS NOT NULL
+    AND (
+      EXISTS (
+        SELECT 1 FROM matches m
+        WHERE (m.user1_id = auth.uid() AND m.user2_id = u.id)
+           OR (m.user2_id = auth.uid() AND m.user1_id = u.id)
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM nest_members mine
+        JOIN nest_members theirs ON theirs.nest_id = mine.nest_id
+        WHERE mine.user_id = auth.uid()
+          AND theirs.user_id = u.id
+      )
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- CHAT ROOMS
+-- ============================================================================
+
+-- Whether the caller may join a chat room: 'chat:conversation:<id>' for
+-- either side of the match, 'chat:nest:<id>' for the Nest's members
+CREATE OR REPLACE FUNCTION can_join_chat_room(p_topic TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_parts TEXT[] := string_to_array(p_topic, ':');
+BEGIN
+  IF auth.uid() IS NULL
+    OR array_length(v_parts, 1) IS DISTINCT FROM 3
+    OR v_parts[1] <> 'chat'
+    OR v_parts[3] !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN FALSE;
+  END IF;
+
+  IF v_parts[2] = 'conversation' THEN
+    RETURN EXISTS (
+      SELECT 1
+      FROM conversations c
+      JOIN matches m ON m.id = c.match_id
+      WHERE c.id = v_parts[3]::UUID
+        AND auth.uid() IN (m.user1_id, m.user2_id)
+    );
+  END IF;
+
+  IF v_parts[2] = 'nest' THEN
+    RETURN EXISTS (
+      SELECT 1
+      FROM nest_members
+      WHERE nest_id = v_parts[3]::UUID
+        AND user_id = auth.uid()
+    );
+  END IF;
+
+  RETURN FALSE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Realtime Authorization: clients join chat rooms as private channels,
+-- and only members may see or send their presence and typing events
+CREATE POLICY "Chat members can receive presence and typing" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension IN ('presence', 'broadcast')
+    AND can_join_chat_room(realtime.topic())
+  );
+
+CREATE POLICY "Chat members can send presence and typing" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('presence', 'broadcast')
+    AND can_join_chat_room(realtime.topic())
+  );
+
+REVOKE ALL ON FUNCTION touch_last_seen() FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_last_seen(UUID[]) FROM PUBLIC;
+REVOKE ALL ON FUNCTION can_join_chat_room(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION touch_last_seen() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_last_seen(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_join_chat_room(TEXT) TO authenticated;
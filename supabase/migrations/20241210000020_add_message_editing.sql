@@ -0,0 +1,274 @@
+-- Editing and deleting sent messages
+-- Senders can edit their text messages for 15 minutes after sending, in
+-- DMs and Nests; each edit keeps the text it replaced in message_edits.
+-- They can also delete a message for everyone at any time. A deleted
+-- message stays as a tombstone (deleted_at set, content and media
+-- cleared, edit history dropped) so both sides see "message deleted" in
+-- its place. Both are plain UPDATEs, so open chats get them through
+-- their existing realtime UPDATE subscriptions, and a trigger keeps the
+-- conversation preview in step when the last message changes.
+
+ALTER TABLE messages
+ADD COLUMN edited_at TIMESTAMPTZ;
+
+ALTER TABLE nest_messages
+ADD COLUMN edited_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN messages.edited_at IS 'When the sender last edited the message (NULL = never)';
+COMMENT ON COLUMN nest_messages.edited_at IS 'When the sender last edited the message (NULL = never)';
+
+-- Previous versions of edited messages, one row per edit
+CREATE TABLE message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+  nest_message_id UUID REFERENCES nest_messages(id) ON DELETE CASCADE,
+  editor_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((message_id IS NULL) <> (nest_message_id IS NULL))
+);
+
+CREATE INDEX idx_message_edits_message_id ON message_edits(message_id) WHERE message_id IS NOT NULL;
+CREATE INDEX idx_message_edits_nest_message_id ON message_edits(nest_message_id) WHERE nest_message_id IS NOT NULL;
+
+COMMENT ON TABLE message_edits IS 'Text replaced by each edit of a DM or Nest message; written by edit_message/edit_nest_message';
+
+-- Rows are written by the functions below; authors can read their own
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view the edit history of their messages" ON message_edits
+  FOR SELECT USING (editor_id = auth.uid());
+
+-- ============================================================================
+-- DIRECT MESSAGES
+-- ============================================================================
+
+-- Replace the text of one of the caller's messages within the edit window.
+-- SECURITY DEFINER because message_edits has no insert policy
+CREATE OR REPLACE FUNCTION edit_message(p_message_id UUID, p_content TEXT)
+RETURNS messages AS $$
+DECLARE
+  v_message messages;
+  v_content TEXT := btrim(p_content);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_content IS NULL OR v_content = '' OR length(v_content) > 1000 THEN
+    RAISE EXCEPTION 'Message must be between 1 and 1000 characters';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF v_message.id IS NULL OR v_message.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message was deleted';
+  END IF;
+
+  IF v_message.message_type IS DISTINCT FROM 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF v_message.created_at < NOW() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes';
+  END IF;
+
+  -- Saving the same text is not an edit
+  IF v_message.content = v_content THEN
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO message_edits (message_id, editor_id, previous_content)
+  VALUES (v_message.id, auth.uid(), v_message.content);
+
+  UPDATE messages
+  SET content = v_content,
+      edited_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_message.id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Delete one of the caller's messages for everyone, leaving a tombstone.
+-- Deleting a deleted message succeeds without changes
+CREATE OR REPLACE FUNCTION delete_message(p_message_id UUID)
+RETURNS messages AS $$
+DECLARE
+  v_message messages;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF v_message.id IS NULL OR v_message.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN v_message;
+  END IF;
+
+  DELETE FROM message_edits WHERE message_id = v_message.id;
+
+  UPDATE messages
+  SET content = '',
+      media_url = NULL,
+      media_type = NULL,
+      media_size = NULL,
+      thumbnail_url = NULL,
+      deleted_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_message.id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- NEST MESSAGES
+-- ============================================================================
+
+-- Senders could update or delete their Nest messages directly, which
+-- skipped the edit window, the edit history and the tombstone. Every
+-- change now goes through edit_nest_message/delete_nest_message
+DROP POLICY IF EXISTS "Users can update their own messages" ON nest_messages;
+DROP POLICY IF EXISTS "Users can delete their own messages" ON nest_messages;
+
+CREATE OR REPLACE FUNCTION edit_nest_message(p_message_id UUID, p_content TEXT)
+RETURNS nest_messages AS $$
+DECLARE
+  v_message nest_messages;
+  v_content TEXT := btrim(p_content);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_content IS NULL OR v_content = '' OR length(v_content) > 1000 THEN
+    RAISE EXCEPTION 'Message must be between 1 and 1000 characters';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM nest_messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF v_message.id IS NULL OR v_message.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message was deleted';
+  END IF;
+
+  IF v_message.created_at < NOW() - INTERVAL '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited for 15 minutes';
+  END IF;
+
+  IF v_message.content = v_content THEN
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO message_edits (nest_message_id, editor_id, previous_content)
+  VALUES (v_message.id, auth.uid(), v_message.content);
+
+  UPDATE nest_messages
+  SET content = v_content,
+      edited_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_message.id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION delete_nest_message(p_message_id UUID)
+RETURNS nest_messages AS $$
+DECLARE
+  v_message nest_messages;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_message
+  FROM nest_messages
+  WHERE id = p_message_id
+  FOR UPDATE;
+
+  IF v_message.id IS NULL OR v_message.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_message.deleted_at IS NOT NULL THEN
+    RETURN v_message;
+  END IF;
+
+  DELETE FROM message_edits WHERE nest_message_id = v_message.id;
+
+  UPDATE nest_messages
+  SET content = '',
+      deleted_at = NOW(),
+      updated_at = NOW()
+  WHERE id = v_message.id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION edit_message(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION delete_message(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION edit_nest_message(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION delete_nest_message(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION edit_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_message(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION edit_nest_message(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_nest_message(UUID) TO authenticated;
+
+-- ============================================================================
+-- CONVERSATION PREVIEW
+-- ============================================================================
+
+-- Edits and deletes of a conversation's last message show in its
+-- preview. last_message_at stays put so the chat list order doesn't jump
+CREATE OR REPLACE FUNCTION update_conversation_on_message_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE conversations
+  SET last_message_content = CASE
+    WHEN NEW.deleted_at IS NOT NULL THEN 'Message deleted'
+    WHEN NEW.message_type = 'text' THEN NEW.content
+    WHEN NEW.message_type = 'image' THEN '📷 Image'
+    WHEN NEW.message_type = 'file' THEN '📎 File'
+    ELSE NEW.content
+  END
+  WHERE id = NEW.conversation_id
+    AND last_message_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_conversation_on_message_change
+  AFTER UPDATE OF content, deleted_at ON messages
+  FOR EACH ROW
+  WHEN (NEW.content IS DISTINCT FROM OLD.content OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at)
+  EXECUTE FUNCTION update_conversation_on_message_change();